@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { formatStoragePath, isContentHash, isRefName, parseAddress } from './address.js';
+
+const HASH = 'a'.repeat(64);
+
+describe('parseAddress', () => {
+    it('parses bare hashes, storage paths and per-resource copies', () => {
+        expect(parseAddress(HASH)).toEqual({ contentHash: HASH });
+        expect(parseAddress(`doc/${HASH}`)).toEqual({ typeId: 'doc', contentHash: HASH, copyId: undefined });
+        expect(parseAddress(`doc/${HASH}.r1`)).toEqual({ typeId: 'doc', contentHash: HASH, copyId: 'r1' });
+    });
+
+    it('rejects anything else', () => {
+        expect(parseAddress('latest')).toBeNull();
+        expect(parseAddress(HASH.toUpperCase())).toBeNull();
+        expect(parseAddress(`doc/${HASH}/x`)).toBeNull();
+        expect(parseAddress(`../doc/${HASH}`)).toBeNull();
+        expect(parseAddress(`doc/./${HASH}`)).toBeNull();
+        expect(parseAddress(`/doc/${HASH}`)).toBeNull();
+    });
+
+    it('rejects type IDs that are not single path segments', () => {
+        expect(() => formatStoragePath('a/b', HASH)).toThrow('Invalid type ID');
+        expect(parseAddress(`a/b/${HASH}`)).toBeNull();
+        expect(() => formatStoragePath('..', HASH)).toThrow('Invalid type ID');
+        expect(() => formatStoragePath('', HASH)).toThrow('Invalid type ID');
+    });
+
+    it('round-trips formatted storage paths', () => {
+        expect(parseAddress(formatStoragePath('doc', HASH, 'r1'))).toMatchObject({ typeId: 'doc', copyId: 'r1' });
+        expect(formatStoragePath('doc', HASH)).toBe(`doc/${HASH}`);
+    });
+});
+
+describe('isContentHash and isRefName', () => {
+    it('tells hashes and ref names apart', () => {
+        expect(isContentHash(HASH)).toBe(true);
+        expect(isContentHash('abc')).toBe(false);
+        expect(isRefName('release-1.2_final')).toBe(true);
+        expect(isRefName(HASH)).toBe(false);
+        expect(isRefName('.hidden')).toBe(false);
+        expect(isRefName('a/b')).toBe(false);
+        expect(isRefName('x'.repeat(129))).toBe(false);
+    });
+});
@@ -0,0 +1,104 @@
+/**
+ * CAFS address scheme
+ *
+ * Content is stored at `{typeId}/{hash}`, where `hash` is the lowercase hex
+ * SHA-256 of the content bytes. Copies kept per resource when deduplication is
+ * disabled are stored at `{typeId}/{hash}.{resourceId}`. Streamed uploads are
+ * written to `.uploads/{uuid}` until their hash is known.
+ *
+ * An address is either a bare hash (resolved through the metadata store or a
+ * given type) or one of the storage paths above. Within a type, the name of a
+ * ref stands for the hash the ref points at. Type IDs are single path segments
+ * (see isTypeId), so storage paths never leave the folder of their type and the
+ * folder of one type never lies within that of another.
+ */
+
+import { GCSUtilsError } from './errors.js';
+
+/**
+ * Parsed CAFS address
+ */
+export interface CAFSAddress {
+    /** Type (storage folder) of the content, absent for bare hashes */
+    typeId?: string;
+    /** SHA-256 hash of the content */
+    contentHash: string;
+    /** Resource ID of a per-resource copy, if any */
+    copyId?: string;
+}
+
+/** Prefix of the temporary paths streamed uploads are written to before being moved into place */
+export const UPLOAD_PREFIX = '.uploads/';
+
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+const PATH_PATTERN = /^(.+)\/([a-f0-9]{64})(?:\.([^/]+))?$/;
+const REF_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,127}$/;
+
+/**
+ * Checks whether a value is a SHA-256 content hash
+ * @param value The value to check
+ * @returns True if the value is a lowercase hex SHA-256 hash
+ */
+export function isContentHash(value: string): boolean {
+    return HASH_PATTERN.test(value);
+}
+
+/**
+ * Checks whether a value is a relative path that stays within the folder it is relative to
+ * @param value The value to check
+ * @returns True if the value is `/`-separated segments, none of them empty, `.` or `..`
+ */
+export function isRelativePath(value: string): boolean {
+    return value.split('/').every(segment => segment !== '' && segment !== '.' && segment !== '..');
+}
+
+/**
+ * Checks whether a value can name a type: one storage folder, and one key segment in the metadata store
+ * @param value The value to check
+ * @returns True if the value is a relative path of a single segment
+ */
+export function isTypeId(value: string): boolean {
+    return !value.includes('/') && isRelativePath(value);
+}
+
+/**
+ * Checks whether a value can name a ref. Ref names cannot be content hashes, so that
+ * every address has one meaning.
+ * @param value The value to check
+ * @returns True if the value is 1-128 letters, digits, dots, dashes or underscores, starting with a letter or digit
+ */
+export function isRefName(value: string): boolean {
+    return REF_NAME_PATTERN.test(value) && !isContentHash(value);
+}
+
+/**
+ * Parses a bare hash or a storage path into a CAFS address
+ * @param address The address to parse
+ * @returns The parsed address or null if it is not a CAFS address
+ */
+export function parseAddress(address: string): CAFSAddress | null {
+    if (isContentHash(address)) {
+        return { contentHash: address };
+    }
+
+    const match = address.match(PATH_PATTERN);
+    if (!match || !isTypeId(match[1])) {
+        return null;
+    }
+    return { typeId: match[1], contentHash: match[2], copyId: match[3] };
+}
+
+/**
+ * Formats the storage path of content within a type
+ * @param typeId The type (storage folder)
+ * @param contentHash The SHA-256 hash of the content
+ * @param copyId Resource ID of a per-resource copy (deduplication disabled)
+ * @returns The storage path
+ * @throws GCSUtilsError if the type ID is not a single path segment
+ */
+export function formatStoragePath(typeId: string, contentHash: string, copyId?: string): string {
+    if (!isTypeId(typeId)) {
+        throw new GCSUtilsError(`Invalid type ID ${typeId}`, { operation: 'formatStoragePath' });
+    }
+    return copyId ? `${typeId}/${contentHash}.${copyId}` : `${typeId}/${contentHash}`;
+}
@@ -0,0 +1,300 @@
+import { createReadStream } from 'fs';
+import { FileHandle, mkdir, open, readFile, stat } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { GCSUtilsError, NotFoundError, wrapError } from './errors.js';
+import { ArchiveFormat } from './types/index.js';
+
+const BLOCK_SIZE = 512;
+/** Largest file a ustar header can describe (11 octal digits) */
+const MAX_TAR_FILE_SIZE = 8 ** 11 - 1;
+
+/**
+ * Sequentially writes the files of an archive
+ */
+export interface ArchiveWriter {
+    /** Adds a file of exactly `size` bytes */
+    add(name: string, size: number, content: Readable | Buffer): Promise<void>;
+    /** Completes the archive */
+    close(): Promise<void>;
+}
+
+/**
+ * Reads the files of an archive
+ */
+export interface ArchiveReader {
+    /** Reads a whole file */
+    read(name: string): Promise<Buffer>;
+    /** Streams a file */
+    createReadStream(name: string): Readable;
+    /** Releases the archive */
+    close(): Promise<void>;
+}
+
+/**
+ * Creates a new archive
+ * @param target Path of the archive, which must not exist yet
+ * @param format Format of the archive
+ * @returns The archive writer
+ */
+export async function createArchive(target: string, format: ArchiveFormat): Promise<ArchiveWriter> {
+    try {
+        if (format === 'tar') {
+            return new TarWriter(await open(target, 'wx'), target);
+        }
+        await mkdir(path.dirname(path.resolve(target)), { recursive: true });
+        await mkdir(target);
+        return new DirectoryWriter(target);
+    } catch (error) {
+        throw wrapError(error, `Failed to create archive ${target}`, { operation: 'createArchive', path: target });
+    }
+}
+
+/**
+ * Opens an existing archive, a directory or a tar file
+ * @param source Path of the archive
+ * @returns The archive reader
+ */
+export async function openArchive(source: string): Promise<ArchiveReader> {
+    try {
+        if ((await stat(source)).isDirectory()) {
+            return new DirectoryReader(source);
+        }
+        const handle = await open(source, 'r');
+        try {
+            return new TarReader(handle, source, await indexTar(handle, source));
+        } catch (error) {
+            await handle.close();
+            throw error;
+        }
+    } catch (error) {
+        throw wrapError(error, `Failed to open archive ${source}`, { operation: 'openArchive', path: source });
+    }
+}
+
+/**
+ * Archive kept as a directory tree, one file per archived file
+ */
+class DirectoryWriter implements ArchiveWriter {
+    private root: string;
+
+    constructor(root: string) {
+        this.root = root;
+    }
+
+    async add(name: string, size: number, content: Readable | Buffer): Promise<void> {
+        const filePath = resolveName(this.root, name);
+        await mkdir(path.dirname(filePath), { recursive: true });
+        const handle = await open(filePath, 'wx');
+        try {
+            await writeExactly(handle, name, size, content);
+        } finally {
+            await handle.close();
+        }
+    }
+
+    async close(): Promise<void> {
+        // Every file is complete once added
+    }
+}
+
+class DirectoryReader implements ArchiveReader {
+    private root: string;
+
+    constructor(root: string) {
+        this.root = root;
+    }
+
+    async read(name: string): Promise<Buffer> {
+        try {
+            return await readFile(resolveName(this.root, name));
+        } catch (error) {
+            throw wrapError(error, `Failed to read ${name} from archive ${this.root}`, { operation: 'readArchive', path: name });
+        }
+    }
+
+    createReadStream(name: string): Readable {
+        return createReadStream(resolveName(this.root, name));
+    }
+
+    async close(): Promise<void> {
+        // Nothing is held open
+    }
+}
+
+/**
+ * Archive kept as a POSIX ustar file
+ */
+class TarWriter implements ArchiveWriter {
+    private handle: FileHandle;
+    private target: string;
+
+    constructor(handle: FileHandle, target: string) {
+        this.handle = handle;
+        this.target = target;
+    }
+
+    async add(name: string, size: number, content: Readable | Buffer): Promise<void> {
+        await this.handle.write(tarHeader(name, size, this.target));
+        await writeExactly(this.handle, name, size, content);
+        await this.handle.write(Buffer.alloc(padding(size)));
+    }
+
+    async close(): Promise<void> {
+        try {
+            // End-of-archive marker: two empty blocks
+            await this.handle.write(Buffer.alloc(2 * BLOCK_SIZE));
+        } finally {
+            await this.handle.close();
+        }
+    }
+}
+
+class TarReader implements ArchiveReader {
+    private handle: FileHandle;
+    private source: string;
+    private files: Map<string, { offset: number; size: number }>;
+
+    constructor(handle: FileHandle, source: string, files: Map<string, { offset: number; size: number }>) {
+        this.handle = handle;
+        this.source = source;
+        this.files = files;
+    }
+
+    async read(name: string): Promise<Buffer> {
+        const { offset, size } = this.locate(name);
+        const buffer = Buffer.alloc(size);
+        await this.handle.read(buffer, 0, size, offset);
+        return buffer;
+    }
+
+    createReadStream(name: string): Readable {
+        const { offset, size } = this.locate(name);
+        return size === 0
+            ? Readable.from([])
+            : createReadStream(this.source, { start: offset, end: offset + size - 1 });
+    }
+
+    async close(): Promise<void> {
+        await this.handle.close();
+    }
+
+    private locate(name: string): { offset: number; size: number } {
+        const file = this.files.get(name);
+        if (!file) {
+            throw new NotFoundError(`Archive ${this.source} has no file ${name}`, { operation: 'readArchive', path: name });
+        }
+        return file;
+    }
+}
+
+/**
+ * Writes content to a file, checking that it has the announced size
+ * @param handle The file to write to
+ * @param name Name of the archived file, reported on failure
+ * @param size The announced size
+ * @param content The content
+ */
+async function writeExactly(handle: FileHandle, name: string, size: number, content: Readable | Buffer): Promise<void> {
+    let written = 0;
+    for await (const chunk of Buffer.isBuffer(content) ? [content] : content) {
+        written += (chunk as Buffer).length;
+        if (written > size) break;
+        await handle.write(chunk as Buffer);
+    }
+    if (written !== size) {
+        throw new GCSUtilsError(`Archived file ${name} does not have its announced size of ${size} bytes`, {
+            operation: 'writeArchive',
+            path: name
+        });
+    }
+}
+
+/**
+ * Builds the ustar header of a regular file
+ * @param name Name of the file
+ * @param size Size of the file in bytes
+ * @param target Path of the archive, reported on failure
+ * @returns The header block
+ */
+function tarHeader(name: string, size: number, target: string): Buffer {
+    if (Buffer.byteLength(name) > 100 || size > MAX_TAR_FILE_SIZE) {
+        throw new GCSUtilsError(`File ${name} cannot be stored in a tar archive`, { operation: 'writeArchive', path: target });
+    }
+    const header = Buffer.alloc(BLOCK_SIZE);
+    header.write(name, 0, 100);
+    header.write('0000644\0', 100);
+    header.write('0000000\0', 108);
+    header.write('0000000\0', 116);
+    header.write(`${size.toString(8).padStart(11, '0')}\0`, 124);
+    header.write(`${Math.floor(Date.now() / 1000).toString(8).padStart(11, '0')}\0`, 136);
+    header.write('        ', 148);
+    header.write('0', 156);
+    header.write('ustar\0', 257);
+    header.write('00', 263);
+    header.write(`${checksum(header).toString(8).padStart(6, '0')}\0 `, 148);
+    return header;
+}
+
+/**
+ * Lists the regular files of a tar archive
+ * @param handle The open archive
+ * @param source Path of the archive, reported on failure
+ * @returns The offset and size of each file by name
+ */
+async function indexTar(handle: FileHandle, source: string): Promise<Map<string, { offset: number; size: number }>> {
+    const files = new Map<string, { offset: number; size: number }>();
+    const { size: archiveSize } = await handle.stat();
+    const header = Buffer.alloc(BLOCK_SIZE);
+    let offset = 0;
+
+    while (offset + BLOCK_SIZE <= archiveSize) {
+        await handle.read(header, 0, BLOCK_SIZE, offset);
+        if (header.every(byte => byte === 0)) break;
+
+        const stored = parseInt(field(header, 148, 8), 8);
+        header.write('        ', 148);
+        if (stored !== checksum(header)) {
+            throw new GCSUtilsError(`Archive ${source} is not a valid tar file`, { operation: 'openArchive', path: source });
+        }
+
+        const prefix = field(header, 345, 155);
+        const name = prefix ? `${prefix}/${field(header, 0, 100)}` : field(header, 0, 100);
+        const size = parseInt(field(header, 124, 12), 8) || 0;
+        const type = field(header, 156, 1);
+        if (type === '0' || type === '') {
+            files.set(name, { offset: offset + BLOCK_SIZE, size });
+        }
+        offset += BLOCK_SIZE + size + padding(size);
+    }
+    return files;
+}
+
+function field(header: Buffer, start: number, length: number): string {
+    const raw = header.subarray(start, start + length);
+    const end = raw.indexOf(0);
+    return raw.subarray(0, end === -1 ? length : end).toString('utf8').trim();
+}
+
+function checksum(header: Buffer): number {
+    return header.reduce((sum, byte) => sum + byte, 0);
+}
+
+function padding(size: number): number {
+    return (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE;
+}
+
+/**
+ * Resolves the name of an archived file within a directory archive
+ * @param root The archive directory
+ * @param name Name of the archived file
+ * @returns The file path
+ * @throws GCSUtilsError if the name escapes the archive
+ */
+function resolveName(root: string, name: string): string {
+    const resolved = path.resolve(root, name);
+    if (!resolved.startsWith(path.resolve(root) + path.sep)) {
+        throw new GCSUtilsError(`Invalid archive file name ${name}`, { operation: 'readArchive', path: name });
+    }
+    return resolved;
+}
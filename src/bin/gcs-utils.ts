@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+import { GCSUtilsCli } from '../cli.js';
+
+new GCSUtilsCli().run(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+});
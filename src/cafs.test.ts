@@ -0,0 +1,354 @@
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import { text } from 'stream/consumers';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { CAFS } from './cafs.js';
+import {
+    ConflictError,
+    IntegrityError,
+    LegalHoldError,
+    NotFoundError,
+    PermissionError,
+    SizeLimitError,
+    ValidationError
+} from './errors.js';
+import { MemoryBlobStore } from './stores/memory-blob-store.js';
+import { MemoryMetadataStore } from './stores/memory-metadata-store.js';
+import { GCSUtilsConfig, StoreContentMeta } from './types/index.js';
+
+function sha256(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+}
+
+function meta(id: string, extra: Partial<StoreContentMeta> = {}): StoreContentMeta {
+    return { id, typeId: 'doc', roleId: 'output', executionId: 'exec-1', ...extra };
+}
+
+describe('CAFS', () => {
+    let blobStore: MemoryBlobStore;
+    let metadataStore: MemoryMetadataStore;
+    let cafs: CAFS;
+
+    function createCAFS(config: Partial<GCSUtilsConfig> = {}): CAFS {
+        return new CAFS({ bucketName: 'test-bucket', ...config }, { blobStore, metadataStore });
+    }
+
+    beforeEach(() => {
+        blobStore = new MemoryBlobStore();
+        metadataStore = new MemoryMetadataStore();
+        cafs = createCAFS();
+    });
+
+    describe('storing and retrieving', () => {
+        it('stores content under its hash and retrieves it by hash, path or across types', async () => {
+            const result = await cafs.storeContent(meta('r1'), 'hello');
+
+            expect(result).toMatchObject({
+                success: true,
+                contentHash: sha256('hello'),
+                deduplicated: false,
+                contentSize: 5,
+                storagePath: `doc/${sha256('hello')}`
+            });
+            expect(await cafs.retrieveContent('doc', result.contentHash)).toBe('hello');
+            expect(await cafs.retrieveContent('', result.storagePath)).toBe('hello');
+            expect(await cafs.retrieveContent('', result.contentHash)).toBe('hello');
+            expect(await cafs.contentExists('doc', result.contentHash)).toBe(true);
+        });
+
+        it('records the resource, its reference and its lineage', async () => {
+            const { contentHash } = await cafs.storeContent(meta('r1', { tags: ['a', 'a'] }), 'hello');
+
+            expect(await metadataStore.getMember('doc', 'r1')).toMatchObject({ pointer: 'r1', tags: ['a'] });
+            expect(await cafs.getCAFSEntry('doc', contentHash)).toMatchObject({
+                referencedBy: ['r1'],
+                metadata: { contentSize: 5, contentType: 'application/json' }
+            });
+            expect(await cafs.lineage.getProducers(contentHash)).toEqual(['exec-1']);
+        });
+
+        it('deduplicates identical content', async () => {
+            const first = await cafs.storeContent(meta('r1'), 'same');
+            const second = await cafs.storeContent(meta('r2'), 'same');
+
+            expect(second).toMatchObject({ deduplicated: true, existingResourceId: 'r1', storagePath: first.storagePath });
+            expect(await blobStore.list('doc/')).toEqual([first.storagePath]);
+            expect(await metadataStore.getMember('doc', 'r2')).toMatchObject({ pointer: 'r1' });
+            expect((await cafs.getCAFSEntry('doc', first.contentHash))?.referencedBy).toEqual(['r1', 'r2']);
+        });
+
+        it('keeps a copy per resource with deduplication disabled', async () => {
+            cafs = createCAFS({ enableDeduplication: false });
+            await cafs.storeContent(meta('r1'), 'same');
+            const second = await cafs.storeContent(meta('r2'), 'same');
+
+            expect(second).toMatchObject({ deduplicated: false, storagePath: `doc/${sha256('same')}.r2` });
+            expect(await cafs.retrieveContent('', second.storagePath)).toBe('same');
+        });
+
+        it('rejects content larger than maxFileSize', async () => {
+            cafs = createCAFS({ maxFileSize: 4 });
+
+            await expect(cafs.storeContent(meta('r1'), 'too large')).rejects.toBeInstanceOf(SizeLimitError);
+        });
+
+        it('fails with an IntegrityError when stored content does not match its hash', async () => {
+            const { storagePath, contentHash } = await cafs.storeContent(meta('r1'), 'original');
+            const blob = await blobStore.getMetadata(storagePath);
+            await blobStore.write(storagePath, 'tampered', { metadata: blob.metadata });
+
+            await expect(cafs.retrieveContent('doc', contentHash)).rejects.toBeInstanceOf(IntegrityError);
+            expect(await cafs.retrieveContent('doc', contentHash, { validateHash: false })).toBe('tampered');
+        });
+
+        it('reports missing content as NotFoundError', async () => {
+            await expect(cafs.retrieveContent('doc', sha256('missing'))).rejects.toBeInstanceOf(NotFoundError);
+            await expect(cafs.retrieveContent('', sha256('missing'))).rejects.toBeInstanceOf(NotFoundError);
+            expect(await cafs.contentExists('doc', sha256('missing'))).toBe(false);
+        });
+
+        it('rejects type IDs that would nest one type within the folder of another', async () => {
+            await expect(cafs.storeContent(meta('r1', { typeId: 'doc/draft' }), 'nested')).rejects.toThrow('Invalid type ID');
+            expect(await blobStore.list()).toEqual([]);
+            expect(await metadataStore.getMember('doc/draft', 'r1')).toBeNull();
+        });
+
+        it('stores and retrieves streams, verifying their hash', async () => {
+            const result = await cafs.storeStream(meta('r1'), Readable.from([Buffer.from('str'), Buffer.from('eam')]));
+
+            expect(result).toMatchObject({ contentHash: sha256('stream'), contentSize: 6 });
+            expect(await blobStore.list()).toEqual([result.storagePath]);
+            expect((await blobStore.getMetadata(result.storagePath)).metadata).toMatchObject({
+                id: 'r1',
+                kind: 'realized',
+                path: result.storagePath
+            });
+            expect(await text(await cafs.retrieveStream('doc', result.contentHash))).toBe('stream');
+        });
+
+        it('removes the upload of deduplicated streams', async () => {
+            await cafs.storeContent(meta('r1'), 'stream');
+            const result = await cafs.storeStream(meta('r2'), Readable.from([Buffer.from('stream')]));
+
+            expect(result.deduplicated).toBe(true);
+            expect(await blobStore.list()).toEqual([result.storagePath]);
+        });
+
+        it('fails streams at their end when content does not match its hash', async () => {
+            const { storagePath, contentHash } = await cafs.storeContent(meta('r1'), 'original');
+            const blob = await blobStore.getMetadata(storagePath);
+            await blobStore.write(storagePath, 'tampered', { metadata: blob.metadata });
+
+            await expect(text(await cafs.retrieveStream('doc', contentHash))).rejects.toBeInstanceOf(IntegrityError);
+        });
+    });
+
+    describe('typed resources', () => {
+        it('encodes, validates and decodes values with the codec of their type', async () => {
+            cafs.registerCodec('doc', 'integer');
+            const { contentHash } = await cafs.storeResource(meta('r1'), 42);
+
+            expect(await cafs.retrieveContent('doc', contentHash)).toBe('{"semanticIdentity":42}');
+            expect(await cafs.readResource<number>('doc', contentHash)).toBe(42);
+            await expect(cafs.storeResource(meta('r2'), 'forty-two')).rejects.toBeInstanceOf(ValidationError);
+        });
+    });
+
+    describe('deleting', () => {
+        it('deletes content once its last reference is removed', async () => {
+            const { contentHash, storagePath } = await cafs.storeContent(meta('r1'), 'shared');
+            await cafs.storeContent(meta('r2'), 'shared');
+
+            await cafs.deleteContent('doc', contentHash, { resourceId: 'r1' });
+            expect(await blobStore.exists(storagePath)).toBe(true);
+            expect((await cafs.getCAFSEntry('doc', contentHash))?.referencedBy).toEqual(['r2']);
+
+            await cafs.deleteContent('doc', contentHash, { resourceId: 'r2' });
+            expect(await blobStore.exists(storagePath)).toBe(false);
+            expect(await cafs.getCAFSEntry('doc', contentHash)).toBeNull();
+        });
+
+        it('force-deletes content with all its copies', async () => {
+            cafs = createCAFS({ enableDeduplication: false });
+            const { contentHash } = await cafs.storeContent(meta('r1'), 'copied');
+            await cafs.storeContent(meta('r2'), 'copied');
+
+            await cafs.deleteContent('doc', contentHash, { forceDelete: true });
+            expect(await blobStore.list()).toEqual([]);
+            expect(await cafs.getCAFSEntry('doc', contentHash)).toBeNull();
+        });
+
+        it('requires a resource unless force-deleting, and an existing entry', async () => {
+            const { contentHash } = await cafs.storeContent(meta('r1'), 'kept');
+
+            await expect(cafs.deleteContent('doc', contentHash)).rejects.toThrow('A resourceId is required');
+            await expect(cafs.deleteContent('doc', sha256('missing'), { forceDelete: true }))
+                .rejects.toBeInstanceOf(NotFoundError);
+        });
+
+        it('reports metadata failures when force-deleting instead of a missing entry', async () => {
+            const { contentHash, storagePath } = await cafs.storeContent(meta('r1'), 'kept');
+            metadataStore.getCAFSEntry = async (): Promise<null> => {
+                throw Object.assign(new Error('caller lacks permission'), { code: 7 });
+            };
+
+            await expect(cafs.deleteContent('doc', contentHash, { forceDelete: true }))
+                .rejects.toBeInstanceOf(PermissionError);
+            expect(await blobStore.exists(storagePath)).toBe(true);
+        });
+
+        it('keeps content under legal hold', async () => {
+            const { contentHash, storagePath } = await cafs.storeContent(meta('r1'), 'held');
+            await cafs.setLegalHold('doc', contentHash, true);
+
+            await expect(cafs.deleteContent('doc', contentHash, { forceDelete: true }))
+                .rejects.toBeInstanceOf(LegalHoldError);
+            await cafs.deleteContent('doc', contentHash, { resourceId: 'r1' });
+            expect(await blobStore.exists(storagePath)).toBe(true);
+
+            await cafs.setLegalHold('doc', contentHash, false);
+            await cafs.deleteContent('doc', contentHash, { forceDelete: true });
+            expect(await blobStore.exists(storagePath)).toBe(false);
+        });
+    });
+
+    describe('batches', () => {
+        it('stores many items, uploading identical content once and failing items individually', async () => {
+            cafs = createCAFS({ maxFileSize: 8 });
+            const batch = await cafs.storeMany([
+                { meta: meta('r1'), content: 'one' },
+                { meta: meta('r2'), content: 'one' },
+                { meta: meta('r3'), content: 'far too large' },
+                { meta: meta('r4'), content: 'two' }
+            ]);
+
+            expect(batch).toMatchObject({ succeeded: 3, failed: 1 });
+            expect(batch.results[1]).toMatchObject({ success: true, deduplicated: true, existingResourceId: 'r1' });
+            expect(batch.results[2].cause).toBeInstanceOf(SizeLimitError);
+            expect(await blobStore.list()).toHaveLength(2);
+            expect((await cafs.getCAFSEntry('doc', sha256('one')))?.referencedBy).toEqual(['r1', 'r2']);
+        });
+
+        it('retrieves many items, failing missing ones individually', async () => {
+            const { contentHash } = await cafs.storeContent(meta('r1'), 'one');
+            const batch = await cafs.retrieveMany([
+                { folder: 'doc', address: contentHash },
+                { folder: 'doc', address: sha256('missing') },
+                { folder: 'doc', address: contentHash }
+            ]);
+
+            expect(batch).toMatchObject({ succeeded: 2, failed: 1 });
+            expect(batch.results[0].content?.toString()).toBe('one');
+            expect(batch.results[1].cause).toBeInstanceOf(NotFoundError);
+        });
+    });
+
+    describe('querying', () => {
+        it('pages through CAFS entries matching filters', async () => {
+            await cafs.storeContent(meta('r1', { roleId: 'input' }), 'a');
+            await cafs.storeContent(meta('r2'), 'bb');
+            await cafs.storeContent(meta('r3'), 'ccc');
+
+            const first = await cafs.queryCAFSEntries({ typeId: 'doc', roleId: 'output', orderBy: 'contentSize', pageSize: 1 });
+            expect(first.entries.map(entry => entry.metadata.contentSize)).toEqual([2]);
+            const second = await cafs.queryCAFSEntries({
+                typeId: 'doc', roleId: 'output', orderBy: 'contentSize', pageSize: 1, cursor: first.nextCursor
+            });
+            expect(second.entries.map(entry => entry.metadata.contentSize)).toEqual([3]);
+            expect(second.nextCursor).toBeUndefined();
+
+            const all = [];
+            for await (const entry of cafs.iterateCAFSEntries({ typeId: 'doc', pageSize: 2 })) {
+                all.push(entry);
+            }
+            expect(all).toHaveLength(3);
+        });
+
+        it('finds CAFS entries by the tags of the resources referencing them', async () => {
+            const draft = await cafs.storeContent(meta('r1', { tags: ['draft'] }), 'a');
+            await cafs.storeContent(meta('r2'), 'b');
+
+            const drafts = await cafs.queryCAFSEntries({ typeId: 'doc', tag: 'draft' });
+            expect(drafts.entries.map(entry => entry.contentHash)).toEqual([draft.contentHash]);
+
+            await cafs.removeTags('doc', 'r1', ['draft']);
+            await cafs.addTags('doc', 'r2', ['draft']);
+            const retagged = await cafs.queryCAFSEntries({ typeId: 'doc', tag: 'draft' });
+            expect(retagged.entries.map(entry => entry.contentHash)).toEqual([sha256('b')]);
+            expect((await cafs.queryCAFSEntries({ typeId: 'doc', tag: 'final' })).entries).toEqual([]);
+        });
+
+        it('labels resources with tags and custom properties and finds them by them', async () => {
+            await cafs.storeContent(meta('r1', { tags: ['draft'], customProperties: { owner: 'ann' } }), 'a');
+            await cafs.storeContent(meta('r2', { customProperties: { owner: 'bob' } }), 'b');
+
+            await cafs.addTags('doc', 'r2', ['draft', 'final']);
+            await cafs.removeTags('doc', 'r1', ['draft']);
+
+            const drafts = await cafs.findResources({ typeId: 'doc', tag: 'draft' });
+            expect(drafts.map(record => record.id)).toEqual(['r2']);
+            const owned = await cafs.findResources({ typeId: 'doc', properties: { owner: 'ann' } });
+            expect(owned.map(record => record.id)).toEqual(['r1']);
+            await expect(cafs.addTags('doc', 'missing', ['x'])).rejects.toBeInstanceOf(NotFoundError);
+        });
+    });
+
+    describe('refs', () => {
+        it('points names at content, resolving them as addresses', async () => {
+            const { contentHash } = await cafs.storeContent(meta('r1'), 'v1');
+            const ref = await cafs.setRef('doc', 'latest', contentHash, { expected: null, updatedBy: 'ann' });
+
+            expect(ref).toMatchObject({ name: 'latest', contentHash, version: 1, updatedBy: 'ann' });
+            expect(await cafs.retrieveContent('doc', 'latest')).toBe('v1');
+            expect(await cafs.resolveAddress('doc', 'latest')).toBe(`doc/${contentHash}`);
+        });
+
+        it('updates refs with compare-and-swap and keeps their history', async () => {
+            const v1 = (await cafs.storeContent(meta('r1'), 'v1')).contentHash;
+            const v2 = (await cafs.storeContent(meta('r2'), 'v2')).contentHash;
+            await cafs.setRef('doc', 'latest', v1);
+
+            await expect(cafs.setRef('doc', 'latest', v2, { expected: v2 })).rejects.toBeInstanceOf(ConflictError);
+            await cafs.setRef('doc', 'latest', v2, { expected: v1, message: 'promote' });
+            await cafs.deleteRef('doc', 'latest', { expected: v2 });
+
+            expect(await cafs.getRef('doc', 'latest')).toBeNull();
+            const history = await cafs.getRefHistory('doc', 'latest');
+            expect(history.map(entry => [entry.version, entry.contentHash])).toEqual([[3, null], [2, v2], [1, v1]]);
+            expect(history[1].message).toBe('promote');
+        });
+
+        it('only points refs at stored content', async () => {
+            await expect(cafs.setRef('doc', 'latest', sha256('missing'))).rejects.toBeInstanceOf(NotFoundError);
+            await expect(cafs.retrieveContent('doc', 'unknown-ref')).rejects.toBeInstanceOf(NotFoundError);
+        });
+    });
+
+    describe('signed URLs', () => {
+        it('rejects expiries beyond 7 days', async () => {
+            const { contentHash } = await cafs.storeContent(meta('r1'), 'signed');
+
+            await expect(cafs.createDownloadUrl('doc', contentHash, { expiresInMs: 8 * 24 * 60 * 60 * 1000 }))
+                .rejects.toThrow('within 7 days');
+        });
+
+        it('finalizes content uploaded directly to its address', async () => {
+            const contentHash = sha256('direct');
+            await blobStore.write(`doc/${contentHash}`, 'direct', { contentType: 'text/plain' });
+
+            const result = await cafs.finalizeUpload(meta('r1'), contentHash);
+            expect(result).toMatchObject({ success: true, contentHash, contentSize: 6 });
+            expect((await blobStore.getMetadata(result.storagePath)).metadata).toMatchObject({ id: 'r1' });
+            expect(await cafs.retrieveContent('doc', contentHash)).toBe('direct');
+        });
+
+        it('deletes directly uploaded content that does not match its hash', async () => {
+            const contentHash = sha256('expected');
+            await blobStore.write(`doc/${contentHash}`, 'something else');
+
+            await expect(cafs.finalizeUpload(meta('r1'), contentHash)).rejects.toBeInstanceOf(IntegrityError);
+            expect(await blobStore.list()).toEqual([]);
+            await expect(cafs.finalizeUpload(meta('r1'), contentHash)).rejects.toBeInstanceOf(NotFoundError);
+        });
+    });
+});
@@ -1,11 +1,102 @@
-import { createHash } from 'crypto';
+import { createHash, createHmac, randomUUID } from 'crypto';
+import { Readable, Transform, pipeline } from 'stream';
+import { finished } from 'stream/promises';
 import { GCSUtils } from './gcs-utils.js';
+import { HashingStream } from './hashing.js';
+import { ENCRYPTION_ALGORITHM, EnvelopeCipher } from './encryption.js';
+import { ContentCache } from './content-cache.js';
 import {
+    compress,
+    createCompressStream,
+    createDecompressStream,
+    decompress
+} from './compression.js';
+import { mapWithConcurrency, retryOnConflict } from './concurrency.js';
+import { CodecRegistry } from './codecs.js';
+import { LineageTracker } from './lineage.js';
+import { GarbageCollector } from './gc.js';
+import { RetentionEvaluator } from './retention.js';
+import { SnapshotTransfer } from './snapshot.js';
+import { loadConfig, requireBucketName } from './config.js';
+import { CAFSAddress, UPLOAD_PREFIX, formatStoragePath, isContentHash, isRefName, parseAddress } from './address.js';
+import {
+    GCSUtilsError,
+    IntegrityError,
+    LegalHoldError,
+    NotFoundError,
+    SizeLimitError,
+    wrapError
+} from './errors.js';
+import {
+    BatchOptions,
+    BlobMetadata,
+    BlobPreconditions,
+    CAFSBatchResult,
     CAFSEntry,
+    CAFSEntryPage,
+    CAFSEntryQuery,
     CAFSOperationResult,
-    ResourceMetadata,
-    GCSUtilsConfig
+    CAFSRef,
+    CAFSRefLogEntry,
+    CAFSRetrieveResult,
+    CompressionEncoding,
+    DeleteOptions,
+    GCOptions,
+    GCReport,
+    GCSUtilsConfig,
+    LineageEdge,
+    MetadataStore,
+    RawContentMeta,
+    ReadOptions,
+    RefUpdateOptions,
+    ResourceCodec,
+    ResourceLabelUpdate,
+    ResourceMemberQuery,
+    ResourceMemberRecord,
+    ResourceType,
+    RetentionOptions,
+    RetentionPolicy,
+    RetentionReport,
+    RetrieveManyItem,
+    SignedDownload,
+    SignedDownloadOptions,
+    SignedUpload,
+    SignedUploadOptions,
+    SignedUrlOptions,
+    SnapshotExportOptions,
+    SnapshotImportReport,
+    SnapshotManifest,
+    StorageBackends,
+    StoreContentMeta,
+    StoreManyItem,
+    StoreOptions
 } from './types/index.js';
+import { FirestoreMetadataStore } from './stores/firestore-metadata-store.js';
+import { GCSBlobStore, createStorageClient } from './stores/gcs-blob-store.js';
+import { RetryingMetadataStore } from './stores/retrying-metadata-store.js';
+
+/** Default number of items processed concurrently by batch operations */
+const DEFAULT_CONCURRENCY = 8;
+
+/**
+ * Where a resource's content ended up after storing it
+ */
+interface Placement {
+    /** ID of the resource whose stored blob holds the content */
+    pointer: string;
+    /** Storage path of the content */
+    contentPath: string;
+    /** ID of the existing resource whose content was reused, if deduplicated */
+    existingResourceId?: string;
+}
+
+/** Writes content with the given blob metadata, failing with a ConflictError if the preconditions do not hold */
+type ContentWriter = (rawMeta: RawContentMeta, preconditions: BlobPreconditions) => Promise<void>;
+
+/** Default validity of signed URLs: 15 minutes */
+const DEFAULT_SIGNED_URL_EXPIRY_MS = 15 * 60 * 1000;
+/** Longest validity of V4 signed URLs: 7 days */
+const MAX_SIGNED_URL_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000;
 
 /**
  * Content Addressable File Storage (CAFS) implementation
@@ -13,180 +104,670 @@ import {
  */
 export class CAFS {
     private gcsUtils: GCSUtils;
+    private metadataStore: MetadataStore;
+    private codecs = new CodecRegistry();
+    private lineageTracker: LineageTracker;
+    private cipher?: EnvelopeCipher;
+    private contentCache?: ContentCache;
     private config: GCSUtilsConfig;
 
-    constructor(config: Partial<GCSUtilsConfig> = {}) {
-        this.config = {
-            bucketName: config.bucketName || process.env.BUCKET_NAME || 'tp-resources',
-            metadataCollection: config.metadataCollection || 'cafs_metadata',
-            enableDeduplication: config.enableDeduplication ?? true,
-            maxFileSize: config.maxFileSize || 10 * 1024 * 1024, // 10MB default
-            defaultContentType: config.defaultContentType || 'application/json'
-        };
+    /**
+     * @param config Optional configuration, completed from the environment and config file by loadConfig
+     * @param backends Optional storage backends (defaults to Google Cloud services)
+     * @throws ConfigError if the configuration is invalid, or no bucket is configured for the default blob store
+     */
+    constructor(config: Partial<GCSUtilsConfig> = {}, backends: StorageBackends = {}) {
+        this.config = loadConfig(config);
+        const { cloud } = this.config;
 
-        this.gcsUtils = new GCSUtils(this.config.bucketName);
+        const metadataStore = backends.metadataStore ||
+            new FirestoreMetadataStore(this.config.metadataCollection, undefined, cloud);
+        const blobStore = backends.blobStore ||
+            new GCSBlobStore(requireBucketName(this.config.bucketName), createStorageClient(cloud));
+        this.gcsUtils = new GCSUtils(this.config, { blobStore, metadataStore }, this.config.retry);
+        this.metadataStore = new RetryingMetadataStore(metadataStore, this.config.retry);
+        this.lineageTracker = new LineageTracker(this.metadataStore);
+        if (this.config.encryption) {
+            this.cipher = new EnvelopeCipher(this.config.encryption.keyProvider);
+        }
+        if (this.config.cache) {
+            this.contentCache = new ContentCache(this.config.cache, content => this.generateContentHash(content));
+        }
     }
 
     /**
-     * Stores content in CAFS with deduplication
-     * @param folder The folder to store content in
-     * @param content The content to store
-     * @param metadata Optional metadata
+     * Lineage of stored resources: outputs are recorded automatically by the store
+     * methods, inputs are recorded with `lineage.recordInputs`
+     */
+    get lineage(): LineageTracker {
+        return this.lineageTracker;
+    }
+
+    /**
+     * Read-through cache of retrieved content, if configured (e.g. for its hit rate)
+     */
+    get cache(): ContentCache | undefined {
+        return this.contentCache;
+    }
+
+    /**
+     * Stores content in CAFS with deduplication. The content is compressed if compression is
+     * configured; its hash and size are those of the uncompressed content.
+     * @param meta The resource the content belongs to, with optional tags and custom properties
+     * @param content The content to store (text or binary)
+     * @param options Optional content type and compression of the content
      * @returns CAFS operation result
+     * @throws SizeLimitError if the stored content exceeds maxFileSize, or another GCSUtilsError if storing fails
      */
     async storeContent(
-        meta: {
-            id: string;
-            typeId: string;
-            roleId: string;
-            executionId: string;
-        },
-        content: string
+        meta: StoreContentMeta,
+        content: string | Buffer | Uint8Array,
+        options: StoreOptions = {}
     ): Promise<CAFSOperationResult> {
         try {
-            // Validate content size
-            const contentSize = Buffer.byteLength(content, 'utf8');
-            if (contentSize > this.config.maxFileSize) {
-                return {
-                    success: false,
-                    contentHash: '',
-                    deduplicated: false,
-                    storagePath: '',
-                    error: `Content size ${contentSize} exceeds maximum allowed size ${this.config.maxFileSize}`
-                };
+            const data = typeof content === 'string' ? Buffer.from(content, 'utf8') : Buffer.from(content);
+            const contentType = options.contentType || this.config.defaultContentType;
+            const encoding = this.encodingOf(options);
+
+            // Validate the size of the content as stored
+            const stored = encoding ? await compress(data, encoding) : data;
+            if (stored.length > this.config.maxFileSize) {
+                throw new SizeLimitError(stored.length, this.config.maxFileSize, { operation: 'storeContent' });
             }
 
             // Generate content hash
-            const contentHash = this.generateContentHash(content);
-            const storagePath = this.getStoragePath(meta.typeId, contentHash);
-
-            const timestamp = new Date().toISOString();
+            const contentHash = this.generateContentHash(data);
 
-            const fileExists = await this.gcsUtils.fileExists(storagePath);
+            return await this.commitContent(meta, contentHash, data.length, contentType,
+                (rawMeta, preconditions) => this.writeContent(stored, rawMeta, contentType, preconditions, encoding)
+            );
 
-            let pointer = '';
+        } catch (error) {
+            throw wrapError(error, 'Failed to store content', { operation: 'storeContent' });
+        }
+    }
 
-            if (!fileExists.fileExists) {
-                pointer = meta.id;
+    /**
+     * Stores streamed content in CAFS with deduplication, hashing it while it uploads.
+     * The content is uploaded to a temporary path first and moved into place once its
+     * hash is known, so it is never held in memory and is not subject to maxFileSize.
+     * @param meta The resource the content belongs to
+     * @param stream The content stream
+     * @param options Optional content type and compression of the content
+     * @returns CAFS operation result
+     * @throws GCSUtilsError if storing fails
+     */
+    async storeStream(
+        meta: StoreContentMeta,
+        stream: Readable,
+        options: StoreOptions = {}
+    ): Promise<CAFSOperationResult> {
+        const uploadPath = `${UPLOAD_PREFIX}${randomUUID()}`;
+        const contentType = options.contentType || this.config.defaultContentType;
+        const encoding = this.encodingOf(options);
 
-                // Store content in GCS
-                await this.gcsUtils.writeRawContent(content,
-                    {
-                        ...meta,
-                        kind: 'realized',
-                        path: storagePath,
-                        timestamp
-                    }
-                );
-            } else {
-                pointer = fileExists.id;
+        try {
+            const hasher = new HashingStream(undefined, undefined, this.config.encryption?.addressKey);
+            const stages: Transform[] = [hasher];
+            if (encoding) {
+                stages.push(createCompressStream(encoding));
             }
+            if (this.cipher) {
+                stages.push(await this.cipher.createEncryptStream());
+            }
+            pipeline([stream, ...stages], () => undefined);
 
-            await this.gcsUtils.writeToFirestore(
-                {
-                    ...meta,
-                    timestamp,
-                    pointer
-                }
+            const uploadMeta = this.toRawMeta(meta, 'upload', uploadPath, new Date().toISOString(), encoding);
+            await this.gcsUtils.writeRawStream(
+                stages[stages.length - 1],
+                uploadMeta,
+                this.blobContentType(uploadMeta, contentType)
             );
 
-            return {
-                success: true,
-                contentHash,
-                deduplicated: false,
-                storagePath
-            };
+            return await this.commitContent(meta, hasher.contentHash, hasher.bytes, contentType,
+                (rawMeta, preconditions) =>
+                    this.gcsUtils.moveRawContent(uploadPath, this.withEncoding(rawMeta, encoding), preconditions)
+            );
 
         } catch (error) {
-            return {
-                success: false,
-                contentHash: '',
-                deduplicated: false,
-                storagePath: '',
-                error: `Failed to store content: ${error}`
-            };
+            throw wrapError(error, 'Failed to store content', { operation: 'storeStream', path: uploadPath });
+        } finally {
+            // Left behind when the content was deduplicated or the upload failed; removing it is
+            // best effort, so a failure here does not replace the outcome of the store
+            try {
+                if ((await this.gcsUtils.fileExists(uploadPath)).fileExists) {
+                    await this.gcsUtils.deleteFile(uploadPath);
+                }
+            } catch {
+                // Ignored
+            }
         }
     }
 
     /**
-     * Retrieves content from CAFS by hash
-     * @param contentHash The SHA-256 hash of the content
-     * @param updateAccessTime Whether to update last accessed time
+     * Retrieves content from CAFS by address, verifying its SHA-256 hash by default
+     * @param folder The folder (type) of the content, or '' to look a bare hash up across types
+     * @param address The content hash, a `{typeId}/{hash}` storage path or the name of a ref within the folder
+     * @param options Optional read options (access time update and hash validation default to true)
      * @returns The content string
+     * @throws IntegrityError if the content does not match its hash
      */
-    async retrieveContent(folder: string, contentHash: string, updateAccessTime: boolean = true): Promise<string> {
-        try {
-            const storagePath = contentHash; // this.getStoragePath(folder, contentHash); // ATTENTION: commenting out this for now to avoid adding folder prefix twice 
+    async retrieveContent(folder: string, address: string, options: ReadOptions = {}): Promise<string> {
+        const content = await this.retrieveBuffer(folder, address, options);
+        return content.toString();
+    }
 
-            // Check if content exists
-            const { fileExists: exists } = await this.gcsUtils.fileExists(storagePath);
-            if (!exists) {
-                throw new Error(`Content with hash ${contentHash} not found`);
+    /**
+     * Retrieves binary content from CAFS by address, verifying its SHA-256 hash by default.
+     * With a cache configured, cached content is served without accessing storage, and
+     * downloaded content that matches its hash is added to the cache.
+     * @param folder The folder (type) of the content, or '' to look a bare hash up across types
+     * @param address The content hash, a `{typeId}/{hash}` storage path or the name of a ref within the folder
+     * @param options Optional read options (access time update and hash validation default to true)
+     * @returns The content bytes
+     * @throws IntegrityError if the content does not match its hash
+     */
+    async retrieveBuffer(folder: string, address: string, options: ReadOptions = {}): Promise<Buffer> {
+        try {
+            address = await this.dereference(folder, address);
+            const cached = await this.readCache(folder, address, options);
+            if (cached) {
+                return cached;
             }
 
+            const { storagePath, typeId, contentHash, blob } = await this.locateContent(folder, address);
+
             // Retrieve content
-            const content = await this.gcsUtils.readRawContent(storagePath);
+            const content = await this.decodeContent(await this.gcsUtils.readRawBuffer(storagePath), blob);
 
             // Verify content hash
-            const actualHash = this.generateContentHash(content);
-            if (actualHash !== contentHash) {
-                // throw new Error(`Content hash mismatch. Expected: ${contentHash}, Actual: ${actualHash}`); // ATTENTION: must comment this out for now as we are using full GCS path as contentHash
+            if (options.validateHash ?? true) {
+                const actualHash = this.generateContentHash(content);
+                if (actualHash !== contentHash) {
+                    throw new IntegrityError(contentHash, actualHash, {
+                        operation: 'retrieveContent',
+                        path: storagePath
+                    });
+                }
             }
 
+            // Plaintext of encrypted content is only cached in memory
+            await this.contentCache?.put(storagePath, content, { persist: !this.isEncrypted(blob) });
+
             // Update access time if requested
-            if (updateAccessTime) {
-                await this.updateLastAccessTime(folder, contentHash);
+            if (options.updateAccessTime ?? true) {
+                await this.updateLastAccessTime(typeId, contentHash);
             }
 
             return content;
 
         } catch (error) {
-            throw new Error(`Failed to retrieve content: ${error}`);
+            throw wrapError(error, 'Failed to retrieve content', { operation: 'retrieveBuffer' });
+        }
+    }
+
+    /**
+     * Retrieves content from CAFS as a stream, verifying its SHA-256 hash incrementally.
+     * With validation enabled the stream fails with an IntegrityError at its end on mismatch,
+     * so consumers must not treat the data as trusted until the stream has finished.
+     * Cached content is served from the cache, but streamed content does not fill it.
+     * @param folder The folder (type) of the content, or '' to look a bare hash up across types
+     * @param address The content hash, a `{typeId}/{hash}` storage path or the name of a ref within the folder
+     * @param options Optional read options (access time update and hash validation default to true)
+     * @returns A readable stream of the content
+     */
+    async retrieveStream(folder: string, address: string, options: ReadOptions = {}): Promise<Readable> {
+        try {
+            address = await this.dereference(folder, address);
+            const cached = await this.readCache(folder, address, options);
+            if (cached) {
+                return Readable.from([cached]);
+            }
+
+            const { storagePath, typeId, contentHash, blob } = await this.locateContent(folder, address);
+
+            // Update access time if requested
+            if (options.updateAccessTime ?? true) {
+                await this.updateLastAccessTime(typeId, contentHash);
+            }
+
+            const source = this.gcsUtils.createReadStream(storagePath);
+            const stages = this.decodeStreams(blob);
+            if (options.validateHash ?? true) {
+                stages.push(new HashingStream(contentHash, storagePath, this.config.encryption?.addressKey));
+            }
+            if (stages.length === 0) {
+                return source;
+            }
+
+            pipeline([source, ...stages], () => undefined);
+            return stages[stages.length - 1];
+
+        } catch (error) {
+            throw wrapError(error, 'Failed to retrieve content', { operation: 'retrieveStream' });
+        }
+    }
+
+    /**
+     * Creates a signed URL that downloads stored content directly from the bucket. The URL
+     * serves the content as stored: compressed content is downloaded compressed (see `encoding`),
+     * and encrypted content cannot be downloaded this way.
+     * @param folder The folder (type) of the content, or '' to look a bare hash up across types
+     * @param address The content hash or a `{typeId}/{hash}` storage path
+     * @param options Optional expiry, Content-Disposition and access time update (default: true)
+     * @returns The signed URL and when it expires
+     * @throws GCSUtilsError if the content is encrypted or the blob store cannot sign URLs
+     */
+    async createDownloadUrl(
+        folder: string,
+        address: string,
+        options: SignedDownloadOptions = {}
+    ): Promise<SignedDownload> {
+        try {
+            const { storagePath, typeId, contentHash, blob } = await this.locateContent(folder, address);
+            if (this.isEncrypted(blob)) {
+                throw new GCSUtilsError(`Content at ${storagePath} is encrypted and cannot be downloaded directly`, {
+                    operation: 'createDownloadUrl',
+                    path: storagePath
+                });
+            }
+
+            const expiresAt = this.expiryOf(options);
+            const url = await this.gcsUtils.getSignedUrl(storagePath, {
+                action: 'read',
+                expires: expiresAt,
+                responseDisposition: options.responseDisposition
+            });
+
+            if (options.updateAccessTime ?? true) {
+                await this.updateLastAccessTime(typeId, contentHash);
+            }
+
+            return { url, storagePath, expiresAt, ...(blob.metadata.encoding && { encoding: blob.metadata.encoding }) };
+
+        } catch (error) {
+            throw wrapError(error, 'Failed to create download URL', { operation: 'createDownloadUrl' });
+        }
+    }
+
+    /**
+     * Creates a signed URL that uploads content directly to its CAFS path, for clients that
+     * have hashed the content themselves. The upload only succeeds if nothing is stored at
+     * the path yet; `finalizeUpload` then verifies it and records the resource. No upload is
+     * required when the content is already stored and will be deduplicated. Directly uploaded
+     * content is neither compressed nor encrypted, and is not subject to maxFileSize;
+     * uploads that are never finalized are removed by garbage collection as orphan blobs.
+     * @param meta The resource the content belongs to
+     * @param contentHash The SHA-256 hash of the content
+     * @param options Optional expiry and content type of the upload
+     * @returns The signed URL and the headers the upload must be made with, unless no upload is required
+     * @throws GCSUtilsError if encryption is configured or the blob store cannot sign URLs
+     */
+    async createUploadUrl(
+        meta: StoreContentMeta,
+        contentHash: string,
+        options: SignedUploadOptions = {}
+    ): Promise<SignedUpload> {
+        try {
+            const { storagePath, uploadRequired } = await this.locateUpload(meta, contentHash, 'createUploadUrl');
+            if (!uploadRequired) {
+                return { uploadRequired, storagePath };
+            }
+
+            const contentType = options.contentType || this.config.defaultContentType;
+            const headers = { 'x-goog-if-generation-match': '0' };
+            const expiresAt = this.expiryOf(options);
+            const url = await this.gcsUtils.getSignedUrl(storagePath, {
+                action: 'write',
+                expires: expiresAt,
+                contentType,
+                extensionHeaders: headers
+            });
+
+            return { uploadRequired, storagePath, url, expiresAt, headers: { 'Content-Type': contentType, ...headers } };
+
+        } catch (error) {
+            throw wrapError(error, 'Failed to create upload URL', { operation: 'createUploadUrl' });
+        }
+    }
+
+    /**
+     * Records a resource whose content was uploaded through a URL from `createUploadUrl`, like
+     * storeContent would. The uploaded content is verified against its hash before it is
+     * claimed; content that does not match is deleted. Finalizing is idempotent, and also
+     * succeeds without an upload when the content is already stored and deduplicated.
+     * @param meta The resource the content belongs to
+     * @param contentHash The SHA-256 hash of the content
+     * @returns CAFS operation result
+     * @throws NotFoundError if the content has not been uploaded
+     * @throws IntegrityError if the uploaded content does not match its hash
+     */
+    async finalizeUpload(meta: StoreContentMeta, contentHash: string): Promise<CAFSOperationResult> {
+        try {
+            const { storagePath, uploadRequired } = await this.locateUpload(meta, contentHash, 'finalizeUpload');
+            if (uploadRequired) {
+                throw new NotFoundError(`No content has been uploaded to ${storagePath}`, {
+                    operation: 'finalizeUpload',
+                    path: storagePath
+                });
+            }
+
+            const blob = await this.gcsUtils.getFileMetadata(storagePath);
+            const entry = await this.getCAFSMetadata(meta.typeId, contentHash);
+            let contentSize = entry?.metadata.contentSize ?? blob.size;
+            let contentType = entry?.metadata.contentType ?? this.config.defaultContentType;
+
+            if (!blob.metadata.id) {
+                // Uploaded but not claimed by any resource yet
+                contentSize = await this.verifyUpload(blob, contentHash);
+                contentType = blob.contentType || contentType;
+                await this.gcsUtils.setRawContentMeta(
+                    this.toRawMeta(meta, 'realized', storagePath, new Date().toISOString()),
+                    { ifGenerationMatch: blob.generation }
+                );
+            }
+
+            return await this.commitContent(meta, contentHash, contentSize, contentType, async rawMeta => {
+                if (rawMeta.path !== storagePath) {
+                    throw new NotFoundError(`No content has been uploaded to ${rawMeta.path}`, {
+                        operation: 'finalizeUpload',
+                        path: rawMeta.path
+                    });
+                }
+                await this.gcsUtils.setRawContentMeta(rawMeta);
+            });
+
+        } catch (error) {
+            throw wrapError(error, 'Failed to finalize upload', { operation: 'finalizeUpload' });
+        }
+    }
+
+    /**
+     * Registers the codec used to encode, decode and validate the resources of a type
+     * @param typeId The type
+     * @param codec A codec, or the name of a built-in resource type
+     */
+    registerCodec<T>(typeId: string, codec: ResourceCodec<T> | ResourceType): void {
+        this.codecs.register(typeId, codec);
+    }
+
+    /**
+     * Validates and encodes a typed value with the codec of its type, then stores it
+     * @param meta The resource the value belongs to
+     * @param value The value to store
+     * @param options Optional content type and compression of the content
+     * @returns CAFS operation result
+     * @throws ValidationError if the value is malformed or the type has no codec
+     */
+    async storeResource<T>(meta: StoreContentMeta, value: T, options: StoreOptions = {}): Promise<CAFSOperationResult> {
+        const content = this.codecs.encode(meta.typeId, value);
+        return await this.storeContent(meta, content, options);
+    }
+
+    /**
+     * Retrieves a typed value, decoding and validating it with the codec of its type
+     * @param typeId The type of the resource
+     * @param address The content hash or a `{typeId}/{hash}` storage path
+     * @param options Optional read options
+     * @returns The decoded value
+     * @throws ValidationError if the stored content is malformed or the type has no codec
+     */
+    async readResource<T>(typeId: string, address: string, options: ReadOptions = {}): Promise<T> {
+        const content = await this.retrieveBuffer(typeId, address, options);
+        return this.codecs.decode<T>(typeId, content);
+    }
+
+    /**
+     * Stores many contents in one go. Identical contents within the batch are uploaded
+     * once, uploads run with bounded concurrency and member records are written in batches.
+     * Items fail individually; a failure does not abort the rest of the batch.
+     * @param items The contents to store
+     * @param options Optional batch options
+     * @returns Per-item CAFS operation results in input order
+     */
+    async storeMany(items: StoreManyItem[], options: BatchOptions = {}): Promise<CAFSBatchResult<CAFSOperationResult>> {
+        const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+        const timestamp = new Date().toISOString();
+        const results: CAFSOperationResult[] = new Array(items.length);
+        const placements: Placement[] = new Array(items.length);
+        const prepared: {
+            data: Buffer;
+            stored: Buffer;
+            contentHash: string;
+            contentType: string;
+            encoding?: CompressionEncoding;
+        }[] = new Array(items.length);
+
+        // Hash, compress and validate every item
+        await mapWithConcurrency(items, concurrency, async ({ content, options = {} }, index) => {
+            try {
+                const data = typeof content === 'string' ? Buffer.from(content, 'utf8') : Buffer.from(content);
+                const encoding = this.encodingOf(options);
+                const stored = encoding ? await compress(data, encoding) : data;
+                if (stored.length > this.config.maxFileSize) {
+                    throw new SizeLimitError(stored.length, this.config.maxFileSize, { operation: 'storeMany' });
+                }
+
+                const contentHash = this.generateContentHash(data);
+                const contentType = options.contentType || this.config.defaultContentType;
+                prepared[index] = { data, stored, contentHash, contentType, encoding };
+            } catch (error) {
+                results[index] = this.failure(error);
+            }
+        });
+
+        // Group identical content within the batch
+        const groups = new Map<string, number[]>();
+        items.forEach(({ meta }, index) => {
+            if (!prepared[index]) return;
+            const key = this.getStoragePath(meta.typeId, prepared[index].contentHash);
+            groups.set(key, [...(groups.get(key) || []), index]);
+        });
+
+        // Upload each distinct content once
+        await mapWithConcurrency([...groups.values()], concurrency, async indexes => {
+            try {
+                for (const index of indexes) {
+                    const first = placements[indexes[0]];
+                    if (first && this.config.enableDeduplication) {
+                        placements[index] = {
+                            pointer: first.pointer,
+                            contentPath: first.contentPath,
+                            existingResourceId: first.pointer
+                        };
+                        continue;
+                    }
+
+                    const { stored, contentHash, contentType, encoding } = prepared[index];
+                    placements[index] = await this.placeContent(items[index].meta, contentHash, timestamp,
+                        (rawMeta, preconditions) =>
+                            this.writeContent(stored, rawMeta, contentType, preconditions, encoding)
+                    );
+                }
+            } catch (error) {
+                for (const index of indexes) {
+                    if (!placements[index]) results[index] = this.failure(error);
+                }
+            }
+        });
+
+        // Write the member records of all placed items in batches
+        let placed = items.map((_, index) => index).filter(index => placements[index] && !results[index]);
+        try {
+            await this.gcsUtils.writeManyToFirestore(placed.map(index =>
+                this.toMemberRecord(items[index].meta, timestamp, placements[index].pointer)
+            ));
+        } catch (error) {
+            placed.forEach(index => results[index] = this.failure(error));
+            placed = [];
+        }
+
+        await mapWithConcurrency(placed, concurrency, async index => {
+            const { data, contentHash, contentType } = prepared[index];
+            try {
+                await this.recordReference(items[index].meta, contentHash, data.length, contentType, timestamp);
+                results[index] = this.toResult(contentHash, data.length, placements[index]);
+            } catch (error) {
+                results[index] = this.failure(error);
+            }
+        });
+
+        // Record the lineage of everything that was stored
+        const stored = placed.filter(index => results[index].success);
+        try {
+            await this.lineageTracker.recordOutputs(stored.map(index =>
+                this.toOutputEdge(items[index].meta, prepared[index].contentHash, timestamp)
+            ));
+        } catch (error) {
+            stored.forEach(index => results[index] = this.failure(error));
         }
+
+        return this.summarize(results);
+    }
+
+    /**
+     * Retrieves many contents in one go with bounded concurrency, fetching repeated
+     * addresses once. Items fail individually; a failure does not abort the rest of the batch.
+     * @param items The contents to retrieve
+     * @param options Optional read and batch options
+     * @returns Per-item retrieve results in input order
+     */
+    async retrieveMany(
+        items: RetrieveManyItem[],
+        options: ReadOptions & BatchOptions = {}
+    ): Promise<CAFSBatchResult<CAFSRetrieveResult>> {
+        const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+        const keys = [...new Set(items.map(item => `${item.folder}\n${item.address}`))];
+
+        const fetched = await mapWithConcurrency(keys, concurrency, async key => {
+            const [folder, address] = key.split('\n');
+            try {
+                return { content: await this.retrieveBuffer(folder, address, options) };
+            } catch (error) {
+                return { cause: wrapError(error, 'Failed to retrieve content', { operation: 'retrieveMany' }) };
+            }
+        });
+
+        const byKey = new Map(keys.map((key, index) => [key, fetched[index]]));
+        return this.summarize(items.map(item => {
+            const { content, cause } = byKey.get(`${item.folder}\n${item.address}`) as {
+                content?: Buffer;
+                cause?: GCSUtilsError;
+            };
+            return content
+                ? { success: true, address: item.address, content }
+                : { success: false, address: item.address, error: cause?.message, cause };
+        }));
+    }
+
+    /**
+     * Resolves a CAFS address to the storage path of its content.
+     * Bare hashes and ref names are resolved within the given folder, and
+     * bare hashes through the metadata store when no folder is given.
+     * @param folder The folder (type) of the content, or '' to look a bare hash up across types
+     * @param address The content hash, a `{typeId}/{hash}` storage path or the name of a ref within the folder
+     * @returns The storage path
+     * @throws NotFoundError if a bare hash is not stored under any type, or a ref does not exist
+     */
+    async resolveAddress(folder: string, address: string): Promise<string> {
+        const parsed = parseAddress(await this.dereference(folder, address));
+        if (!parsed) {
+            throw new GCSUtilsError(`Invalid CAFS address ${address}`, { operation: 'resolveAddress' });
+        }
+        if (parsed.typeId) {
+            return formatStoragePath(parsed.typeId, parsed.contentHash, parsed.copyId);
+        }
+        if (folder) {
+            return this.getStoragePath(folder, parsed.contentHash);
+        }
+
+        const entries = await this.metadataStore.findCAFSEntries(parsed.contentHash);
+        if (entries.length === 0) {
+            throw new NotFoundError(`Content with hash ${parsed.contentHash} not found`, {
+                operation: 'resolveAddress'
+            });
+        }
+        return entries[0].gcsPath;
     }
 
     /**
      * Checks if content exists in CAFS
-     * @param contentHash The SHA-256 hash to check
+     * @param contentHash The SHA-256 hash or storage path to check
      * @returns True if content exists, false otherwise
      */
     async contentExists(folder: string = 'cafs', contentHash: string): Promise<boolean> {
-        const storagePath = this.getStoragePath(folder, contentHash);
+        let storagePath: string;
+        try {
+            storagePath = await this.resolveAddress(folder, contentHash);
+        } catch (error) {
+            if (error instanceof NotFoundError) return false;
+            throw error;
+        }
         const { fileExists } = await this.gcsUtils.fileExists(storagePath);
         return fileExists;
     }
 
     /**
-     * Deletes content from CAFS (decrements reference count)
+     * Deletes content from CAFS by removing a resource's reference to it.
+     * The content itself is deleted once no references remain, unless it is under legal hold.
      * @param contentHash The SHA-256 hash of the content
-     * @param forceDelete Whether to force delete regardless of reference count
+     * @param options The resource whose reference is removed, or forceDelete to delete regardless of references
+     * @throws LegalHoldError if forceDelete is set and the content is under legal hold
      */
-    async deleteContent(folder: string = 'cafs', contentHash: string, forceDelete: boolean = false): Promise<void> {
+    async deleteContent(folder: string = 'cafs', contentHash: string, options: DeleteOptions = {}): Promise<void> {
         try {
-            const cafsEntry = await this.getCAFSMetadata(folder, contentHash);
-            if (!cafsEntry) {
-                throw new Error(`CAFS entry not found for hash ${contentHash}`);
+            let cafsEntry: CAFSEntry | null;
+
+            if (options.forceDelete) {
+                cafsEntry = await this.getCAFSMetadata(folder, contentHash);
+            } else {
+                if (!options.resourceId) {
+                    throw new GCSUtilsError('A resourceId is required to remove a reference unless forceDelete is set', {
+                        operation: 'deleteContent'
+                    });
+                }
+                cafsEntry = await this.metadataStore.removeCAFSReference(folder, contentHash, options.resourceId);
             }
 
-            if (!forceDelete) {
-                // Decrement reference count
-                const newRefCount = Math.max(0, cafsEntry.metadata.referenceCount - 1);
-                await this.updateReferenceCount(folder, contentHash, -1);
+            if (!cafsEntry) {
+                throw new NotFoundError(`CAFS entry not found for hash ${contentHash}`, { operation: 'deleteContent' });
+            }
+            if (options.forceDelete && cafsEntry.metadata.legalHold) {
+                throw new LegalHoldError(`Content with hash ${contentHash} is under legal hold`, {
+                    operation: 'deleteContent',
+                    path: cafsEntry.gcsPath
+                });
+            }
 
-                // Only delete if reference count reaches zero
-                if (newRefCount > 0) {
-                    return;
+            // Remove per-resource copies stored with deduplication disabled
+            const copyOwners = options.forceDelete ? cafsEntry.referencedBy : [options.resourceId as string];
+            for (const resourceId of copyOwners) {
+                const copyPath = this.getStoragePath(folder, contentHash, resourceId);
+                if ((await this.gcsUtils.fileExists(copyPath)).fileExists) {
+                    await this.gcsUtils.deleteFile(copyPath);
+                    await this.contentCache?.delete(copyPath);
                 }
             }
 
-            // Delete from GCS
-            await this.gcsUtils.deleteFile(cafsEntry.gcsPath);
+            if (options.forceDelete) {
+                await this.gcsUtils.deleteFile(cafsEntry.gcsPath);
+                await this.contentCache?.delete(cafsEntry.gcsPath);
+                await this.deleteCAFSMetadata(folder, contentHash);
+                return;
+            }
 
-            // Delete CAFS metadata
-            await this.deleteCAFSMetadata(folder, contentHash);
+            // Only delete once no references remain; the entry is removed first, and only if no
+            // resource referenced the content again in the meantime, so the content stays with it
+            if (cafsEntry.referencedBy.length > 0) {
+                return;
+            }
+            if (await this.metadataStore.deleteUnreferencedCAFSEntry(folder, contentHash)) {
+                await this.gcsUtils.deleteFile(cafsEntry.gcsPath);
+                await this.contentCache?.delete(cafsEntry.gcsPath);
+            }
 
         } catch (error) {
-            throw new Error(`Failed to delete content: ${error}`);
+            throw wrapError(error, 'Failed to delete content', { operation: 'deleteContent' });
         }
     }
 
@@ -194,135 +775,878 @@ export class CAFS {
      * Gets CAFS entry metadata
      * @param contentHash The SHA-256 hash
      * @returns CAFS entry or null if not found
+     * @throws GCSUtilsError if the entry could not be read
      */
     async getCAFSEntry(folder: string = 'cafs', contentHash: string): Promise<CAFSEntry | null> {
         return await this.getCAFSMetadata(folder, contentHash);
     }
 
     /**
-     * Lists all CAFS entries with optional filtering
+     * Lists one page of the CAFS entries of a type, filtered and ordered by the metadata store
+     * @param query The type, filters, ordering and page cursor
+     * @returns The page of entries and the cursor of the next page
+     */
+    async queryCAFSEntries(query: CAFSEntryQuery): Promise<CAFSEntryPage> {
+        try {
+            return await this.metadataStore.queryCAFSEntryPage(query);
+        } catch (error) {
+            throw wrapError(error, 'Failed to query CAFS entries', { operation: 'queryCAFSEntries' });
+        }
+    }
+
+    /**
+     * Iterates over all CAFS entries matching a query, fetching one page at a time
+     * @param query The type, filters and ordering (any cursor is the starting point)
+     * @returns Async iterator over CAFS entries
+     */
+    async *iterateCAFSEntries(query: CAFSEntryQuery): AsyncGenerator<CAFSEntry> {
+        let cursor = query.cursor;
+        do {
+            const page = await this.queryCAFSEntries({ ...query, cursor });
+            yield* page.entries;
+            cursor = page.nextCursor;
+        } while (cursor !== undefined);
+    }
+
+    /**
+     * Lists all CAFS entries of a folder with optional filtering
+     * @param folder The folder (type) whose entries are listed
      * @param filter Optional filter function
      * @returns Array of CAFS entries
      */
     async listCAFSEntries(folder: string = 'cafs', filter?: (entry: CAFSEntry) => boolean): Promise<CAFSEntry[]> {
-        // In a real implementation, this would query Firestore
-        // For now, we'll list files in the CAFS directory
-        const files = await this.gcsUtils.listFiles(`${folder}/`);
         const entries: CAFSEntry[] = [];
+        for await (const entry of this.iterateCAFSEntries({ typeId: folder })) {
+            if (!filter || filter(entry)) {
+                entries.push(entry);
+            }
+        }
+        return entries;
+    }
 
-        for (const file of files) {
-            if (file.endsWith('.json')) continue; // Skip metadata files
+    /**
+     * Finds the resources of a type by role, execution, tag or custom property values
+     * @param query The type and the values the resources must have
+     * @returns The matching resource member records
+     */
+    async findResources(query: ResourceMemberQuery): Promise<ResourceMemberRecord[]> {
+        try {
+            return await this.metadataStore.queryMembers(query);
+        } catch (error) {
+            throw wrapError(error, 'Failed to find resources', { operation: 'findResources' });
+        }
+    }
 
-            const hash = this.extractHashFromPath(file);
-            if (hash) {
-                const entry = await this.getCAFSMetadata(folder, hash);
-                if (entry && (!filter || filter(entry))) {
-                    entries.push(entry);
-                }
+    /**
+     * Changes the tags and custom properties of a stored resource
+     * @param typeId The type of the resource
+     * @param resourceId The ID of the resource
+     * @param update Tags to add or remove and custom properties to set or remove
+     * @returns The updated resource member record
+     */
+    async updateResourceLabels(
+        typeId: string,
+        resourceId: string,
+        update: ResourceLabelUpdate
+    ): Promise<ResourceMemberRecord> {
+        let record: ResourceMemberRecord | null;
+        try {
+            record = await this.metadataStore.updateMemberLabels(typeId, resourceId, update);
+        } catch (error) {
+            throw wrapError(error, `Failed to update resource ${typeId}/${resourceId}`, {
+                operation: 'updateResourceLabels'
+            });
+        }
+        if (!record) {
+            throw new NotFoundError(`Resource ${typeId}/${resourceId} does not exist`, {
+                operation: 'updateResourceLabels'
+            });
+        }
+        return record;
+    }
+
+    /**
+     * Adds tags to a stored resource
+     * @param typeId The type of the resource
+     * @param resourceId The ID of the resource
+     * @param tags The tags to add
+     * @returns The updated resource member record
+     */
+    async addTags(typeId: string, resourceId: string, tags: string[]): Promise<ResourceMemberRecord> {
+        return await this.updateResourceLabels(typeId, resourceId, { addTags: tags });
+    }
+
+    /**
+     * Removes tags from a stored resource
+     * @param typeId The type of the resource
+     * @param resourceId The ID of the resource
+     * @param tags The tags to remove
+     * @returns The updated resource member record
+     */
+    async removeTags(typeId: string, resourceId: string, tags: string[]): Promise<ResourceMemberRecord> {
+        return await this.updateResourceLabels(typeId, resourceId, { removeTags: tags });
+    }
+
+    /**
+     * Checks a folder for orphaned content and abandoned uploads, dangling pointers, unreferenced
+     * entries and (optionally) hash mismatches, and removes them unless in dry-run mode
+     * @param folder The folder (type) to scan
+     * @param options Optional GC options (dry run by default)
+     * @returns The GC report
+     */
+    async collectGarbage(folder: string, options: GCOptions = {}): Promise<GCReport> {
+        try {
+            return await new GarbageCollector(this.gcsUtils, this.metadataStore, blob => this.hashStoredContent(blob),
+                async path => await this.contentCache?.delete(path)
+            ).run(folder, options);
+        } catch (error) {
+            throw wrapError(error, 'Failed to collect garbage', { operation: 'collectGarbage' });
+        }
+    }
+
+    /**
+     * Applies a retention policy to the content of a folder: expires idle resources, deletes
+     * content no remaining resource references and moves idle content to cheaper storage
+     * classes, as its rules decide. Reference counts and legal holds are respected.
+     * @param folder The folder (type) whose content is evaluated
+     * @param policy The retention rules
+     * @param options Optional retention options (dry run by default)
+     * @returns The retention report
+     */
+    async applyRetention(
+        folder: string,
+        policy: RetentionPolicy,
+        options: RetentionOptions = {}
+    ): Promise<RetentionReport> {
+        try {
+            return await new RetentionEvaluator(this.gcsUtils, this.metadataStore,
+                (typeId, contentHash, resourceId) => this.expireResource(typeId, contentHash, resourceId)
+            ).run(folder, policy, options);
+        } catch (error) {
+            throw wrapError(error, 'Failed to apply retention policy', { operation: 'applyRetention' });
+        }
+    }
+
+    /**
+     * Places content under legal hold, or releases it. Held content is never deleted: not when its
+     * last reference is removed, not by garbage collection or retention, and not by forceDelete.
+     * @param folder The folder (type) of the content
+     * @param contentHash The SHA-256 hash of the content
+     * @param held Whether the content is held
+     * @returns The updated CAFS entry
+     * @throws NotFoundError if the content has no CAFS entry
+     */
+    async setLegalHold(folder: string, contentHash: string, held: boolean): Promise<CAFSEntry> {
+        let entry: CAFSEntry | null;
+        try {
+            entry = await this.metadataStore.setCAFSLegalHold(folder, contentHash, held);
+        } catch (error) {
+            throw wrapError(error, `Failed to set legal hold of ${folder}/${contentHash}`, {
+                operation: 'setLegalHold'
+            });
+        }
+        if (!entry) {
+            throw new NotFoundError(`CAFS entry not found for hash ${contentHash}`, { operation: 'setLegalHold' });
+        }
+        return entry;
+    }
+
+    /**
+     * Points a named ref at content, creating the ref if it does not exist. With `expected`, the
+     * change is a compare-and-swap: it only succeeds if the ref still points at the expected content.
+     * Refs do not keep content alive; content is deleted once no resource references it.
+     * @param folder The folder (type) of the content
+     * @param name The name of the ref
+     * @param address The content hash, a storage path within the folder or the name of another ref
+     * @param options Optional expected target, author and message of the change
+     * @returns The updated ref
+     * @throws NotFoundError if the content is not stored in the folder
+     * @throws ConflictError if the ref does not point at the expected content
+     */
+    async setRef(folder: string, name: string, address: string, options: RefUpdateOptions = {}): Promise<CAFSRef> {
+        try {
+            this.checkRefName(name);
+            const { typeId = folder, contentHash } = parseAddress(await this.resolveAddress(folder, address)) as CAFSAddress;
+            if (typeId !== folder || !(await this.metadataStore.getCAFSEntry(folder, contentHash))) {
+                throw new NotFoundError(`Content ${address} is not stored in ${folder}`, { operation: 'setRef' });
             }
+            return await this.metadataStore.updateRef(folder, name, {
+                contentHash,
+                expectedHash: options.expected,
+                updatedBy: options.updatedBy,
+                message: options.message
+            }) as CAFSRef;
+        } catch (error) {
+            throw wrapError(error, `Failed to set ref ${folder}/${name}`, { operation: 'setRef' });
         }
+    }
 
-        return entries;
+    /**
+     * Deletes a named ref, recording the deletion in its history. The content it pointed at is kept.
+     * @param folder The folder (type) of the ref
+     * @param name The name of the ref
+     * @param options Optional expected target, author and message of the change
+     * @throws NotFoundError if the ref does not exist
+     * @throws ConflictError if the ref does not point at the expected content
+     */
+    async deleteRef(folder: string, name: string, options: RefUpdateOptions = {}): Promise<void> {
+        try {
+            this.checkRefName(name);
+            await this.metadataStore.updateRef(folder, name, {
+                contentHash: null,
+                expectedHash: options.expected,
+                updatedBy: options.updatedBy,
+                message: options.message
+            });
+        } catch (error) {
+            throw wrapError(error, `Failed to delete ref ${folder}/${name}`, { operation: 'deleteRef' });
+        }
     }
 
     /**
-     * Generates SHA-256 hash of content
-     * @param content The content to hash
-     * @returns The SHA-256 hash as hex string
+     * Gets a named ref
+     * @param folder The folder (type) of the ref
+     * @param name The name of the ref
+     * @returns The ref, or null if it does not exist
+     */
+    async getRef(folder: string, name: string): Promise<CAFSRef | null> {
+        try {
+            return await this.metadataStore.getRef(folder, name);
+        } catch (error) {
+            throw wrapError(error, `Failed to get ref ${folder}/${name}`, { operation: 'getRef' });
+        }
+    }
+
+    /**
+     * Lists the named refs of a folder
+     * @param folder The folder (type) of the refs
+     * @returns The refs
      */
-    private generateContentHash(content: string): string {
-        return createHash('sha256').update(content).digest('hex');
+    async listRefs(folder: string): Promise<CAFSRef[]> {
+        try {
+            return await this.metadataStore.listRefs(folder);
+        } catch (error) {
+            throw wrapError(error, `Failed to list refs of ${folder}`, { operation: 'listRefs' });
+        }
     }
 
     /**
-     * Gets the storage path for a content hash
-     * @param contentHash The SHA-256 hash
-     * @returns The GCS storage path
+     * Lists the changes made to a named ref, including deletions
+     * @param folder The folder (type) of the ref
+     * @param name The name of the ref
+     * @returns The changes, most recent first
      */
-    private getStoragePath(folder: string, contentHash: string): string {
-        // Use first 2 characters for directory structure to avoid too many files in one directory
-        return `${folder}/${contentHash}`;
+    async getRefHistory(folder: string, name: string): Promise<CAFSRefLogEntry[]> {
+        try {
+            return await this.metadataStore.queryRefHistory(folder, name);
+        } catch (error) {
+            throw wrapError(error, `Failed to get the history of ref ${folder}/${name}`, { operation: 'getRefHistory' });
+        }
     }
 
     /**
-     * Stores CAFS metadata (placeholder for Firestore integration)
-     * @param entry The CAFS entry to store
+     * Exports the resources produced by executions, with their member records, lineage and
+     * content, to a portable archive that importSnapshot can load into another bucket
+     * @param executionIds The executions to export (e.g. the executions of a job)
+     * @param target Path of the archive, which must not exist yet
+     * @param options Optional export options (inputs are included by default)
+     * @returns The manifest written to the archive
+     * @throws NotFoundError if the executions recorded no resources, or a resource or its content no longer exists
      */
-    private async storeCAFSMetadata(folder: string = 'cafs', entry: CAFSEntry, timestamp: string): Promise<void> {
-        // In a real implementation, this would store in Firestore
-        // For now, store as JSON file in GCS
-        const metadataPath = `${folder}/metadata/${entry.contentHash}.json`;
-        const metadataContent = JSON.stringify(entry, null, 2);
-        await this.gcsUtils.writeRawContent(
-            metadataContent,
-            {
-                id: entry.contentHash,
-                typeId: 'cafs',
-                roleId: 'metadata',
-                executionId: 'system',
-                kind: 'metadata',
-                path: metadataPath,
-                timestamp
+    async exportSnapshot(
+        executionIds: string[],
+        target: string,
+        options: SnapshotExportOptions = {}
+    ): Promise<SnapshotManifest> {
+        try {
+            return await this.snapshots().exportTo(executionIds, target, options);
+        } catch (error) {
+            throw wrapError(error, `Failed to export snapshot to ${target}`, { operation: 'exportSnapshot' });
+        }
+    }
+
+    /**
+     * Imports an archive written by exportSnapshot. Content is verified against its hash and
+     * deduplicated against content already stored; failed resources are reported per item.
+     * @param source Path of the archive, a directory or a tar file
+     * @param options Optional batch options
+     * @returns The imported manifest and one result per resource, in manifest order
+     * @throws GCSUtilsError if the archive or its manifest is invalid
+     */
+    async importSnapshot(source: string, options: BatchOptions = {}): Promise<SnapshotImportReport> {
+        try {
+            return await this.snapshots().importFrom(source, options);
+        } catch (error) {
+            throw wrapError(error, `Failed to import snapshot from ${source}`, { operation: 'importSnapshot' });
+        }
+    }
+
+    private snapshots(): SnapshotTransfer {
+        return new SnapshotTransfer(this.metadataStore, this.lineageTracker,
+            (typeId, contentHash) => this.retrieveStream(typeId, contentHash, { updateAccessTime: false }),
+            (meta, stream, options) => this.storeStream(meta, stream, options)
+        );
+    }
+
+    /**
+     * Expires a resource: removes its reference to content (deleting the content once no
+     * references remain) and its member record
+     * @param typeId The type of the resource
+     * @param contentHash The SHA-256 hash of the content
+     * @param resourceId The ID of the resource
+     */
+    private async expireResource(typeId: string, contentHash: string, resourceId: string): Promise<void> {
+        await this.deleteContent(typeId, contentHash, { resourceId });
+        await this.metadataStore.deleteMember(typeId, resourceId);
+    }
+
+    /**
+     * Stores already-hashed content under its address (unless deduplicated) and records
+     * the resource member record and CAFS reference
+     * @param meta The resource the content belongs to
+     * @param contentHash The SHA-256 hash of the content
+     * @param contentSize The size of the content in bytes
+     * @param contentType The MIME type of the content
+     * @param write Writes the content with the given blob metadata and preconditions
+     * @returns CAFS operation result
+     */
+    private async commitContent(
+        meta: StoreContentMeta,
+        contentHash: string,
+        contentSize: number,
+        contentType: string,
+        write: ContentWriter
+    ): Promise<CAFSOperationResult> {
+        const timestamp = new Date().toISOString();
+
+        const placement = await this.placeContent(meta, contentHash, timestamp, write);
+
+        await this.gcsUtils.writeToFirestore(this.toMemberRecord(meta, timestamp, placement.pointer));
+
+        await this.recordReference(meta, contentHash, contentSize, contentType, timestamp);
+
+        await this.lineageTracker.recordOutputs([this.toOutputEdge(meta, contentHash, timestamp)]);
+
+        return this.toResult(contentHash, contentSize, placement);
+    }
+
+    /**
+     * Writes content under its address, unless it is already stored and deduplication is enabled.
+     * The address is only written if it is still free, so a concurrent writer of the same content
+     * makes this attempt conflict and be retried, deduplicating against the winner.
+     * @param meta The resource the content belongs to
+     * @param contentHash The SHA-256 hash of the content
+     * @param timestamp The store timestamp
+     * @param write Writes the content with the given blob metadata and preconditions
+     * @returns Where the resource's content ended up
+     */
+    private async placeContent(
+        meta: StoreContentMeta,
+        contentHash: string,
+        timestamp: string,
+        write: ContentWriter
+    ): Promise<Placement> {
+        const storagePath = this.getStoragePath(meta.typeId, contentHash);
+
+        return await retryOnConflict(async () => {
+            const fileExists = await this.gcsUtils.fileExists(storagePath);
+
+            if (fileExists.fileExists && fileExists.id === meta.id) {
+                // Written by an earlier attempt whose outcome was lost (e.g. it timed out)
+                return { pointer: meta.id, contentPath: storagePath };
+            }
+
+            if (fileExists.fileExists && this.config.enableDeduplication) {
+                // Reuse the stored content of the resource that realized it
+                return { pointer: fileExists.id, contentPath: storagePath, existingResourceId: fileExists.id };
             }
+
+            // With deduplication disabled, every further resource gets its own copy
+            if (fileExists.fileExists) {
+                const copyPath = this.getStoragePath(meta.typeId, contentHash, meta.id);
+                await write(this.toRawMeta(meta, 'realized', copyPath, timestamp), {});
+                return { pointer: meta.id, contentPath: copyPath };
+            }
+
+            // Store content in GCS
+            await write(this.toRawMeta(meta, 'realized', storagePath, timestamp), { ifGenerationMatch: 0 });
+            return { pointer: meta.id, contentPath: storagePath };
+        });
+    }
+
+    /**
+     * Records a resource's reference to content, creating the CAFS entry on first write
+     * @param meta The resource the content belongs to
+     * @param contentHash The SHA-256 hash of the content
+     * @param contentSize The size of the content in bytes
+     * @param contentType The MIME type of the content
+     * @param timestamp The store timestamp
+     */
+    private async recordReference(
+        meta: StoreContentMeta,
+        contentHash: string,
+        contentSize: number,
+        contentType: string,
+        timestamp: string
+    ): Promise<void> {
+        await this.metadataStore.addCAFSReference(
+            meta.typeId,
+            {
+                contentHash,
+                gcsPath: this.getStoragePath(meta.typeId, contentHash),
+                metadata: {
+                    contentSize,
+                    contentType,
+                    timestamp,
+                    lastAccessedAt: new Date(timestamp),
+                    referenceCount: 1,
+                    tags: [],
+                    customProperties: {}
+                },
+                referencedBy: [meta.id]
+            },
+            { resourceId: meta.id, roleId: meta.roleId, executionId: meta.executionId }
         );
     }
 
     /**
-     * Retrieves CAFS metadata (placeholder for Firestore integration)
-     * @param contentHash The content hash
-     * @returns CAFS entry or null
+     * Builds the custom metadata stored on a resource's blob
+     * @param meta The resource the content belongs to
+     * @param kind Kind of blob ('realized' or 'upload')
+     * @param path Storage path of the blob
+     * @param timestamp The store timestamp
+     * @param encoding Encoding the content is compressed with, if compressed
+     * @returns The blob metadata
      */
-    private async getCAFSMetadata(folder: string = 'cafs', contentHash: string): Promise<CAFSEntry | null> {
+    private toRawMeta(
+        meta: StoreContentMeta,
+        kind: string,
+        path: string,
+        timestamp: string,
+        encoding?: CompressionEncoding
+    ): RawContentMeta {
+        return this.withEncoding({
+            id: meta.id,
+            typeId: meta.typeId,
+            roleId: meta.roleId,
+            executionId: meta.executionId,
+            kind,
+            path,
+            timestamp,
+            ...(this.cipher && { encryption: ENCRYPTION_ALGORITHM })
+        }, encoding);
+    }
+
+    /**
+     * Records the compression of content in its blob metadata
+     * @param rawMeta The blob metadata
+     * @param encoding Encoding the content is compressed with, if compressed
+     * @returns The blob metadata
+     */
+    private withEncoding(rawMeta: RawContentMeta, encoding?: CompressionEncoding): RawContentMeta {
+        return encoding ? { ...rawMeta, encoding } : rawMeta;
+    }
+
+    /**
+     * Builds the member record of a stored resource
+     * @param meta The stored resource
+     * @param timestamp The store timestamp, unless the resource has its own
+     * @param pointer ID of the resource whose blob holds the content
+     * @returns The member record
+     */
+    private toMemberRecord(meta: StoreContentMeta, timestamp: string, pointer: string): ResourceMemberRecord {
+        return {
+            id: meta.id,
+            typeId: meta.typeId,
+            roleId: meta.roleId,
+            executionId: meta.executionId,
+            timestamp: meta.timestamp ?? timestamp,
+            pointer,
+            tags: [...new Set(meta.tags || [])],
+            customProperties: { ...meta.customProperties }
+        };
+    }
+
+    /**
+     * Builds the lineage edge recording that a resource was produced by its execution
+     * @param meta The stored resource
+     * @param contentHash The SHA-256 hash of the content
+     * @param timestamp The store timestamp, unless the resource has its own
+     * @returns The output edge
+     */
+    private toOutputEdge(meta: StoreContentMeta, contentHash: string, timestamp: string): Omit<LineageEdge, 'direction'> {
+        return {
+            executionId: meta.executionId,
+            typeId: meta.typeId,
+            resourceId: meta.id,
+            roleId: meta.roleId,
+            contentHash,
+            timestamp: meta.timestamp ?? timestamp
+        };
+    }
+
+    /**
+     * Builds the result of a successful store operation
+     * @param contentHash The SHA-256 hash of the content
+     * @param contentSize The size of the content in bytes
+     * @param placement Where the resource's content ended up
+     * @returns CAFS operation result
+     */
+    private toResult(contentHash: string, contentSize: number, placement: Placement): CAFSOperationResult {
+        return {
+            success: true,
+            contentHash,
+            deduplicated: placement.existingResourceId !== undefined,
+            existingResourceId: placement.existingResourceId,
+            contentSize,
+            storagePath: placement.contentPath
+        };
+    }
+
+    /**
+     * Counts the successes and failures of batch results
+     * @param results Per-item results in input order
+     * @returns The batch result
+     */
+    private summarize<T extends { success: boolean }>(results: T[]): CAFSBatchResult<T> {
+        const succeeded = results.filter(result => result.success).length;
+        return { results, succeeded, failed: results.length - succeeded };
+    }
+
+    /**
+     * Builds the result of a failed store operation
+     * @param error The error that occurred
+     * @returns CAFS operation result
+     */
+    private failure(error: unknown): CAFSOperationResult {
+        const cause = wrapError(error, 'Failed to store content', { operation: 'storeMany' });
+        return {
+            success: false,
+            contentHash: '',
+            deduplicated: false,
+            storagePath: '',
+            error: cause.message,
+            cause
+        };
+    }
+
+    /**
+     * Replaces the name of a ref with the hash of the content it points at
+     * @param folder The folder (type) of the ref
+     * @param address The address
+     * @returns The content hash for ref names, and the address itself otherwise
+     * @throws NotFoundError if the ref does not exist
+     */
+    private async dereference(folder: string, address: string): Promise<string> {
+        if (!folder || parseAddress(address) || !isRefName(address)) {
+            return address;
+        }
+        const ref = await this.metadataStore.getRef(folder, address);
+        if (!ref) {
+            throw new NotFoundError(`Ref ${folder}/${address} not found`, { operation: 'resolveAddress' });
+        }
+        return ref.contentHash;
+    }
+
+    private checkRefName(name: string): void {
+        if (!isRefName(name)) {
+            throw new GCSUtilsError(
+                `Invalid ref name ${name}: use 1-128 letters, digits, dots, dashes or underscores, and not a content hash`,
+                { operation: 'updateRef' }
+            );
+        }
+    }
+
+    /**
+     * Resolves an address and checks that its content exists
+     * @param folder The folder (type) of the content, or '' to look a bare hash up across types
+     * @param address The content hash or a `{typeId}/{hash}` storage path
+     * @returns The storage path, type and hash of the content, and the metadata of its blob
+     */
+    private async locateContent(
+        folder: string,
+        address: string
+    ): Promise<{ storagePath: string; typeId: string; contentHash: string; blob: BlobMetadata }> {
+        const storagePath = await this.resolveAddress(folder, address);
+        const { typeId = folder, contentHash } = parseAddress(storagePath) as CAFSAddress;
+
+        // Check if content exists
+        let blob: BlobMetadata;
+        try {
+            blob = await this.gcsUtils.getFileMetadata(storagePath);
+        } catch (error) {
+            if (!(error instanceof NotFoundError)) throw error;
+            throw new NotFoundError(`Content with hash ${contentHash} not found`, {
+                operation: 'locateContent',
+                path: storagePath
+            });
+        }
+
+        return { storagePath, typeId, contentHash, blob };
+    }
+
+    /**
+     * Determines where a resource's content is uploaded to directly: its address, or with
+     * deduplication disabled its own copy if the address is taken by another resource
+     * @param meta The resource the content belongs to
+     * @param contentHash The SHA-256 hash of the content
+     * @param operation The operation, reported on failure
+     * @returns The storage path, and whether content still has to be uploaded to it
+     * @throws GCSUtilsError if encryption is configured or the hash is invalid
+     */
+    private async locateUpload(
+        meta: StoreContentMeta,
+        contentHash: string,
+        operation: string
+    ): Promise<{ storagePath: string; uploadRequired: boolean }> {
+        if (this.cipher) {
+            throw new GCSUtilsError('Direct uploads would bypass encryption and are not supported with it configured', {
+                operation
+            });
+        }
+        if (!isContentHash(contentHash)) {
+            throw new GCSUtilsError(`Invalid content hash ${contentHash}`, { operation });
+        }
+
+        const storagePath = this.getStoragePath(meta.typeId, contentHash);
+        const existing = await this.gcsUtils.fileExists(storagePath);
+        if (!existing.fileExists) {
+            return { storagePath, uploadRequired: true };
+        }
+        // Unclaimed uploads are verified and claimed by whichever resource finalizes first
+        if (!existing.id || existing.id === meta.id || this.config.enableDeduplication) {
+            return { storagePath, uploadRequired: false };
+        }
+
+        const copyPath = this.getStoragePath(meta.typeId, contentHash, meta.id);
+        const copy = await this.gcsUtils.fileExists(copyPath);
+        return { storagePath: copyPath, uploadRequired: !copy.fileExists };
+    }
+
+    /**
+     * Verifies directly uploaded content against its hash, deleting it on mismatch
+     * @param blob The metadata of the uploaded blob
+     * @param contentHash The SHA-256 hash the content must match
+     * @returns The size of the content in bytes
+     * @throws IntegrityError if the content does not match its hash
+     */
+    private async verifyUpload(blob: BlobMetadata, contentHash: string): Promise<number> {
+        const hasher = new HashingStream(contentHash, blob.path);
+        pipeline(this.gcsUtils.createReadStream(blob.path), hasher, () => undefined);
         try {
-            const metadataPath = `${folder}/metadata/${contentHash}.json`;
-            const metadataContent = await this.gcsUtils.readRawContent(metadataPath);
-            return JSON.parse(metadataContent) as CAFSEntry;
+            await finished(hasher.resume());
         } catch (error) {
-            return null;
+            if (error instanceof IntegrityError) {
+                // Best effort: a newer generation is left to the resource that wrote it
+                await this.gcsUtils.deleteFile(blob.path, { ifGenerationMatch: blob.generation }).catch(() => undefined);
+            }
+            throw error;
         }
+        return hasher.bytes;
     }
 
     /**
-     * Deletes CAFS metadata
-     * @param contentHash The content hash
+     * Computes when a signed URL expires
+     * @param options The expiry of the URL
+     * @returns The expiry time
+     * @throws GCSUtilsError if the expiry is not within 7 days
      */
-    private async deleteCAFSMetadata(folder: string = 'cafs', contentHash: string): Promise<void> {
-        const metadataPath = `${folder}/metadata/${contentHash}.json`;
-        await this.gcsUtils.deleteFile(metadataPath);
+    private expiryOf(options: SignedUrlOptions): Date {
+        const expiresInMs = options.expiresInMs ?? DEFAULT_SIGNED_URL_EXPIRY_MS;
+        if (!(expiresInMs > 0 && expiresInMs <= MAX_SIGNED_URL_EXPIRY_MS)) {
+            throw new GCSUtilsError(`Signed URLs must expire within 7 days, not in ${expiresInMs}ms`, {
+                operation: 'signUrl'
+            });
+        }
+        return new Date(Date.now() + expiresInMs);
     }
 
     /**
-     * Updates reference count for a CAFS entry
-     * @param contentHash The content hash
-     * @param delta The change in reference count
+     * Reads content from the cache by the storage path its address resolves to, recording the
+     * access like a read from storage would
+     * @param folder The folder (type) of the content, or '' to look a bare hash up across types
+     * @param address The content hash or a `{typeId}/{hash}` storage path
+     * @param options The read options
+     * @returns The content, or undefined if no cache is configured or the content is not cached
      */
-    private async updateReferenceCount(folder: string = 'cafs', contentHash: string, delta: number): Promise<void> {
-        const entry = await this.getCAFSMetadata(folder, contentHash);
-        if (entry) {
-            entry.metadata.referenceCount = Math.max(0, entry.metadata.referenceCount + delta);
-            await this.storeCAFSMetadata(folder, entry, entry.metadata.timestamp);
+    private async readCache(folder: string, address: string, options: ReadOptions): Promise<Buffer | undefined> {
+        if (!this.contentCache || !parseAddress(address)) {
+            return undefined;
+        }
+        const storagePath = await this.resolveAddress(folder, address);
+        const content = await this.contentCache.get(storagePath);
+        if (content && (options.updateAccessTime ?? true)) {
+            const { typeId = folder, contentHash } = parseAddress(storagePath) as CAFSAddress;
+            await this.updateLastAccessTime(typeId, contentHash);
         }
+        return content;
     }
 
     /**
-     * Updates last access time for a CAFS entry
+     * Writes (possibly compressed) content, encrypting it first if encryption is configured
+     * @param data The content as stored, before encryption
+     * @param rawMeta Metadata stored with the content, including its path
+     * @param contentType The MIME type of the uncompressed content
+     * @param preconditions Preconditions any existing blob must meet
+     * @param encoding Encoding the content is compressed with, if compressed
+     */
+    private async writeContent(
+        data: Buffer,
+        rawMeta: RawContentMeta,
+        contentType: string,
+        preconditions: BlobPreconditions,
+        encoding?: CompressionEncoding
+    ): Promise<void> {
+        const blobMeta = this.withEncoding(rawMeta, encoding);
+        const content = this.cipher ? await this.cipher.encrypt(data) : data;
+        const blobContentType = this.blobContentType(blobMeta, contentType);
+        await this.gcsUtils.writeRawContent(content, blobMeta, blobContentType, preconditions);
+    }
+
+    /**
+     * Gets the MIME type of a blob: that of its content, unless the content is stored encrypted or compressed
+     * @param rawMeta Metadata stored with the content
+     * @param contentType The MIME type of the content
+     * @returns The MIME type of the blob
+     */
+    private blobContentType(rawMeta: RawContentMeta, contentType: string): string {
+        if (rawMeta.encryption) return 'application/octet-stream';
+        if (rawMeta.encoding) return `application/${rawMeta.encoding}`;
+        return contentType;
+    }
+
+    /**
+     * Decodes stored content: decrypts it if it is encrypted, then decompresses it if it is compressed
+     * @param stored The stored content
+     * @param blob Metadata of the blob holding the content
+     * @returns The content
+     * @throws CorruptContentError if the content cannot be decoded
+     */
+    private async decodeContent(stored: Buffer, blob: BlobMetadata): Promise<Buffer> {
+        const { encoding } = blob.metadata;
+        const decrypted = this.isEncrypted(blob)
+            ? await this.requireCipher(blob.path).decrypt(stored, blob.path)
+            : stored;
+        return encoding ? await decompress(decrypted, encoding, blob.path) : decrypted;
+    }
+
+    /**
+     * Creates the streams decoding stored content
+     * @param blob Metadata of the blob holding the content
+     * @returns The decrypting and decompressing streams, in order (none for plain content)
+     */
+    private decodeStreams(blob: BlobMetadata): Transform[] {
+        const stages: Transform[] = [];
+        if (this.isEncrypted(blob)) {
+            stages.push(this.requireCipher(blob.path).createDecryptStream(blob.path));
+        }
+        if (blob.metadata.encoding) {
+            stages.push(createDecompressStream(blob.metadata.encoding, blob.path));
+        }
+        return stages;
+    }
+
+    /**
+     * Gets the encoding to compress content with
+     * @param options The store options
+     * @returns The encoding, or undefined to store the content uncompressed
+     */
+    private encodingOf(options: StoreOptions): CompressionEncoding | undefined {
+        const encoding = options.compression ?? this.config.compression;
+        return encoding === 'none' ? undefined : encoding;
+    }
+
+    /**
+     * Gets the cipher of encrypted content
+     * @param storagePath Storage path of the encrypted content
+     * @returns The cipher
+     * @throws GCSUtilsError if encryption is not configured
+     */
+    private requireCipher(storagePath: string): EnvelopeCipher {
+        if (!this.cipher) {
+            throw new GCSUtilsError(`Content at ${storagePath} is encrypted, but no key provider is configured`, {
+                operation: 'decrypt',
+                path: storagePath
+            });
+        }
+        return this.cipher;
+    }
+
+    /**
+     * Checks whether a blob holds encrypted content
+     * @param blob The blob metadata
+     * @returns Whether the content is encrypted
+     */
+    private isEncrypted(blob: BlobMetadata): boolean {
+        return blob.metadata.encryption === ENCRYPTION_ALGORITHM;
+    }
+
+    /**
+     * Hashes stored content the way it is addressed, decoding it first
+     * @param blob The blob holding the content
+     * @returns The content hash
+     */
+    private async hashStoredContent(blob: BlobMetadata): Promise<string> {
+        const content = await this.decodeContent(await this.gcsUtils.readRawBuffer(blob.path), blob);
+        return this.generateContentHash(content);
+    }
+
+    /**
+     * Generates the hash content is addressed by: its SHA-256 hash, or its HMAC-SHA256
+     * if an address key is configured
+     * @param content The content to hash
+     * @returns The hash as hex string
+     */
+    private generateContentHash(content: string | Buffer): string {
+        const addressKey = this.config.encryption?.addressKey;
+        const hash = addressKey ? createHmac('sha256', addressKey) : createHash('sha256');
+        return hash.update(content).digest('hex');
+    }
+
+    /**
+     * Gets the storage path for a content hash (see address.ts for the scheme)
+     * @param contentHash The SHA-256 hash
+     * @param copyId Resource ID of a per-resource copy (deduplication disabled)
+     * @returns The GCS storage path
+     */
+    private getStoragePath(folder: string, contentHash: string, copyId?: string): string {
+        return formatStoragePath(folder, contentHash, copyId);
+    }
+
+    /**
+     * Retrieves CAFS metadata from the metadata store
      * @param contentHash The content hash
+     * @returns CAFS entry or null if not found
+     * @throws GCSUtilsError if the entry could not be read, e.g. for lack of permission
      */
-    private async updateLastAccessTime(folder: string = 'cafs', contentHash: string): Promise<void> {
-        const entry = await this.getCAFSMetadata(folder, contentHash);
-        if (entry) {
-            entry.metadata.lastAccessedAt = new Date();
-            await this.storeCAFSMetadata(folder, entry, entry.metadata.timestamp);
+    private async getCAFSMetadata(folder: string = 'cafs', contentHash: string): Promise<CAFSEntry | null> {
+        try {
+            return await this.metadataStore.getCAFSEntry(folder, contentHash);
+        } catch (error) {
+            const wrapped = wrapError(error, `Failed to get CAFS entry for hash ${contentHash}`, {
+                operation: 'getCAFSEntry'
+            });
+            // Only a missing entry means there is none; other failures must not pass for one
+            if (wrapped instanceof NotFoundError) {
+                return null;
+            }
+            throw wrapped;
         }
     }
 
     /**
-     * Extracts hash from storage path
-     * @param path The storage path
-     * @returns The hash or null
+     * Deletes CAFS metadata from the metadata store
+     * @param contentHash The content hash
+     */
+    private async deleteCAFSMetadata(folder: string = 'cafs', contentHash: string): Promise<void> {
+        await this.metadataStore.deleteCAFSEntry(folder, contentHash);
+    }
+
+    /**
+     * Updates last access time for a CAFS entry
+     * @param contentHash The content hash
      */
-    private extractHashFromPath(path: string): string | null {
-        const match = path.match(/cafs\/[a-f0-9]{2}\/([a-f0-9]{64})/);
-        return match ? match[1] : null;
+    private async updateLastAccessTime(folder: string = 'cafs', contentHash: string): Promise<void> {
+        await this.metadataStore.touchCAFSEntry(folder, contentHash, new Date());
     }
 }
@@ -0,0 +1,121 @@
+import { createHash } from 'crypto';
+import { Readable, Writable } from 'stream';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { GCSUtilsCli } from './cli.js';
+import { MemoryBlobStore } from './stores/memory-blob-store.js';
+import { MemoryMetadataStore } from './stores/memory-metadata-store.js';
+
+function sha256(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Collects everything written to it
+ */
+class Sink extends Writable {
+    text = '';
+
+    _write(chunk: Buffer, _encoding: BufferEncoding, callback: () => void): void {
+        this.text += chunk.toString();
+        callback();
+    }
+}
+
+describe('GCSUtilsCli', () => {
+    let blobStore: MemoryBlobStore;
+    let metadataStore: MemoryMetadataStore;
+    let stdout: Sink;
+    let stderr: Sink;
+
+    function cli(stdin: string = ''): GCSUtilsCli {
+        stdout = new Sink();
+        stderr = new Sink();
+        return new GCSUtilsCli({ stdin: Readable.from([Buffer.from(stdin)]), stdout, stderr, backends: { blobStore, metadataStore } });
+    }
+
+    beforeEach(() => {
+        blobStore = new MemoryBlobStore();
+        metadataStore = new MemoryMetadataStore();
+    });
+
+    it('puts content from stdin and gets it back', async () => {
+        expect(await cli('from stdin').run(['put', 'doc', '--id', 'r1', '--tag', 'cli'])).toBe(0);
+        expect(stdout.text).toBe(`Stored doc/${sha256('from stdin')} (10 bytes)\n`);
+
+        expect(await cli().run(['get', 'doc', sha256('from stdin')])).toBe(0);
+        expect(stdout.text).toBe('from stdin');
+        expect(await metadataStore.getMember('doc', 'r1')).toMatchObject({ roleId: 'cli', tags: ['cli'] });
+    });
+
+    it('reports whether content exists through its exit code', async () => {
+        await cli('here').run(['put', 'doc']);
+
+        expect(await cli().run(['exists', 'doc', sha256('here')])).toBe(0);
+        expect(await cli().run(['exists', 'doc', sha256('missing')])).toBe(1);
+        expect(stdout.text).toBe(`${sha256('missing')} does not exist\n`);
+    });
+
+    it('lists, describes and verifies content as JSON', async () => {
+        await cli('one').run(['put', 'doc', '--id', 'r1']);
+        await cli('three').run(['put', 'doc', '--id', 'r2']);
+
+        expect(await cli().run(['ls', 'doc', '--order-by', 'contentSize', '--desc', '--json'])).toBe(0);
+        expect(JSON.parse(stdout.text).map((entry: { contentHash: string }) => entry.contentHash))
+            .toEqual([sha256('three'), sha256('one')]);
+
+        expect(await cli().run(['stat', 'doc', sha256('one'), '--json'])).toBe(0);
+        expect(JSON.parse(stdout.text)).toMatchObject({ storagePath: `doc/${sha256('one')}`, blob: { metadata: { id: 'r1' } } });
+
+        expect(await cli().run(['verify', 'doc', '--json'])).toBe(0);
+        expect(JSON.parse(stdout.text)).toMatchObject({ checked: 2, failed: 0 });
+    });
+
+    it('lists the content of resources with a tag', async () => {
+        await cli('one').run(['put', 'doc', '--id', 'r1', '--tag', 'keep']);
+        await cli('two').run(['put', 'doc', '--id', 'r2']);
+
+        expect(await cli().run(['ls', 'doc', '--tag', 'keep', '--json'])).toBe(0);
+        expect(JSON.parse(stdout.text).map((entry: { contentHash: string }) => entry.contentHash)).toEqual([sha256('one')]);
+        expect(await cli().run(['ls', 'doc', '--tag', 'keep', '--tag', 'other'])).toBe(2);
+        expect(stderr.text).toContain('ls takes a single --tag');
+    });
+
+    it('fails verification of corrupt content', async () => {
+        await cli('original').run(['put', 'doc']);
+        const storagePath = `doc/${sha256('original')}`;
+        await blobStore.write(storagePath, 'tampered', { metadata: (await blobStore.getMetadata(storagePath)).metadata });
+
+        expect(await cli().run(['verify', 'doc'])).toBe(1);
+        expect(stdout.text).toContain('FAILED');
+        expect(stdout.text).toContain('1 checked, 1 failed');
+    });
+
+    it('removes references and force-deletes content', async () => {
+        await cli('gone').run(['put', 'doc', '--id', 'r1']);
+
+        expect(await cli().run(['rm', 'doc', sha256('gone'), '--id', 'r1'])).toBe(0);
+        expect(await blobStore.list()).toEqual([]);
+        expect(await cli().run(['rm', 'doc', sha256('gone'), '--force'])).toBe(1);
+        expect(stderr.text).toMatch(/^NotFoundError: /);
+    });
+
+    it('reports garbage without deleting it unless applied', async () => {
+        await blobStore.write(`doc/${sha256('orphan')}`, 'orphan');
+
+        expect(await cli().run(['gc', 'doc', '--grace-period-ms', '0'])).toBe(0);
+        expect(stdout.text).toContain('orphan-blob');
+        expect(await blobStore.list()).toHaveLength(1);
+
+        expect(await cli().run(['gc', 'doc', '--grace-period-ms', '0', '--apply'])).toBe(0);
+        expect(await blobStore.list()).toEqual([]);
+    });
+
+    it('exits with 2 on usage errors', async () => {
+        expect(await cli().run([])).toBe(2);
+        expect(await cli().run(['frobnicate'])).toBe(2);
+        expect(stderr.text).toContain('Unknown command frobnicate');
+        expect(await cli().run(['rm', 'doc', sha256('x')])).toBe(2);
+        expect(await cli().run(['ls', 'doc', '--limit', '-1'])).toBe(2);
+        expect(await cli().run(['--help'])).toBe(0);
+    });
+});
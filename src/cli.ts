@@ -0,0 +1,542 @@
+import { randomUUID } from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import { rm } from 'fs/promises';
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { parseArgs } from 'util';
+import { CAFS } from './cafs.js';
+import { GCSUtils } from './gcs-utils.js';
+import { LocalKeyFileProvider } from './local-key-provider.js';
+import { parseAddress } from './address.js';
+import { loadConfig } from './config.js';
+import { GCSUtilsError, NotFoundError, wrapError } from './errors.js';
+import { GCSBlobStore, createStorageClient } from './stores/gcs-blob-store.js';
+import { FirestoreMetadataStore } from './stores/firestore-metadata-store.js';
+import {
+    BlobMetadata,
+    CAFSEntry,
+    CAFSEntryOrderField,
+    CompressionEncoding,
+    GCReport,
+    StorageBackends
+} from './types/index.js';
+
+const USAGE = `Usage: gcs-utils <command> [options]
+
+Commands:
+  put <type> [file]         Store a file (or stdin) as a resource of a type
+      --id <id> --role <role> --execution <id> --tag <tag>... --content-type <type> --compression <gzip|zstd|none>
+  get <type> <address>      Write content to stdout, or to a file with --output <path>
+      --no-verify           Skip hash verification
+      --touch               Update the last access time (reads leave it alone by default)
+  exists <type> <hash>      Check whether content exists (exit code 1 if it does not)
+  stat <type> <address>     Show the CAFS entry and blob metadata of content (alias: entry)
+  ls <type>                 List CAFS entries
+      --role <role> --execution <id> --tag <tag> --min-size <bytes> --max-size <bytes>
+      --order-by <timestamp|lastAccessedAt|contentSize|contentHash> --desc --limit <n> (default: 100)
+  rm <type> <hash>          Remove a resource's reference (--id <id>), or the content regardless of references (--force)
+  verify <type> [address]   Verify content against its hash; without an address, all content of the type
+  gc <type>                 Report garbage; nothing is deleted without --apply
+      --verify-hashes --delete-corrupt --grace-period-ms <ms>
+  export <archive> <execution>...
+                            Export the resources of executions to a directory, or a tar file with --format tar
+      --format <directory|tar> (default: tar for .tar paths) --no-inputs (leave out consumed resources)
+  import <archive>          Import an exported directory or tar file (exit code 1 if a resource fails)
+
+Options:
+  --bucket <name>           Bucket (default: BUCKET_NAME)
+  --collection <name>       Firestore metadata collection (default: resources)
+  --config <path>           JSON config file (default: GCS_UTILS_CONFIG)
+  --key-file <path>         Key file of encrypted content
+  --json                    Print results as JSON
+  -h, --help                Show this help
+
+Addresses are content hashes, {type}/{hash} storage paths or ref names. Exit codes:
+0 success, 1 failure (or content missing or corrupt), 2 usage error.`;
+
+const OPTIONS = {
+    'bucket': { type: 'string' },
+    'collection': { type: 'string' },
+    'config': { type: 'string' },
+    'key-file': { type: 'string' },
+    'json': { type: 'boolean' },
+    'help': { type: 'boolean', short: 'h' },
+    'output': { type: 'string', short: 'o' },
+    'id': { type: 'string' },
+    'role': { type: 'string' },
+    'execution': { type: 'string' },
+    'tag': { type: 'string', multiple: true },
+    'content-type': { type: 'string' },
+    'compression': { type: 'string' },
+    'no-verify': { type: 'boolean' },
+    'touch': { type: 'boolean' },
+    'min-size': { type: 'string' },
+    'max-size': { type: 'string' },
+    'order-by': { type: 'string' },
+    'desc': { type: 'boolean' },
+    'limit': { type: 'string' },
+    'force': { type: 'boolean' },
+    'apply': { type: 'boolean' },
+    'verify-hashes': { type: 'boolean' },
+    'delete-corrupt': { type: 'boolean' },
+    'grace-period-ms': { type: 'string' },
+    'format': { type: 'string' },
+    'no-inputs': { type: 'boolean' }
+} as const;
+
+type CliValues = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+const ORDER_FIELDS: CAFSEntryOrderField[] = ['timestamp', 'lastAccessedAt', 'contentSize', 'contentHash'];
+
+/**
+ * Streams and backends the command-line tool works with
+ */
+export interface CliOptions {
+    /** Input of `put` without a file (default: process.stdin) */
+    stdin?: Readable;
+    /** Output of results and of `get` without a file (default: process.stdout) */
+    stdout?: Writable;
+    /** Output of errors (default: process.stderr) */
+    stderr?: Writable;
+    /** Storage backends (default: the bucket in GCS and the collection in Firestore) */
+    backends?: StorageBackends;
+}
+
+/**
+ * Thrown when the command line is malformed
+ */
+class UsageError extends Error {}
+
+/**
+ * The `gcs-utils` command-line tool for inspecting and managing a CAFS bucket
+ */
+export class GCSUtilsCli {
+    private stdin: Readable;
+    private stdout: Writable;
+    private stderr: Writable;
+    private backends: StorageBackends;
+    private json = false;
+
+    /**
+     * @param options Optional streams and backends
+     */
+    constructor(options: CliOptions = {}) {
+        this.stdin = options.stdin || process.stdin;
+        this.stdout = options.stdout || process.stdout;
+        this.stderr = options.stderr || process.stderr;
+        this.backends = options.backends || {};
+    }
+
+    /**
+     * Runs a command
+     * @param args The command-line arguments, without the node and script paths
+     * @returns The exit code: 0 on success, 1 on failure, 2 on usage errors
+     */
+    async run(args: string[]): Promise<number> {
+        try {
+            const { values, positionals } = parseArgs({ args, options: OPTIONS, allowPositionals: true });
+            this.json = values.json ?? false;
+            const [command, ...operands] = positionals;
+            if (values.help || !command) {
+                this.write(USAGE);
+                return command || values.help ? 0 : 2;
+            }
+            return await this.dispatch(command, operands, values);
+        } catch (error) {
+            return this.fail(error);
+        }
+    }
+
+    private async dispatch(command: string, operands: string[], values: CliValues): Promise<number> {
+        switch (command) {
+            case 'put':
+                return await this.put(operands, values);
+            case 'get':
+                return await this.get(operands, values);
+            case 'exists':
+                return await this.exists(operands, values);
+            case 'stat':
+            case 'entry':
+                return await this.stat(operands, values);
+            case 'ls':
+                return await this.list(operands, values);
+            case 'rm':
+                return await this.remove(operands, values);
+            case 'verify':
+                return await this.verify(operands, values);
+            case 'gc':
+                return await this.collectGarbage(operands, values);
+            case 'export':
+                return await this.exportSnapshot(operands, values);
+            case 'import':
+                return await this.importSnapshot(operands, values);
+            default:
+                throw new UsageError(`Unknown command ${command}`);
+        }
+    }
+
+    private async put(operands: string[], values: CliValues): Promise<number> {
+        const [typeId, file] = this.operands(operands, 1, 2, 'put <type> [file]');
+        const compression = values.compression;
+        if (compression !== undefined && !['gzip', 'zstd', 'none'].includes(compression)) {
+            throw new UsageError(`Unknown compression ${compression}`);
+        }
+
+        const { cafs } = this.connect(values);
+        const result = await cafs.storeStream(
+            {
+                id: values.id || randomUUID(),
+                typeId,
+                roleId: values.role || 'cli',
+                executionId: values.execution || 'cli',
+                tags: values.tag
+            },
+            file && file !== '-' ? createReadStream(file) : this.stdin,
+            { contentType: values['content-type'], compression: compression as CompressionEncoding | 'none' }
+        );
+
+        this.print(result, [
+            `${result.deduplicated ? 'Deduplicated' : 'Stored'} ${result.storagePath} (${result.contentSize} bytes)`
+        ]);
+        return 0;
+    }
+
+    private async get(operands: string[], values: CliValues): Promise<number> {
+        const [typeId, address] = this.operands(operands, 2, 2, 'get <type> <address>');
+        const { cafs } = this.connect(values);
+        const content = await cafs.retrieveStream(typeId, address, {
+            updateAccessTime: values.touch ?? false,
+            validateHash: !values['no-verify']
+        });
+
+        if (!values.output) {
+            await pipeline(content, this.stdout, { end: false });
+            return 0;
+        }
+        try {
+            await pipeline(content, createWriteStream(values.output));
+        } catch (error) {
+            // Do not leave partial or unverified content behind
+            await rm(values.output, { force: true });
+            throw error;
+        }
+        this.print({ address, output: values.output }, [`Wrote ${address} to ${values.output}`]);
+        return 0;
+    }
+
+    private async exists(operands: string[], values: CliValues): Promise<number> {
+        const [typeId, address] = this.operands(operands, 2, 2, 'exists <type> <hash>');
+        const { cafs } = this.connect(values);
+        const exists = await cafs.contentExists(typeId, address);
+        this.print({ address, exists }, [exists ? `${address} exists` : `${address} does not exist`]);
+        return exists ? 0 : 1;
+    }
+
+    private async stat(operands: string[], values: CliValues): Promise<number> {
+        const [typeId, address] = this.operands(operands, 2, 2, 'stat <type> <address>');
+        const { cafs, gcsUtils } = this.connect(values);
+        const storagePath = await cafs.resolveAddress(typeId, address);
+        const { typeId: folder = typeId, contentHash } = parseAddress(storagePath) as { typeId?: string; contentHash: string };
+
+        const entry = await cafs.getCAFSEntry(folder, contentHash);
+        let blob: BlobMetadata | null = null;
+        try {
+            blob = await gcsUtils.getFileMetadata(storagePath);
+        } catch (error) {
+            if (!(error instanceof NotFoundError)) throw error;
+        }
+        if (!entry && !blob) {
+            throw new NotFoundError(`Content with hash ${contentHash} not found`, { operation: 'stat', path: storagePath });
+        }
+
+        this.print({ storagePath, entry, blob }, [
+            `Path:         ${storagePath}`,
+            ...(entry ? this.describeEntry(entry) : ['Entry:        (none)']),
+            ...(blob
+                ? [
+                    `Stored size:  ${blob.size}`,
+                    `Blob type:    ${blob.contentType}`,
+                    `Updated:      ${blob.updated}`,
+                    `Generation:   ${blob.generation}`,
+                    ...Object.entries(blob.metadata).map(([key, value]) => `  ${key}: ${value}`)
+                ]
+                : ['Blob:         (missing)'])
+        ]);
+        return 0;
+    }
+
+    private async list(operands: string[], values: CliValues): Promise<number> {
+        const [typeId] = this.operands(operands, 1, 1, 'ls <type>');
+        const orderBy = values['order-by'] as CAFSEntryOrderField | undefined;
+        if (orderBy !== undefined && !ORDER_FIELDS.includes(orderBy)) {
+            throw new UsageError(`Cannot order by ${orderBy}`);
+        }
+        const limit = this.number(values.limit, 'limit') ?? 100;
+        if ((values.tag?.length ?? 0) > 1) {
+            throw new UsageError('ls takes a single --tag');
+        }
+
+        const { cafs } = this.connect(values);
+        const entries: CAFSEntry[] = [];
+        if (limit > 0) {
+            for await (const entry of cafs.iterateCAFSEntries({
+                typeId,
+                roleId: values.role,
+                executionId: values.execution,
+                tag: values.tag?.[0],
+                minSize: this.number(values['min-size'], 'min-size'),
+                maxSize: this.number(values['max-size'], 'max-size'),
+                orderBy,
+                direction: values.desc ? 'desc' : 'asc',
+                pageSize: Math.min(limit, 100)
+            })) {
+                entries.push(entry);
+                if (entries.length >= limit) break;
+            }
+        }
+
+        this.print(entries, entries.map(entry => [
+            entry.contentHash,
+            String(entry.metadata.contentSize).padStart(10),
+            `refs=${entry.referencedBy.length}`,
+            `accessed=${formatDate(entry.metadata.lastAccessedAt)}`
+        ].join('  ')));
+        return 0;
+    }
+
+    private async remove(operands: string[], values: CliValues): Promise<number> {
+        const [typeId, contentHash] = this.operands(operands, 2, 2, 'rm <type> <hash>');
+        if (!values.id && !values.force) {
+            throw new UsageError('rm needs the --id of the resource whose reference is removed, or --force');
+        }
+        const { cafs } = this.connect(values);
+        await cafs.deleteContent(typeId, contentHash, { resourceId: values.id, forceDelete: values.force });
+        this.print({ contentHash, resourceId: values.id, forced: values.force ?? false }, [
+            values.force ? `Deleted ${typeId}/${contentHash}` : `Removed reference of ${values.id} to ${typeId}/${contentHash}`
+        ]);
+        return 0;
+    }
+
+    private async verify(operands: string[], values: CliValues): Promise<number> {
+        const [typeId, address] = this.operands(operands, 1, 2, 'verify <type> [address]');
+        const { cafs } = this.connect(values);
+        const addresses: string[] = [];
+        if (address) {
+            addresses.push(address);
+        } else {
+            for await (const entry of cafs.iterateCAFSEntries({ typeId })) {
+                addresses.push(entry.contentHash);
+            }
+        }
+
+        const results: { address: string; valid: boolean; bytes?: number; error?: string }[] = [];
+        for (const item of addresses) {
+            try {
+                let bytes = 0;
+                await pipeline(
+                    await cafs.retrieveStream(typeId, item, { updateAccessTime: false }),
+                    new Writable({
+                        write(chunk: Buffer, _encoding, callback): void {
+                            bytes += chunk.length;
+                            callback();
+                        }
+                    })
+                );
+                results.push({ address: item, valid: true, bytes });
+            } catch (error) {
+                const cause = wrapError(error, 'Failed to verify content', { operation: 'verify' });
+                results.push({ address: item, valid: false, error: `${cause.name}: ${cause.message}` });
+            }
+        }
+
+        const failed = results.filter(result => !result.valid).length;
+        this.print({ checked: results.length, failed, results }, [
+            ...results.map(result => result.valid
+                ? `ok       ${result.address} (${result.bytes} bytes)`
+                : `FAILED   ${result.address}: ${result.error}`),
+            `${results.length} checked, ${failed} failed`
+        ]);
+        return failed > 0 ? 1 : 0;
+    }
+
+    private async collectGarbage(operands: string[], values: CliValues): Promise<number> {
+        const [typeId] = this.operands(operands, 1, 1, 'gc <type>');
+        const { cafs } = this.connect(values);
+        const report = await cafs.collectGarbage(typeId, {
+            dryRun: !values.apply,
+            verifyHashes: values['verify-hashes'],
+            deleteCorrupt: values['delete-corrupt'],
+            gracePeriodMs: this.number(values['grace-period-ms'], 'grace-period-ms')
+        });
+        this.print(report, describeReport(report));
+        return 0;
+    }
+
+    private async exportSnapshot(operands: string[], values: CliValues): Promise<number> {
+        const [target, ...executionIds] = this.operands(operands, 2, Infinity, 'export <archive> <execution>...');
+        const format = values.format;
+        if (format !== undefined && format !== 'directory' && format !== 'tar') {
+            throw new UsageError(`Unknown archive format ${format}`);
+        }
+        const { cafs } = this.connect(values);
+        const manifest = await cafs.exportSnapshot(executionIds, target, { includeInputs: !values['no-inputs'], format });
+        const contentCount = new Set(manifest.resources.map(resource => resource.contentHash)).size;
+        this.print(manifest, [
+            `Exported ${manifest.resources.length} resources (${contentCount} distinct contents) of ` +
+                `${executionIds.length} executions to ${target}`
+        ]);
+        return 0;
+    }
+
+    private async importSnapshot(operands: string[], values: CliValues): Promise<number> {
+        const [source] = this.operands(operands, 1, 1, 'import <archive>');
+        const { cafs } = this.connect(values);
+        const report = await cafs.importSnapshot(source);
+        const results = report.results.map((result, index) => ({
+            typeId: report.manifest.resources[index].typeId,
+            resourceId: report.manifest.resources[index].id,
+            success: result.success,
+            contentHash: result.contentHash,
+            deduplicated: result.deduplicated,
+            error: result.error
+        }));
+        this.print({ succeeded: report.succeeded, failed: report.failed, results }, [
+            ...results.map(result => result.success
+                ? `${result.deduplicated ? 'dedup   ' : 'stored  '} ${result.typeId}/${result.resourceId}`
+                : `FAILED   ${result.typeId}/${result.resourceId}: ${result.error}`),
+            `${report.succeeded} imported, ${report.failed} failed`
+        ]);
+        return report.failed > 0 ? 1 : 0;
+    }
+
+    /**
+     * Creates the CAFS instance and file utilities of the configured bucket
+     * @param values The parsed options
+     * @returns The CAFS instance and file utilities, sharing their backends
+     * @throws UsageError if no bucket is configured for the default backends
+     * @throws ConfigError if the configuration is invalid
+     */
+    private connect(values: CliValues): { cafs: CAFS; gcsUtils: GCSUtils } {
+        const keyFile = values['key-file'];
+        const config = loadConfig({
+            bucketName: values.bucket,
+            metadataCollection: values.collection,
+            ...(keyFile && { encryption: { keyProvider: new LocalKeyFileProvider(keyFile) } })
+        }, { configFile: values.config });
+        if (!config.bucketName && !this.backends.blobStore) {
+            throw new UsageError('No bucket: pass --bucket, set BUCKET_NAME or set bucketName in the config file');
+        }
+        const backends: StorageBackends = {
+            blobStore: this.backends.blobStore || new GCSBlobStore(config.bucketName, createStorageClient(config.cloud)),
+            metadataStore: this.backends.metadataStore ||
+                new FirestoreMetadataStore(config.metadataCollection, undefined, config.cloud)
+        };
+
+        return {
+            cafs: new CAFS(config, backends),
+            gcsUtils: new GCSUtils(config, backends, config.retry)
+        };
+    }
+
+    /**
+     * Checks the number of operands of a command
+     * @param operands The operands
+     * @param min The number of required operands
+     * @param max The number of allowed operands
+     * @param usage Usage of the command, reported on failure
+     * @returns The operands
+     */
+    private operands(operands: string[], min: number, max: number, usage: string): string[] {
+        if (operands.length < min || operands.length > max) {
+            throw new UsageError(`Usage: gcs-utils ${usage}`);
+        }
+        return operands;
+    }
+
+    /**
+     * Parses a numeric option
+     * @param value The option value
+     * @param name The option name, reported on failure
+     * @returns The number, or undefined if the option is not given
+     */
+    private number(value: string | undefined, name: string): number | undefined {
+        if (value === undefined) return undefined;
+        const parsed = Number(value);
+        if (!Number.isInteger(parsed) || parsed < 0) {
+            throw new UsageError(`--${name} must be a non-negative integer`);
+        }
+        return parsed;
+    }
+
+    private describeEntry(entry: CAFSEntry): string[] {
+        const { metadata } = entry;
+        return [
+            `Hash:         ${entry.contentHash}`,
+            `Size:         ${metadata.contentSize}`,
+            `Type:         ${metadata.contentType}`,
+            `Created:      ${formatDate(metadata.timestamp)}`,
+            `Accessed:     ${formatDate(metadata.lastAccessedAt)}`,
+            `References:   ${entry.referencedBy.join(', ') || '(none)'}`,
+            ...(metadata.tags.length > 0 ? [`Tags:         ${metadata.tags.join(', ')}`] : [])
+        ];
+    }
+
+    /**
+     * Prints a result, as JSON with --json and as lines of text otherwise
+     * @param value The result
+     * @param lines The result as text
+     */
+    private print(value: unknown, lines: string[]): void {
+        this.write(this.json ? JSON.stringify(value, null, 2) : lines.join('\n'));
+    }
+
+    private write(text: string): void {
+        if (text) this.stdout.write(`${text}\n`);
+    }
+
+    /**
+     * Reports an error
+     * @param error The error
+     * @returns The exit code: 2 for usage errors, 1 otherwise
+     */
+    private fail(error: unknown): number {
+        if (error instanceof UsageError || isParseArgsError(error)) {
+            this.stderr.write(`${(error as Error).message}\n\nRun gcs-utils --help for usage.\n`);
+            return 2;
+        }
+
+        const cause = wrapError(error, 'Command failed', { operation: 'cli' });
+        this.stderr.write(this.json
+            ? `${JSON.stringify({ error: describeError(cause) }, null, 2)}\n`
+            : `${cause.name}: ${cause.message}${cause.path ? ` (${cause.path})` : ''}\n`);
+        return 1;
+    }
+}
+
+function describeReport(report: GCReport): string[] {
+    return [
+        `${report.dryRun ? 'Dry run of' : 'Collected'} ${report.typeId}: scanned ${report.scannedBlobs} blobs, ` +
+            `${report.scannedMembers} members, ${report.scannedEntries} entries`,
+        ...report.findings.map(finding => [
+            finding.kind.padEnd(16),
+            finding.action === 'deleted' ? 'deleted ' : finding.withinGracePeriod ? 'recent  ' : '        ',
+            finding.detail
+        ].join(' ')),
+        `${report.findings.length} findings, ${report.reclaimedBytes} bytes reclaimed`
+    ];
+}
+
+function describeError(error: GCSUtilsError): Record<string, unknown> {
+    return { name: error.name, message: error.message, operation: error.operation, path: error.path };
+}
+
+function isParseArgsError(error: unknown): boolean {
+    const code = (error as { code?: unknown })?.code;
+    return typeof code === 'string' && code.startsWith('ERR_PARSE_ARGS_');
+}
+
+function formatDate(value: unknown): string {
+    if (value instanceof Date) return value.toISOString();
+    const toDate = (value as { toDate?: () => Date })?.toDate;
+    return typeof toDate === 'function' ? toDate.call(value).toISOString() : String(value);
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { CodecRegistry, jsonCodec } from './codecs.js';
+import { ValidationError } from './errors.js';
+import { ResourceType } from './types/index.js';
+
+describe('CodecRegistry', () => {
+    it('encodes and decodes values of the built-in resource types', () => {
+        const registry = new CodecRegistry();
+        registry.register('int', 'integer');
+        registry.register('str', 'string');
+        registry.register('obj', 'object');
+        registry.register('arr', 'array');
+
+        expect(registry.encode('int', 7)).toBe('{"semanticIdentity":7}');
+        expect(registry.decode('int', Buffer.from('{"semanticIdentity":7}'))).toBe(7);
+        expect(registry.decode('str', Buffer.from(registry.encode('str', 'text')))).toBe('text');
+        expect(registry.decode('obj', Buffer.from(registry.encode('obj', { a: 1 })))).toEqual({ a: 1 });
+        expect(registry.decode('arr', Buffer.from(registry.encode('arr', [1, 2])))).toEqual([1, 2]);
+    });
+
+    it('rejects values and content that do not satisfy the codec', () => {
+        const registry = new CodecRegistry();
+        registry.register('int', 'integer');
+        registry.register('arr', 'array');
+
+        expect(() => registry.encode('int', 1.5)).toThrow(ValidationError);
+        expect(() => registry.decode('arr', Buffer.from('{"a":1}'))).toThrow(ValidationError);
+        expect(() => registry.decode('arr', Buffer.from('not json'))).toThrow(ValidationError);
+    });
+
+    it('rejects types without a codec', () => {
+        expect(() => new CodecRegistry().encode('unknown', 1)).toThrow(ValidationError);
+    });
+
+    it('rejects unknown built-in resource type names', () => {
+        const registry = new CodecRegistry();
+
+        expect(() => registry.register('t', 'float' as ResourceType)).toThrow(ValidationError);
+        expect(() => registry.register('t', 'toString' as ResourceType)).toThrow(ValidationError);
+        expect(() => registry.encode('t', 1)).toThrow('no codec is registered');
+    });
+
+    it('rejects values and codecs that do not encode to content', () => {
+        const registry = new CodecRegistry();
+        registry.register('json', jsonCodec());
+        registry.register('broken', { encode: (): string => undefined as unknown as string, decode: (): unknown => null });
+
+        expect(() => registry.encode('json', undefined)).toThrow(ValidationError);
+        expect(() => registry.encode('broken', 1)).toThrow(ValidationError);
+    });
+
+    it('uses custom codecs and reports why their validator rejected a value', () => {
+        const registry = new CodecRegistry();
+        registry.register('positive', jsonCodec((value: unknown): value is number => {
+            if (typeof value !== 'number' || value <= 0) throw new Error('must be positive');
+            return true;
+        }));
+
+        expect(registry.encode('positive', 3)).toBe('3');
+        expect(() => registry.encode('positive', -3)).toThrow('must be positive');
+    });
+});
@@ -0,0 +1,153 @@
+import { IntegerInstance, ResourceCodec, ResourceType } from './types/index.js';
+import { ValidationError } from './errors.js';
+
+/**
+ * Creates a codec storing values as JSON
+ * @param validate Optional guard decoded and stored values must satisfy
+ * @returns The codec
+ */
+export function jsonCodec<T>(validate?: (value: unknown) => value is T): ResourceCodec<T> {
+    return {
+        encode: (value: T): string => {
+            const json: string | undefined = JSON.stringify(value);
+            // Undefined, functions and symbols have no JSON representation
+            if (json === undefined) {
+                throw new TypeError(`${typeof value} values cannot be stored as JSON`);
+            }
+            return json;
+        },
+        decode: (content: Buffer): T => JSON.parse(content.toString('utf8')) as T,
+        validate
+    };
+}
+
+/**
+ * Integers, stored as an IntegerInstance (`{ "semanticIdentity": n }`)
+ */
+export const integerCodec: ResourceCodec<number> = {
+    encode: (value: number): string => JSON.stringify({ semanticIdentity: value } as IntegerInstance),
+    decode: (content: Buffer): number => {
+        const instance = JSON.parse(content.toString('utf8')) as IntegerInstance;
+        return instance.semanticIdentity;
+    },
+    validate: (value: unknown): value is number => Number.isInteger(value)
+};
+
+/**
+ * Strings, stored as UTF-8 text
+ */
+export const stringCodec: ResourceCodec<string> = {
+    encode: (value: string): string => value,
+    decode: (content: Buffer): string => content.toString('utf8'),
+    validate: (value: unknown): value is string => typeof value === 'string'
+};
+
+/**
+ * Plain JSON objects
+ */
+export const objectCodec: ResourceCodec<Record<string, unknown>> = jsonCodec(
+    (value: unknown): value is Record<string, unknown> =>
+        typeof value === 'object' && value !== null && !Array.isArray(value)
+);
+
+/**
+ * JSON arrays
+ */
+export const arrayCodec: ResourceCodec<unknown[]> = jsonCodec(
+    (value: unknown): value is unknown[] => Array.isArray(value)
+);
+
+/** Built-in codecs for each resource type */
+const BUILTIN_CODECS: Record<ResourceType, ResourceCodec<unknown>> = {
+    integer: integerCodec as ResourceCodec<unknown>,
+    string: stringCodec as ResourceCodec<unknown>,
+    object: objectCodec as ResourceCodec<unknown>,
+    array: arrayCodec as ResourceCodec<unknown>
+};
+
+/**
+ * Registry of the codecs used for each typeId
+ */
+export class CodecRegistry {
+    private codecs = new Map<string, ResourceCodec<unknown>>();
+
+    /**
+     * Registers the codec for a typeId
+     * @param typeId The type
+     * @param codec A codec, or the name of a built-in resource type
+     * @throws ValidationError if the name is not that of a built-in resource type
+     */
+    register<T>(typeId: string, codec: ResourceCodec<T> | ResourceType): void {
+        if (typeof codec === 'string' && !Object.prototype.hasOwnProperty.call(BUILTIN_CODECS, codec)) {
+            throw new ValidationError(typeId, `unknown resource type '${codec}'`, { operation: 'register' });
+        }
+        this.codecs.set(typeId, typeof codec === 'string'
+            ? BUILTIN_CODECS[codec]
+            : codec as ResourceCodec<unknown>);
+    }
+
+    /**
+     * Encodes a value of a type, validating it first
+     * @param typeId The type
+     * @param value The value
+     * @returns The encoded content
+     * @throws ValidationError if the value is malformed or no codec is registered
+     */
+    encode<T>(typeId: string, value: T): string | Buffer {
+        const codec = this.get(typeId);
+        this.validate(typeId, codec, value, 'encode');
+        let content: string | Buffer;
+        try {
+            content = codec.encode(value);
+        } catch (error) {
+            throw new ValidationError(typeId, `could not encode value: ${error}`, { operation: 'encode', cause: error });
+        }
+        if (typeof content !== 'string' && !Buffer.isBuffer(content)) {
+            throw new ValidationError(typeId, `codec encoded the value as ${typeof content}, not a string or Buffer`, {
+                operation: 'encode'
+            });
+        }
+        return content;
+    }
+
+    /**
+     * Decodes stored content of a type, validating the result
+     * @param typeId The type
+     * @param content The stored content
+     * @returns The decoded value
+     * @throws ValidationError if the content is malformed or no codec is registered
+     */
+    decode<T>(typeId: string, content: Buffer): T {
+        const codec = this.get(typeId);
+        let value: unknown;
+        try {
+            value = codec.decode(content);
+        } catch (error) {
+            throw new ValidationError(typeId, `could not decode content: ${error}`, { operation: 'decode', cause: error });
+        }
+        this.validate(typeId, codec, value, 'decode');
+        return value as T;
+    }
+
+    private get(typeId: string): ResourceCodec<unknown> {
+        const codec = this.codecs.get(typeId);
+        if (!codec) {
+            throw new ValidationError(typeId, 'no codec is registered for this type');
+        }
+        return codec;
+    }
+
+    private validate(typeId: string, codec: ResourceCodec<unknown>, value: unknown, operation: string): void {
+        if (!codec.validate) return;
+
+        let valid: boolean;
+        try {
+            valid = codec.validate(value);
+        } catch (error) {
+            throw new ValidationError(typeId, error instanceof Error ? error.message : String(error), { operation, cause: error });
+        }
+        if (!valid) {
+            throw new ValidationError(typeId, 'value does not satisfy the registered validator', { operation });
+        }
+    }
+}
@@ -0,0 +1,43 @@
+import { Readable } from 'stream';
+import { text } from 'stream/consumers';
+import { describe, expect, it } from 'vitest';
+import { CAFS } from './cafs.js';
+import { compress, decompress, isCompressionSupported } from './compression.js';
+import { CorruptContentError } from './errors.js';
+import { MemoryBlobStore } from './stores/memory-blob-store.js';
+import { MemoryMetadataStore } from './stores/memory-metadata-store.js';
+
+describe('compression', () => {
+    it('round-trips gzip content and rejects corrupt content', async () => {
+        const data = Buffer.from('a'.repeat(1000));
+        const compressed = await compress(data, 'gzip');
+
+        expect(compressed.length).toBeLessThan(data.length);
+        expect((await decompress(compressed, 'gzip')).equals(data)).toBe(true);
+        await expect(decompress(Buffer.from('not gzip'), 'gzip')).rejects.toBeInstanceOf(CorruptContentError);
+        expect(isCompressionSupported('brotli')).toBe(false);
+    });
+
+    it('stores CAFS content compressed, addressed and sized by the uncompressed content', async () => {
+        const blobStore = new MemoryBlobStore();
+        const cafs = new CAFS(
+            { bucketName: 'test-bucket', compression: 'gzip' },
+            { blobStore, metadataStore: new MemoryMetadataStore() }
+        );
+        const meta = { id: 'r1', typeId: 'doc', roleId: 'output', executionId: 'exec-1' };
+        const content = 'compressible '.repeat(100);
+
+        const result = await cafs.storeContent(meta, content);
+        const blob = await blobStore.getMetadata(result.storagePath);
+        expect(result.contentSize).toBe(content.length);
+        expect(blob).toMatchObject({ contentType: 'application/gzip', metadata: { encoding: 'gzip' } });
+        expect(blob.size).toBeLessThan(content.length);
+        expect(await cafs.retrieveContent('doc', result.contentHash)).toBe(content);
+        expect(await text(await cafs.retrieveStream('doc', result.contentHash))).toBe(content);
+
+        const plain = await cafs.storeStream({ ...meta, id: 'r2' }, Readable.from([Buffer.from('plain')]), {
+            compression: 'none'
+        });
+        expect((await blobStore.getMetadata(plain.storagePath)).metadata.encoding).toBeUndefined();
+    });
+});
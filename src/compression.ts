@@ -0,0 +1,125 @@
+import * as zlib from 'zlib';
+import { Transform } from 'stream';
+import { promisify } from 'util';
+import { CorruptContentError, GCSUtilsError, wrapError } from './errors.js';
+import { CompressionEncoding } from './types/index.js';
+
+type BufferCodec = (data: Buffer) => Promise<Buffer>;
+
+/**
+ * Compression functions of an encoding
+ */
+interface Codec {
+    compress: BufferCodec;
+    decompress: BufferCodec;
+    createCompressStream: () => Transform;
+    createDecompressStream: () => Transform;
+}
+
+/** zstd functions of zlib, present from Node.js 22.15 */
+interface ZstdZlib {
+    zstdCompress?: (data: Buffer, callback: (error: Error | null, result: Buffer) => void) => void;
+    zstdDecompress?: (data: Buffer, callback: (error: Error | null, result: Buffer) => void) => void;
+    createZstdCompress?: () => Transform;
+    createZstdDecompress?: () => Transform;
+}
+
+const zstd = zlib as unknown as ZstdZlib;
+
+const CODECS: Record<CompressionEncoding, () => Codec | undefined> = {
+    gzip: () => ({
+        compress: promisify(zlib.gzip),
+        decompress: promisify(zlib.gunzip),
+        createCompressStream: () => zlib.createGzip(),
+        createDecompressStream: () => zlib.createGunzip()
+    }),
+    zstd: () => zstd.zstdCompress && zstd.zstdDecompress && zstd.createZstdCompress && zstd.createZstdDecompress
+        ? {
+            compress: promisify(zstd.zstdCompress),
+            decompress: promisify(zstd.zstdDecompress),
+            createCompressStream: zstd.createZstdCompress,
+            createDecompressStream: zstd.createZstdDecompress
+        }
+        : undefined
+};
+
+/**
+ * Checks whether an encoding is supported by this Node.js runtime
+ * @param encoding The encoding
+ * @returns Whether content can be compressed with it
+ */
+export function isCompressionSupported(encoding: string): encoding is CompressionEncoding {
+    return Object.prototype.hasOwnProperty.call(CODECS, encoding) &&
+        CODECS[encoding as CompressionEncoding]() !== undefined;
+}
+
+/**
+ * Compresses content
+ * @param data The content
+ * @param encoding The encoding to compress with
+ * @returns The compressed content
+ */
+export async function compress(data: Buffer, encoding: CompressionEncoding): Promise<Buffer> {
+    try {
+        return await codecOf(encoding).compress(data);
+    } catch (error) {
+        throw wrapError(error, `Failed to compress content with ${encoding}`, { operation: 'compress' });
+    }
+}
+
+/**
+ * Decompresses content
+ * @param data The compressed content
+ * @param encoding The encoding it is compressed with
+ * @param path Optional storage path, reported on failure
+ * @returns The content
+ * @throws CorruptContentError if the content is not valid for its encoding
+ */
+export async function decompress(data: Buffer, encoding: string, path?: string): Promise<Buffer> {
+    const codec = codecOf(encoding, path);
+    try {
+        return await codec.decompress(data);
+    } catch (error) {
+        throw new CorruptContentError(`Failed to decompress ${encoding} content: ${(error as Error).message}`, {
+            operation: 'decompress',
+            path,
+            cause: error
+        });
+    }
+}
+
+/**
+ * Creates a stream compressing the content flowing through it
+ * @param encoding The encoding to compress with
+ * @returns The compressing stream
+ */
+export function createCompressStream(encoding: CompressionEncoding): Transform {
+    return codecOf(encoding).createCompressStream();
+}
+
+/**
+ * Creates a stream decompressing the content flowing through it
+ * @param encoding The encoding the content is compressed with
+ * @param path Optional storage path, reported on failure
+ * @returns The decompressing stream
+ */
+export function createDecompressStream(encoding: string, path?: string): Transform {
+    return codecOf(encoding, path).createDecompressStream();
+}
+
+/**
+ * Gets the codec of an encoding
+ * @param encoding The encoding
+ * @param path Optional storage path, reported on failure
+ * @returns The codec
+ * @throws GCSUtilsError if the encoding is unknown or not supported by this runtime
+ */
+function codecOf(encoding: string, path?: string): Codec {
+    if (!isCompressionSupported(encoding)) {
+        throw new GCSUtilsError(`Compression encoding ${encoding} is not supported by this Node.js runtime`, {
+            operation: 'compress',
+            path
+        });
+    }
+    return CODECS[encoding]() as Codec;
+}
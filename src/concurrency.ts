@@ -0,0 +1,57 @@
+import { ConflictError } from './errors.js';
+
+/**
+ * Maps items through an async function with at most `limit` calls in flight.
+ * Results keep the order of the input items.
+ * @param items The items to map
+ * @param limit Maximum number of concurrent calls
+ * @param fn The async function to apply
+ * @returns The results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+
+    const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+    await Promise.all(workers);
+    return results;
+}
+
+/** Default number of attempts of an operation that may conflict with concurrent writers */
+export const DEFAULT_CONFLICT_ATTEMPTS = 5;
+
+/**
+ * Runs an optimistic read-check-write operation, re-running it from the start when it
+ * fails with a ConflictError. Attempts are spaced by a short, jittered, growing delay.
+ * @param fn The operation; it must re-read whatever state it depends on
+ * @param attempts Maximum number of attempts
+ * @returns The result of the first attempt that does not conflict
+ * @throws ConflictError if every attempt conflicts
+ */
+export async function retryOnConflict<T>(
+    fn: () => Promise<T>,
+    attempts: number = DEFAULT_CONFLICT_ATTEMPTS
+): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await fn();
+        } catch (error) {
+            if (!(error instanceof ConflictError) || attempt >= attempts) {
+                throw error;
+            }
+            const delayMs = 10 * 2 ** attempt * (0.5 + Math.random());
+            await new Promise(resolve => setTimeout(resolve, delayMs));
+        }
+    }
+}
@@ -0,0 +1,81 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { loadConfig, requireBucketName } from './config.js';
+import { ConfigError } from './errors.js';
+
+describe('loadConfig', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(path.join(tmpdir(), 'gcs-utils-config-'));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('fills in defaults', () => {
+        expect(loadConfig({}, { env: {} })).toMatchObject({
+            bucketName: '',
+            metadataCollection: 'resources',
+            enableDeduplication: true,
+            maxFileSize: 10 * 1024 * 1024,
+            defaultContentType: 'application/json'
+        });
+    });
+
+    it('prefers options over environment variables over the config file', async () => {
+        const configFile = path.join(dir, 'config.json');
+        await writeFile(configFile, JSON.stringify({
+            bucketName: 'file-bucket',
+            maxFileSize: 100,
+            retry: { maxAttempts: 2, timeoutMs: 50 },
+            cache: { directory: 'cache' }
+        }));
+
+        const config = loadConfig({ maxFileSize: 300 }, {
+            env: { BUCKET_NAME: 'env-bucket', GCS_UTILS_MAX_FILE_SIZE: '200', GCS_UTILS_RETRY_MAX_ATTEMPTS: '3' },
+            configFile
+        });
+        expect(config).toMatchObject({ bucketName: 'env-bucket', maxFileSize: 300, retry: { maxAttempts: 3, timeoutMs: 50 } });
+        expect(config.cache?.directory).toBe(path.join(dir, 'cache'));
+    });
+
+    it('reports every invalid setting with where it comes from', () => {
+        let error: unknown;
+        try {
+            loadConfig({ bucketName: 'Bad_Bucket!', maxFileSize: -1 }, { env: { GCS_UTILS_DEDUPLICATION: 'maybe' } });
+        } catch (caught) {
+            error = caught;
+        }
+
+        expect(error).toBeInstanceOf(ConfigError);
+        expect((error as ConfigError).problems).toEqual([
+            'GCS_UTILS_DEDUPLICATION must be true or false, not "maybe"',
+            expect.stringContaining('bucketName (from options) must be a bucket name'),
+            'maxFileSize (from options) must be a positive whole number of bytes'
+        ]);
+    });
+
+    it('ignores invalid environment variables of settings passed as options', () => {
+        const env = { GCS_UTILS_MAX_FILE_SIZE: 'lots', GCS_UTILS_RETRY_MAX_ATTEMPTS: 'many' };
+
+        expect(loadConfig({ maxFileSize: 5, retry: { maxAttempts: 2 } }, { env })).toMatchObject({
+            maxFileSize: 5,
+            retry: { maxAttempts: 2 }
+        });
+        expect(() => loadConfig({ maxFileSize: 5 }, { env })).toThrow('GCS_UTILS_RETRY_MAX_ATTEMPTS must be a whole number');
+    });
+
+    it('reports unknown settings and unreadable config files', () => {
+        expect(() => loadConfig({ bucket: 'x' } as never, { env: {} })).toThrow('bucket (from options) is not a setting');
+        expect(() => loadConfig({}, { env: {}, configFile: path.join(dir, 'missing.json') })).toThrow('cannot be read');
+    });
+
+    it('requires a bucket only where one is needed', () => {
+        expect(requireBucketName('my-bucket')).toBe('my-bucket');
+        expect(() => requireBucketName('')).toThrow(ConfigError);
+    });
+});
@@ -0,0 +1,426 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import path from 'path';
+import { isCompressionSupported } from './compression.js';
+import { ConfigError } from './errors.js';
+import { ConfigSources, GCSUtilsConfig } from './types/index.js';
+
+/** Environment variable naming the JSON config file */
+const CONFIG_FILE_VARIABLE = 'GCS_UTILS_CONFIG';
+
+/** Credentials file used when none is configured, if it exists in the working directory */
+const LOCAL_CREDENTIALS_FILE = 'gcp-key.json';
+
+/** Settings used when neither options, the environment nor the config file set them */
+const DEFAULTS: Partial<GCSUtilsConfig> = {
+    metadataCollection: 'resources',
+    enableDeduplication: true,
+    maxFileSize: 10 * 1024 * 1024, // 10MB
+    defaultContentType: 'application/json'
+};
+
+/** Settings of each section, by section (`''` for top-level settings) */
+const SETTINGS: Record<string, string[]> = {
+    '': [
+        'bucketName', 'metadataCollection', 'enableDeduplication', 'maxFileSize', 'defaultContentType',
+        'compression', 'retry', 'encryption', 'cache', 'cloud'
+    ],
+    retry: ['maxAttempts', 'initialDelayMs', 'maxDelayMs', 'multiplier', 'timeoutMs', 'isRetryable'],
+    encryption: ['keyProvider', 'addressKey'],
+    cache: ['maxMemoryBytes', 'directory', 'maxDiskBytes'],
+    cloud: ['projectId', 'credentialsFile', 'firestoreEmulatorHost', 'storageEmulatorHost']
+};
+
+/** Sections merged one setting at a time, so that each source can set some of their settings */
+const MERGED_SECTIONS = ['retry', 'cache', 'cloud'];
+
+/**
+ * Environment variables of settings, by setting. The first variable set wins.
+ */
+const ENV_VARIABLES: [string, string[], 'string' | 'boolean' | 'integer'][] = [
+    ['bucketName', ['BUCKET_NAME'], 'string'],
+    ['metadataCollection', ['GCS_UTILS_METADATA_COLLECTION'], 'string'],
+    ['enableDeduplication', ['GCS_UTILS_DEDUPLICATION'], 'boolean'],
+    ['maxFileSize', ['GCS_UTILS_MAX_FILE_SIZE'], 'integer'],
+    ['defaultContentType', ['GCS_UTILS_DEFAULT_CONTENT_TYPE'], 'string'],
+    ['compression', ['GCS_UTILS_COMPRESSION'], 'string'],
+    ['retry.maxAttempts', ['GCS_UTILS_RETRY_MAX_ATTEMPTS'], 'integer'],
+    ['retry.timeoutMs', ['GCS_UTILS_RETRY_TIMEOUT_MS'], 'integer'],
+    ['cloud.projectId', ['GOOGLE_CLOUD_PROJECT', 'GCLOUD_PROJECT'], 'string'],
+    ['cloud.credentialsFile', ['GOOGLE_APPLICATION_CREDENTIALS'], 'string'],
+    ['cloud.firestoreEmulatorHost', ['FIRESTORE_EMULATOR_HOST'], 'string'],
+    ['cloud.storageEmulatorHost', ['STORAGE_EMULATOR_HOST'], 'string']
+];
+
+const BUCKET_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]{1,61}[a-z0-9]$/;
+const CONTENT_TYPE_PATTERN = /^[\w.+-]+\/[\w.+-]+(\s*;.*)?$/;
+/** Project IDs, optionally scoped to a domain (`example.com:project`) */
+const PROJECT_ID_PATTERN = /^([a-z0-9.-]+:)?[a-z][a-z0-9-]{4,28}[a-z0-9]$/;
+const HOST_PORT_PATTERN = /^(\[[0-9a-fA-F:.]+\]|[^\s/:[\]]+):(\d{1,5})$/;
+
+/**
+ * Values of settings from one source, with where each one comes from
+ */
+interface Layer {
+    values: Record<string, unknown>;
+    origin: (setting: string) => string;
+}
+
+/**
+ * Loads the SDK configuration. Each setting is taken from the explicit options if set there,
+ * else from its environment variable, else from the JSON config file, else from its default.
+ * Every setting is validated, and all problems are reported together.
+ * @param options Explicit settings; undefined and empty string values are ignored
+ * @param sources Optional environment variables and config file to load settings from
+ * @returns The complete configuration; `bucketName` is empty if no source sets it
+ * @throws ConfigError if a setting is invalid or the config file cannot be loaded
+ */
+export function loadConfig(options: Partial<GCSUtilsConfig> = {}, sources: ConfigSources = {}): GCSUtilsConfig {
+    const env = sources.env ?? process.env;
+    const problems: string[] = [];
+
+    const layers: Layer[] = [{ values: defaults(), origin: () => 'default' }];
+    const configFile = sources.configFile ?? (env[CONFIG_FILE_VARIABLE] || undefined);
+    if (configFile) {
+        const values = readConfigFile(configFile, problems);
+        if (values) {
+            layers.push({ values, origin: () => `config file ${configFile}` });
+        }
+    }
+    layers.push(envLayer(env, problems, options));
+    layers.push({ values: options as Record<string, unknown>, origin: () => 'options' });
+
+    const { values, origins } = merge(layers);
+    if (values.compression === 'none') {
+        delete values.compression;
+    }
+    problems.push(...validate(values, origins));
+    if (problems.length > 0) {
+        throw new ConfigError(problems);
+    }
+    return { bucketName: '', ...values } as GCSUtilsConfig;
+}
+
+/**
+ * Gets the bucket of a configuration, for backends that need one
+ * @param bucketName The configured bucket, if any
+ * @returns The bucket
+ * @throws ConfigError if no bucket is configured
+ */
+export function requireBucketName(bucketName: string | undefined): string {
+    if (!bucketName) {
+        throw new ConfigError([
+            'bucketName is required: pass it, set BUCKET_NAME or set it in the config file'
+        ]);
+    }
+    return bucketName;
+}
+
+/**
+ * Reads a credentials file and checks that it holds usable credentials
+ * @param credentialsFile Path of the file
+ * @returns The type of the credentials
+ * @throws ConfigError if the file cannot be read or is not a service account key or authorized user file
+ */
+export function checkCredentialsFile(credentialsFile: string): 'service_account' | 'authorized_user' {
+    const invalid = (reason: string): ConfigError =>
+        new ConfigError([`credentials file ${credentialsFile} ${reason}`], { path: credentialsFile });
+
+    let content: string;
+    try {
+        content = readFileSync(credentialsFile, 'utf8');
+    } catch (error) {
+        throw invalid(`cannot be read: ${(error as Error).message}`);
+    }
+    let credentials: Record<string, unknown>;
+    try {
+        credentials = JSON.parse(content);
+    } catch {
+        throw invalid('is not valid JSON');
+    }
+
+    const required: Record<string, string[]> = {
+        service_account: ['client_email', 'private_key'],
+        authorized_user: ['client_id', 'client_secret', 'refresh_token']
+    };
+    const type = credentials?.type;
+    if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(required, type)) {
+        throw invalid(`holds ${typeof type === 'string' ? `${type} credentials` : 'no credentials type'}; ` +
+            'only service_account and authorized_user credentials are supported');
+    }
+    const missing = required[type].filter(field => typeof credentials[field] !== 'string' || !credentials[field]);
+    if (missing.length > 0) {
+        throw invalid(`lacks ${missing.join(', ')}`);
+    }
+    return type as 'service_account' | 'authorized_user';
+}
+
+function defaults(): Record<string, unknown> {
+    const localCredentials = path.join(process.cwd(), LOCAL_CREDENTIALS_FILE);
+    return {
+        ...DEFAULTS,
+        ...(existsSync(localCredentials) && { cloud: { credentialsFile: localCredentials } })
+    };
+}
+
+/**
+ * Reads the settings of a JSON config file. Relative paths in it are resolved against its directory.
+ * @param configFile Path of the file
+ * @param problems Problems found, added to
+ * @returns The settings, or undefined if the file cannot be loaded
+ */
+function readConfigFile(configFile: string, problems: string[]): Record<string, unknown> | undefined {
+    let values: Record<string, unknown>;
+    try {
+        values = JSON.parse(readFileSync(configFile, 'utf8'));
+    } catch (error) {
+        problems.push(error instanceof SyntaxError
+            ? `config file ${configFile} is not valid JSON: ${error.message}`
+            : `config file ${configFile} cannot be read: ${(error as Error).message}`);
+        return undefined;
+    }
+    if (!isObject(values)) {
+        problems.push(`config file ${configFile} must hold a JSON object`);
+        return undefined;
+    }
+
+    const directory = path.dirname(path.resolve(configFile));
+    for (const [section, setting] of [['cloud', 'credentialsFile'], ['cache', 'directory']]) {
+        const sectionValues = values[section];
+        if (isObject(sectionValues) && typeof sectionValues[setting] === 'string' && sectionValues[setting]) {
+            values[section] = { ...sectionValues, [setting]: path.resolve(directory, sectionValues[setting] as string) };
+        }
+    }
+    return values;
+}
+
+/**
+ * Reads the settings set by environment variables
+ * @param env The environment variables
+ * @param problems Problems found, added to
+ * @param options The settings passed as options, whose variables are ignored if invalid
+ * @returns The settings
+ */
+function envLayer(env: Record<string, string | undefined>, problems: string[], options: Partial<GCSUtilsConfig>): Layer {
+    const values: Record<string, unknown> = {};
+    const variables = new Map<string, string>();
+
+    for (const [setting, names, kind] of ENV_VARIABLES) {
+        const name = names.find(candidate => env[candidate]);
+        if (!name) continue;
+        const [section, field] = setting.includes('.') ? setting.split('.') : ['', setting];
+        const raw = (env[name] as string).trim();
+        let value: unknown = raw;
+        if (kind === 'boolean') {
+            value = /^(true|1|yes)$/i.test(raw) ? true : /^(false|0|no)$/i.test(raw) ? false : undefined;
+        } else if (kind === 'integer') {
+            value = /^\d+$/.test(raw) ? Number(raw) : undefined;
+        }
+        if (value === undefined) {
+            // A variable of a setting the options set is not used, so it cannot be a problem
+            const option = section
+                ? (options as Record<string, Record<string, unknown> | undefined>)[section]?.[field]
+                : (options as Record<string, unknown>)[field];
+            if (option === undefined) {
+                problems.push(`${name} must be ${kind === 'boolean' ? 'true or false' : 'a whole number'}, not "${raw}"`);
+            }
+            continue;
+        }
+
+        if (section) {
+            values[section] = { ...(values[section] as object), [field]: value };
+        } else {
+            values[field] = value;
+        }
+        variables.set(setting, name);
+    }
+    return { values, origin: setting => `env ${variables.get(setting)}` };
+}
+
+/**
+ * Merges layers of settings, later layers taking precedence
+ * @param layers The layers, lowest precedence first
+ * @returns The settings and where each one comes from
+ */
+function merge(layers: Layer[]): { values: Record<string, unknown>; origins: Record<string, string> } {
+    const values: Record<string, unknown> = {};
+    const origins: Record<string, string> = {};
+
+    for (const layer of layers) {
+        for (const [key, value] of Object.entries(layer.values)) {
+            if (value === undefined || value === '') continue;
+            if (MERGED_SECTIONS.includes(key) && isObject(value)) {
+                const section = isObject(values[key]) ? values[key] as Record<string, unknown> : {};
+                for (const [field, fieldValue] of Object.entries(value)) {
+                    if (fieldValue === undefined || fieldValue === '') continue;
+                    section[field] = fieldValue;
+                    origins[`${key}.${field}`] = layer.origin(`${key}.${field}`);
+                }
+                values[key] = section;
+                origins[key] = layer.origin(key);
+            } else {
+                values[key] = value;
+                origins[key] = layer.origin(key);
+            }
+        }
+    }
+    return { values, origins };
+}
+
+/**
+ * Validates merged settings
+ * @param values The settings
+ * @param origins Where each setting comes from
+ * @returns The problems found
+ */
+function validate(values: Record<string, unknown>, origins: Record<string, string>): string[] {
+    const problems: string[] = [];
+    const check = (setting: string, valid: boolean, requirement: string): void => {
+        if (!valid) {
+            problems.push(`${setting} (from ${origins[setting]}) ${requirement}`);
+        }
+    };
+    const section = (name: string): Record<string, unknown> | undefined => {
+        const value = values[name];
+        if (value === undefined) return undefined;
+        check(name, isObject(value), 'must be an object');
+        return isObject(value) ? value : undefined;
+    };
+
+    for (const [name, settings] of Object.entries(SETTINGS)) {
+        const sectionValues = name ? (isObject(values[name]) ? values[name] as Record<string, unknown> : {}) : values;
+        for (const key of Object.keys(sectionValues)) {
+            const setting = name ? `${name}.${key}` : key;
+            check(setting, settings.includes(key), 'is not a setting');
+        }
+    }
+
+    const { bucketName, metadataCollection, maxFileSize, defaultContentType, compression } = values;
+    if (bucketName !== undefined) {
+        check('bucketName', typeof bucketName === 'string' && BUCKET_NAME_PATTERN.test(bucketName),
+            'must be a bucket name: 3-63 lowercase letters, digits, dashes, underscores or dots, ' +
+            'starting and ending with a letter or digit');
+    }
+    check('metadataCollection', isCollectionPath(metadataCollection),
+        'must be a Firestore collection path: an odd number of non-empty segments separated by /');
+    check('enableDeduplication', typeof values.enableDeduplication === 'boolean', 'must be true or false');
+    check('maxFileSize', isInteger(maxFileSize, 1), 'must be a positive whole number of bytes');
+    check('defaultContentType', typeof defaultContentType === 'string' && CONTENT_TYPE_PATTERN.test(defaultContentType),
+        'must be a MIME type such as application/json');
+    if (compression !== undefined) {
+        if (compression !== 'gzip' && compression !== 'zstd') {
+            check('compression', false, 'must be gzip, zstd or none');
+        } else {
+            check('compression', isCompressionSupported(compression),
+                `${compression} is not supported by this Node.js runtime`);
+        }
+    }
+
+    const retry = section('retry');
+    if (retry) {
+        for (const field of ['initialDelayMs', 'maxDelayMs', 'timeoutMs']) {
+            if (retry[field] !== undefined) {
+                check(`retry.${field}`, isNumber(retry[field], 0), 'must be a number of milliseconds, 0 or more');
+            }
+        }
+        if (retry.maxAttempts !== undefined) {
+            check('retry.maxAttempts', isInteger(retry.maxAttempts, 1), 'must be a whole number, 1 or more');
+        }
+        if (retry.multiplier !== undefined) {
+            check('retry.multiplier', isNumber(retry.multiplier, 1), 'must be a number, 1 or more');
+        }
+        if (retry.isRetryable !== undefined) {
+            check('retry.isRetryable', typeof retry.isRetryable === 'function', 'must be a function');
+        }
+        if (isNumber(retry.initialDelayMs, 0) && isNumber(retry.maxDelayMs, 0)) {
+            check('retry.initialDelayMs', retry.initialDelayMs <= retry.maxDelayMs,
+                `must not exceed retry.maxDelayMs (${retry.maxDelayMs})`);
+        }
+    }
+
+    const encryption = section('encryption');
+    if (encryption) {
+        const keyProvider = encryption.keyProvider as Record<string, unknown> | undefined;
+        check('encryption', isObject(keyProvider) &&
+            typeof keyProvider.wrapKey === 'function' && typeof keyProvider.unwrapKey === 'function',
+        'must have a keyProvider with wrapKey and unwrapKey functions, so it can only be passed as an option');
+        if (encryption.addressKey !== undefined) {
+            check('encryption', Buffer.isBuffer(encryption.addressKey) && encryption.addressKey.length > 0,
+                'must have a non-empty Buffer as addressKey');
+        }
+    }
+
+    const cache = section('cache');
+    if (cache) {
+        for (const field of ['maxMemoryBytes', 'maxDiskBytes']) {
+            if (cache[field] !== undefined) {
+                check(`cache.${field}`, isInteger(cache[field], 0), 'must be a whole number of bytes, 0 or more');
+            }
+        }
+        if (cache.directory !== undefined) {
+            check('cache.directory', typeof cache.directory === 'string', 'must be a directory path');
+        }
+    }
+
+    const cloud = section('cloud');
+    if (cloud) {
+        const { projectId, credentialsFile, firestoreEmulatorHost, storageEmulatorHost } = cloud;
+        if (projectId !== undefined) {
+            check('cloud.projectId', typeof projectId === 'string' && PROJECT_ID_PATTERN.test(projectId),
+                'must be a project ID: 6-30 lowercase letters, digits or dashes, starting with a letter');
+        }
+        if (credentialsFile !== undefined) {
+            check('cloud.credentialsFile', typeof credentialsFile === 'string' && isFile(credentialsFile),
+                `must be an existing file, not ${String(credentialsFile)}`);
+        }
+        if (firestoreEmulatorHost !== undefined) {
+            check('cloud.firestoreEmulatorHost', isHostPort(firestoreEmulatorHost), 'must be host:port, e.g. localhost:8080');
+            check('cloud.firestoreEmulatorHost', projectId !== undefined,
+                'needs a project ID: set cloud.projectId or GOOGLE_CLOUD_PROJECT');
+        }
+        if (storageEmulatorHost !== undefined) {
+            check('cloud.storageEmulatorHost', isHostPort(storageEmulatorHost) || isHttpUrl(storageEmulatorHost),
+                'must be host:port or an http(s) URL, e.g. http://localhost:9023');
+        }
+    }
+    return problems;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !Buffer.isBuffer(value);
+}
+
+function isNumber(value: unknown, min: number): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value >= min;
+}
+
+function isInteger(value: unknown, min: number): value is number {
+    return isNumber(value, min) && Number.isSafeInteger(value);
+}
+
+function isCollectionPath(value: unknown): boolean {
+    if (typeof value !== 'string') return false;
+    const segments = value.split('/');
+    return segments.length % 2 === 1 &&
+        segments.every(segment => segment && segment !== '.' && segment !== '..' && !/^__.*__$/.test(segment));
+}
+
+function isHostPort(value: unknown): boolean {
+    const match = typeof value === 'string' ? HOST_PORT_PATTERN.exec(value) : null;
+    return match !== null && Number(match[2]) > 0 && Number(match[2]) <= 65535;
+}
+
+function isHttpUrl(value: unknown): boolean {
+    try {
+        return typeof value === 'string' && ['http:', 'https:'].includes(new URL(value).protocol);
+    } catch {
+        return false;
+    }
+}
+
+function isFile(filePath: string): boolean {
+    try {
+        return statSync(filePath).isFile();
+    } catch {
+        return false;
+    }
+}
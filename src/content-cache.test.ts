@@ -0,0 +1,147 @@
+import { createHash } from 'crypto';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CAFS } from './cafs.js';
+import { ContentCache } from './content-cache.js';
+import { NotFoundError } from './errors.js';
+import { MemoryBlobStore } from './stores/memory-blob-store.js';
+import { MemoryMetadataStore } from './stores/memory-metadata-store.js';
+
+function sha256(content: Buffer | string): string {
+    return createHash('sha256').update(content).digest('hex');
+}
+
+function at(content: string): string {
+    return `doc/${sha256(content)}`;
+}
+
+describe('ContentCache', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(path.join(tmpdir(), 'gcs-utils-cache-'));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('only caches content that matches the hash in its storage path', async () => {
+        const cache = new ContentCache({}, sha256);
+
+        expect(await cache.put(at('good'), Buffer.from('good'))).toBe(true);
+        expect(await cache.put(at('good'), Buffer.from('bad'))).toBe(false);
+        expect(await cache.put(sha256('good'), Buffer.from('good'))).toBe(false);
+        expect((await cache.get(at('good')))?.toString()).toBe('good');
+        expect(cache.stats()).toMatchObject({ memoryHits: 1, verificationFailures: 2, memoryEntries: 1 });
+    });
+
+    it('serves content only for the storage path it was cached for, until it is deleted', async () => {
+        const cache = new ContentCache({ directory: dir }, sha256);
+        await cache.put(at('kept'), Buffer.from('kept'));
+
+        expect(await cache.get(`other/${sha256('kept')}`)).toBeUndefined();
+        await cache.delete(at('kept'));
+        expect(await cache.get(at('kept'))).toBeUndefined();
+        expect(await new ContentCache({ directory: dir }, sha256).get(at('kept'))).toBeUndefined();
+        expect(cache.stats()).toMatchObject({ memoryEntries: 0, memoryBytes: 0, diskBytes: 0 });
+    });
+
+    it('keeps cached content apart from the buffers of its callers', async () => {
+        const cache = new ContentCache({ directory: dir }, sha256);
+        const stored = Buffer.from('safe');
+        await cache.put(at('safe'), stored);
+        stored.fill(0);
+
+        const retrieved = await cache.get(at('safe'));
+        retrieved?.fill(0);
+        expect((await cache.get(at('safe')))?.toString()).toBe('safe');
+
+        const other = new ContentCache({ directory: dir }, sha256);
+        (await other.get(at('safe')))?.fill(0);
+        expect((await other.get(at('safe')))?.toString()).toBe('safe');
+    });
+
+    it('evicts the least recently used content beyond its memory budget', async () => {
+        const cache = new ContentCache({ maxMemoryBytes: 8 }, sha256);
+        await cache.put(at('aaaa'), Buffer.from('aaaa'));
+        await cache.put(at('bbbb'), Buffer.from('bbbb'));
+        await cache.get(at('aaaa'));
+        await cache.put(at('cccc'), Buffer.from('cccc'));
+
+        expect(await cache.get(at('bbbb'))).toBeUndefined();
+        expect(await cache.get(at('aaaa'))).toBeDefined();
+        expect(cache.stats()).toMatchObject({ evictions: 1, misses: 1, memoryBytes: 8 });
+    });
+
+    it('persists content on disk for other instances, dropping files that fail verification', async () => {
+        await new ContentCache({ directory: dir }, sha256).put(at('disk'), Buffer.from('disk'));
+        await new ContentCache({ directory: dir }, sha256).put(at('private'), Buffer.from('private'), { persist: false });
+
+        const cache = new ContentCache({ directory: dir }, sha256);
+        expect((await cache.get(at('disk')))?.toString()).toBe('disk');
+        expect(await cache.get(at('private'))).toBeUndefined();
+        expect(cache.stats().diskHits).toBe(1);
+
+        // Files are named by the hash of their storage path
+        const corrupt = sha256(at('corrupt'));
+        await mkdir(path.join(dir, corrupt.slice(0, 2)), { recursive: true });
+        await writeFile(path.join(dir, corrupt.slice(0, 2), corrupt), 'tampered');
+        const fresh = new ContentCache({ directory: dir }, sha256);
+        expect(await fresh.get(at('corrupt'))).toBeUndefined();
+        expect(fresh.stats().verificationFailures).toBe(1);
+    });
+
+    it('serves CAFS reads from the cache', async () => {
+        const blobStore = new MemoryBlobStore();
+        const cafs = new CAFS(
+            { bucketName: 'test-bucket', cache: { directory: dir } },
+            { blobStore, metadataStore: new MemoryMetadataStore() }
+        );
+        const { contentHash } = await cafs.storeContent(
+            { id: 'r1', typeId: 'doc', roleId: 'output', executionId: 'exec-1' },
+            'cached'
+        );
+
+        expect(await cafs.retrieveContent('doc', contentHash)).toBe('cached');
+        expect(await cafs.retrieveContent('doc', contentHash)).toBe('cached');
+        expect(cafs.cache?.stats()).toMatchObject({ hits: 1, misses: 1 });
+    });
+
+    it('does not serve CAFS content from the cache once it is deleted or for another folder', async () => {
+        const blobStore = new MemoryBlobStore();
+        const cafs = new CAFS(
+            { bucketName: 'test-bucket', cache: { directory: dir } },
+            { blobStore, metadataStore: new MemoryMetadataStore() }
+        );
+        const { contentHash } = await cafs.storeContent(
+            { id: 'r1', typeId: 'doc', roleId: 'output', executionId: 'exec-1' },
+            'cached'
+        );
+        expect(await cafs.retrieveContent('doc', contentHash)).toBe('cached');
+
+        await expect(cafs.retrieveContent('other', contentHash)).rejects.toBeInstanceOf(NotFoundError);
+        await cafs.deleteContent('doc', contentHash, { resourceId: 'r1' });
+        await expect(cafs.retrieveContent('doc', contentHash)).rejects.toBeInstanceOf(NotFoundError);
+        expect(cafs.cache?.stats()).toMatchObject({ memoryEntries: 0, diskBytes: 0 });
+    });
+
+    it('evicts content removed by garbage collection', async () => {
+        const blobStore = new MemoryBlobStore();
+        const metadataStore = new MemoryMetadataStore();
+        const cafs = new CAFS({ bucketName: 'test-bucket', cache: {} }, { blobStore, metadataStore });
+        const { contentHash } = await cafs.storeContent(
+            { id: 'r1', typeId: 'doc', roleId: 'output', executionId: 'exec-1' },
+            'cached'
+        );
+        expect(await cafs.retrieveContent('doc', contentHash)).toBe('cached');
+
+        // Orphan the content by dropping its metadata behind CAFS's back
+        await metadataStore.deleteCAFSEntry('doc', contentHash);
+        await metadataStore.deleteMember('doc', 'r1');
+        await cafs.collectGarbage('doc', { dryRun: false, gracePeriodMs: 0 });
+        expect(cafs.cache?.stats().memoryEntries).toBe(0);
+    });
+});
@@ -0,0 +1,296 @@
+import { createHash, randomUUID } from 'crypto';
+import { mkdir, readFile, readdir, rename, rm, stat, utimes, writeFile } from 'fs/promises';
+import path from 'path';
+import { isContentHash, parseAddress } from './address.js';
+import { ContentCacheConfig, ContentCacheStats } from './types/index.js';
+
+/** Default memory budget: 64 MiB */
+const DEFAULT_MAX_MEMORY_BYTES = 64 * 1024 * 1024;
+/** Default disk budget: 1 GiB */
+const DEFAULT_MAX_DISK_BYTES = 1024 * 1024 * 1024;
+
+/**
+ * Options for adding content to the cache
+ */
+export interface CachePutOptions {
+    /** Whether the content may be written to the disk cache (default: true) */
+    persist?: boolean;
+}
+
+/**
+ * Read-through cache of content by storage path: an in-memory LRU with a byte budget, backed by
+ * an optional cache directory. Content is only served for the path it was read from, and is
+ * verified against the hash in that path before it is cached and again when it is loaded from
+ * disk. Content at a path never changes, but it goes away: entries must be deleted along with
+ * the content. The disk cache may be shared by processes; each evicts by its own view of the
+ * directory.
+ */
+export class ContentCache {
+    private hashContent: (content: Buffer) => string;
+    private maxMemoryBytes: number;
+    private maxDiskBytes: number;
+    private directory?: string;
+    /** Cached content by storage path in least recently used order */
+    private memory = new Map<string, Buffer>();
+    private memoryBytes = 0;
+    /** Sizes of the files of the disk cache by file key in least recently used order, loaded on first use */
+    private disk?: Promise<Map<string, number>>;
+    private diskBytes = 0;
+    private counters = { memoryHits: 0, diskHits: 0, misses: 0, evictions: 0, verificationFailures: 0 };
+
+    /**
+     * @param config The budgets and the cache directory
+     * @param hashContent Computes the hash content is addressed by
+     */
+    constructor(config: ContentCacheConfig, hashContent: (content: Buffer) => string) {
+        this.hashContent = hashContent;
+        this.maxMemoryBytes = config.maxMemoryBytes ?? DEFAULT_MAX_MEMORY_BYTES;
+        this.maxDiskBytes = config.maxDiskBytes ?? DEFAULT_MAX_DISK_BYTES;
+        this.directory = config.directory && path.resolve(config.directory);
+    }
+
+    /**
+     * Gets cached content, from memory or else from disk
+     * @param storagePath The storage path the content was read from
+     * @returns The content, or undefined if it is not cached
+     */
+    async get(storagePath: string): Promise<Buffer | undefined> {
+        const cached = this.memory.get(storagePath);
+        if (cached) {
+            this.memory.delete(storagePath);
+            this.memory.set(storagePath, cached);
+            this.counters.memoryHits++;
+            // Callers get their own copy, so changing it cannot change what is cached
+            return Buffer.from(cached);
+        }
+
+        const content = await this.readDisk(storagePath);
+        if (content) {
+            this.counters.diskHits++;
+            this.remember(storagePath, content);
+            return Buffer.from(content);
+        }
+
+        this.counters.misses++;
+        return undefined;
+    }
+
+    /**
+     * Adds content to the cache if it matches the hash in its storage path
+     * @param storagePath The storage path the content was read from
+     * @param content The content
+     * @param options Whether the content may be written to disk
+     * @returns Whether the content was cached
+     */
+    async put(storagePath: string, content: Buffer, options: CachePutOptions = {}): Promise<boolean> {
+        // Cache a copy, so the caller changing its buffer later cannot change what is cached
+        const copy = Buffer.from(content);
+        if (!this.matches(storagePath, copy)) {
+            this.counters.verificationFailures++;
+            return false;
+        }
+
+        this.remember(storagePath, copy);
+        if ((options.persist ?? true) && this.directory) {
+            await this.writeDisk(storagePath, copy);
+        }
+        return true;
+    }
+
+    /**
+     * Removes the content of a storage path from the cache, e.g. once the content is deleted
+     * @param storagePath The storage path
+     */
+    async delete(storagePath: string): Promise<void> {
+        const cached = this.memory.get(storagePath);
+        if (cached) {
+            this.memory.delete(storagePath);
+            this.memoryBytes -= cached.length;
+        }
+        if (this.directory) {
+            await this.removeDisk(await this.loadDisk(), this.fileKey(storagePath));
+        }
+    }
+
+    /**
+     * Removes all content from the cache, including the files of the disk cache
+     */
+    async clear(): Promise<void> {
+        this.memory.clear();
+        this.memoryBytes = 0;
+        if (this.directory) {
+            const files = await this.loadDisk();
+            for (const key of [...files.keys()]) {
+                await this.removeDisk(files, key);
+            }
+        }
+    }
+
+    /**
+     * Gets the hit, miss and size statistics of the cache
+     * @returns The statistics
+     */
+    stats(): ContentCacheStats {
+        const { memoryHits, diskHits, misses } = this.counters;
+        const hits = memoryHits + diskHits;
+        return {
+            ...this.counters,
+            hits,
+            hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+            memoryEntries: this.memory.size,
+            memoryBytes: this.memoryBytes,
+            diskBytes: this.diskBytes
+        };
+    }
+
+    /**
+     * Keeps content in memory, evicting the least recently used content beyond the budget
+     * @param storagePath The storage path of the content
+     * @param content The content
+     */
+    private remember(storagePath: string, content: Buffer): void {
+        if (content.length > this.maxMemoryBytes) {
+            return;
+        }
+        const previous = this.memory.get(storagePath);
+        if (previous) {
+            this.memory.delete(storagePath);
+            this.memoryBytes -= previous.length;
+        }
+        this.memory.set(storagePath, content);
+        this.memoryBytes += content.length;
+
+        for (const [cachedPath, cached] of this.memory) {
+            if (this.memoryBytes <= this.maxMemoryBytes) break;
+            this.memory.delete(cachedPath);
+            this.memoryBytes -= cached.length;
+            this.counters.evictions++;
+        }
+    }
+
+    /**
+     * Reads and verifies content from the disk cache; content that fails verification is removed
+     * @param storagePath The storage path of the content
+     * @returns The content, or undefined if it is not cached on disk
+     */
+    private async readDisk(storagePath: string): Promise<Buffer | undefined> {
+        if (!this.directory) return undefined;
+        const files = await this.loadDisk();
+        const key = this.fileKey(storagePath);
+        if (!files.has(key)) return undefined;
+
+        const filePath = this.filePath(key);
+        let content: Buffer;
+        try {
+            content = await readFile(filePath);
+        } catch {
+            // Evicted by another process
+            this.forgetDisk(files, key);
+            return undefined;
+        }
+        if (!this.matches(storagePath, content)) {
+            this.counters.verificationFailures++;
+            await this.removeDisk(files, key);
+            return undefined;
+        }
+
+        const size = files.get(key) as number;
+        files.delete(key);
+        files.set(key, size);
+        const now = new Date();
+        await utimes(filePath, now, now).catch(() => undefined);
+        return content;
+    }
+
+    /**
+     * Writes content to the disk cache (atomically, so readers never see partial files),
+     * evicting the least recently used files beyond the budget
+     * @param storagePath The storage path of the content
+     * @param content The content
+     */
+    private async writeDisk(storagePath: string, content: Buffer): Promise<void> {
+        if (content.length > this.maxDiskBytes) return;
+        const files = await this.loadDisk();
+        const key = this.fileKey(storagePath);
+        if (files.has(key)) return;
+
+        const filePath = this.filePath(key);
+        const tempPath = `${filePath}.${randomUUID()}.tmp`;
+        await mkdir(path.dirname(filePath), { recursive: true });
+        await writeFile(tempPath, content);
+        await rename(tempPath, filePath);
+        files.set(key, content.length);
+        this.diskBytes += content.length;
+
+        for (const cachedKey of [...files.keys()]) {
+            if (this.diskBytes <= this.maxDiskBytes) break;
+            await this.removeDisk(files, cachedKey);
+            this.counters.evictions++;
+        }
+    }
+
+    /**
+     * Lists the files of the disk cache once, oldest first
+     * @returns The sizes of the cached files by file key
+     */
+    private async loadDisk(): Promise<Map<string, number>> {
+        this.disk ??= this.scanDisk().catch(error => {
+            this.disk = undefined;
+            throw error;
+        });
+        return await this.disk;
+    }
+
+    private async scanDisk(): Promise<Map<string, number>> {
+        const directory = this.directory as string;
+        await mkdir(directory, { recursive: true });
+        const found: { key: string; size: number; mtime: number }[] = [];
+        for (const prefix of await readdir(directory)) {
+            const prefixDir = path.join(directory, prefix);
+            if (!(await stat(prefixDir)).isDirectory()) continue;
+            for (const name of await readdir(prefixDir)) {
+                if (!isContentHash(name)) continue;
+                const { size, mtimeMs } = await stat(path.join(prefixDir, name));
+                found.push({ key: name, size, mtime: mtimeMs });
+            }
+        }
+
+        found.sort((a, b) => a.mtime - b.mtime);
+        this.diskBytes = found.reduce((total, file) => total + file.size, 0);
+        return new Map(found.map(file => [file.key, file.size]));
+    }
+
+    private async removeDisk(files: Map<string, number>, key: string): Promise<void> {
+        await rm(this.filePath(key), { force: true });
+        this.forgetDisk(files, key);
+    }
+
+    private forgetDisk(files: Map<string, number>, key: string): void {
+        this.diskBytes -= files.get(key) ?? 0;
+        files.delete(key);
+    }
+
+    /**
+     * Checks content against the hash in its storage path
+     * @param storagePath The storage path of the content
+     * @param content The content
+     * @returns True if the path is a CAFS storage path and the content matches its hash
+     */
+    private matches(storagePath: string, content: Buffer): boolean {
+        const address = parseAddress(storagePath);
+        return !!address?.typeId && this.hashContent(content) === address.contentHash;
+    }
+
+    /**
+     * Names the file of a storage path in the disk cache, so that any path maps to one flat file name
+     * @param storagePath The storage path
+     * @returns The SHA-256 of the path
+     */
+    private fileKey(storagePath: string): string {
+        return createHash('sha256').update(storagePath).digest('hex');
+    }
+
+    private filePath(key: string): string {
+        return path.join(this.directory as string, key.slice(0, 2), key);
+    }
+}
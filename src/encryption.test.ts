@@ -0,0 +1,81 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { text } from 'stream/consumers';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CAFS } from './cafs.js';
+import { EnvelopeCipher } from './encryption.js';
+import { DecryptionError } from './errors.js';
+import { LocalKeyFileProvider } from './local-key-provider.js';
+import { MemoryBlobStore } from './stores/memory-blob-store.js';
+import { MemoryMetadataStore } from './stores/memory-metadata-store.js';
+
+describe('encryption', () => {
+    let dir: string;
+    let keyProvider: LocalKeyFileProvider;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(path.join(tmpdir(), 'gcs-utils-keys-'));
+        const keyFile = path.join(dir, 'keys.json');
+        await LocalKeyFileProvider.createKeyFile(keyFile);
+        keyProvider = new LocalKeyFileProvider(keyFile);
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    describe('EnvelopeCipher', () => {
+        it('encrypts every object with its own data key', async () => {
+            const cipher = new EnvelopeCipher(keyProvider);
+            const first = await cipher.encrypt(Buffer.from('secret'));
+            const second = await cipher.encrypt(Buffer.from('secret'));
+
+            expect(first.includes(Buffer.from('secret'))).toBe(false);
+            expect(first.equals(second)).toBe(false);
+            expect((await cipher.decrypt(first)).toString()).toBe('secret');
+        });
+
+        it('rejects tampered and truncated envelopes', async () => {
+            const cipher = new EnvelopeCipher(keyProvider);
+            const envelope = await cipher.encrypt(Buffer.from('secret'));
+            const tampered = Buffer.from(envelope);
+            tampered[tampered.length - 20] ^= 1;
+
+            await expect(cipher.decrypt(tampered)).rejects.toBeInstanceOf(DecryptionError);
+            await expect(cipher.decrypt(envelope.subarray(0, 10))).rejects.toBeInstanceOf(DecryptionError);
+            await expect(cipher.decrypt(Buffer.from('plaintext'))).rejects.toBeInstanceOf(DecryptionError);
+        });
+
+        it('decrypts streams', async () => {
+            const cipher = new EnvelopeCipher(keyProvider);
+            const envelope = await cipher.encrypt(Buffer.from('streamed secret'));
+
+            const decrypted = Readable.from([envelope.subarray(0, 7), envelope.subarray(7)]).pipe(cipher.createDecryptStream());
+            expect(await text(decrypted)).toBe('streamed secret');
+        });
+    });
+
+    describe('CAFS with encryption', () => {
+        it('stores ciphertext and retrieves plaintext, addressed by HMAC with an address key', async () => {
+            const blobStore = new MemoryBlobStore();
+            const addressKey = Buffer.alloc(32, 7);
+            const cafs = new CAFS(
+                { bucketName: 'test-bucket', encryption: { keyProvider, addressKey } },
+                { blobStore, metadataStore: new MemoryMetadataStore() }
+            );
+            const meta = { id: 'r1', typeId: 'doc', roleId: 'output', executionId: 'exec-1' };
+
+            const { storagePath, contentHash } = await cafs.storeContent(meta, 'top secret');
+            const stored = await blobStore.read(storagePath);
+            expect(stored.includes(Buffer.from('top secret'))).toBe(false);
+            expect((await blobStore.getMetadata(storagePath)).metadata.encryption).toBe('aes-256-gcm');
+            expect(await cafs.retrieveContent('doc', contentHash)).toBe('top secret');
+
+            const streamed = await cafs.storeStream({ ...meta, id: 'r2' }, Readable.from([Buffer.from('top secret')]));
+            expect(streamed).toMatchObject({ contentHash, deduplicated: true });
+            expect(await text(await cafs.retrieveStream('doc', contentHash))).toBe('top secret');
+        });
+    });
+});
@@ -0,0 +1,279 @@
+import { CipherGCM, DecipherGCM, createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { Transform, TransformCallback } from 'stream';
+import { DecryptionError, wrapError } from './errors.js';
+import { KeyProvider, WrappedKey } from './types/index.js';
+
+/** Algorithm content is encrypted with, recorded in the metadata of encrypted blobs */
+export const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
+
+/** Marks the start of an envelope and its format version */
+const MAGIC = Buffer.from('GUE1');
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Header of an envelope: the wrapped data key and the IV its content is encrypted with
+ */
+interface EnvelopeHeader {
+    wrapped: WrappedKey;
+    iv: Buffer;
+    /** Length of the header in bytes */
+    length: number;
+}
+
+/**
+ * Envelope encryption of content with AES-256-GCM. Every object is encrypted with its own
+ * random data key, which is wrapped by the key provider and stored in the object's header:
+ *
+ *     "GUE1" | key ID length (u16) | key ID | wrapped key length (u16) | wrapped key | IV | ciphertext | tag
+ */
+export class EnvelopeCipher {
+    private keyProvider: KeyProvider;
+
+    /**
+     * @param keyProvider Wraps and unwraps the data keys
+     */
+    constructor(keyProvider: KeyProvider) {
+        this.keyProvider = keyProvider;
+    }
+
+    /**
+     * Encrypts content with a new data key
+     * @param plaintext The content
+     * @returns The envelope
+     */
+    async encrypt(plaintext: Buffer): Promise<Buffer> {
+        const { header, cipher } = await this.begin();
+        return Buffer.concat([header, cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+    }
+
+    /**
+     * Decrypts and authenticates an envelope
+     * @param envelope The envelope
+     * @param path Optional storage path, reported on failure
+     * @returns The content
+     * @throws DecryptionError if the envelope is malformed or fails authentication
+     */
+    async decrypt(envelope: Buffer, path?: string): Promise<Buffer> {
+        const header = parseHeader(envelope, path);
+        if (!header || envelope.length < header.length + TAG_LENGTH) {
+            throw new DecryptionError('Encrypted content is truncated', { operation: 'decrypt', path });
+        }
+
+        const decipher = await this.open(header, path);
+        decipher.setAuthTag(envelope.subarray(envelope.length - TAG_LENGTH));
+        try {
+            return Buffer.concat([
+                decipher.update(envelope.subarray(header.length, envelope.length - TAG_LENGTH)),
+                decipher.final()
+            ]);
+        } catch (error) {
+            throw new DecryptionError('Encrypted content failed authentication', {
+                operation: 'decrypt',
+                path,
+                cause: error
+            });
+        }
+    }
+
+    /**
+     * Creates a stream that encrypts the content flowing through it with a new data key
+     * @returns The encrypting stream
+     */
+    async createEncryptStream(): Promise<Transform> {
+        const { header, cipher } = await this.begin();
+        return new EncryptingStream(header, cipher);
+    }
+
+    /**
+     * Creates a stream that decrypts an envelope flowing through it. The content is only
+     * authenticated at the end: the stream then fails with a DecryptionError if it was
+     * tampered with, so consumers must not trust the data until the stream has finished.
+     * @param path Optional storage path, reported on failure
+     * @returns The decrypting stream
+     */
+    createDecryptStream(path?: string): Transform {
+        return new DecryptingStream(header => this.open(header, path), path);
+    }
+
+    /**
+     * Generates a data key and starts encrypting with it
+     * @returns The envelope header and the cipher of the content
+     */
+    private async begin(): Promise<{ header: Buffer; cipher: CipherGCM }> {
+        const dataKey = randomBytes(KEY_LENGTH);
+        const iv = randomBytes(IV_LENGTH);
+        let wrapped: WrappedKey;
+        try {
+            wrapped = await this.keyProvider.wrapKey(dataKey);
+        } catch (error) {
+            throw wrapError(error, 'Failed to wrap data key', { operation: 'encrypt' });
+        }
+
+        const keyId = Buffer.from(wrapped.keyId, 'utf8');
+        const header = Buffer.concat([
+            MAGIC,
+            uint16(keyId.length), keyId,
+            uint16(wrapped.wrappedKey.length), wrapped.wrappedKey,
+            iv
+        ]);
+        return { header, cipher: createCipheriv(ENCRYPTION_ALGORITHM, dataKey, iv) as CipherGCM };
+    }
+
+    /**
+     * Unwraps the data key of an envelope and starts decrypting with it
+     * @param header The envelope header
+     * @param path Optional storage path, reported on failure
+     * @returns The decipher of the content
+     */
+    private async open(header: EnvelopeHeader, path?: string): Promise<DecipherGCM> {
+        let dataKey: Buffer;
+        try {
+            dataKey = await this.keyProvider.unwrapKey(header.wrapped);
+        } catch (error) {
+            throw wrapError(error, `Failed to unwrap data key with key ${header.wrapped.keyId}`, {
+                operation: 'decrypt',
+                path
+            });
+        }
+        return createDecipheriv(ENCRYPTION_ALGORITHM, dataKey, header.iv) as DecipherGCM;
+    }
+}
+
+/**
+ * Stream emitting an envelope header, then the ciphertext, then the authentication tag
+ */
+class EncryptingStream extends Transform {
+    private cipher: CipherGCM;
+
+    constructor(header: Buffer, cipher: CipherGCM) {
+        super();
+        this.cipher = cipher;
+        this.push(header);
+    }
+
+    _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+        callback(null, this.cipher.update(chunk));
+    }
+
+    _flush(callback: TransformCallback): void {
+        this.push(this.cipher.final());
+        callback(null, this.cipher.getAuthTag());
+    }
+}
+
+/**
+ * Stream decrypting an envelope. The last bytes seen are held back, since the
+ * authentication tag is only known to be the tag once the input has ended.
+ */
+class DecryptingStream extends Transform {
+    private open: (header: EnvelopeHeader) => Promise<DecipherGCM>;
+    private path?: string;
+    private decipher?: DecipherGCM;
+    private held = Buffer.alloc(0);
+
+    /**
+     * @param open Unwraps the data key of the envelope and starts decrypting with it
+     * @param path Optional storage path, reported on failure
+     */
+    constructor(open: (header: EnvelopeHeader) => Promise<DecipherGCM>, path?: string) {
+        super();
+        this.open = open;
+        this.path = path;
+    }
+
+    _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+        this.held = Buffer.concat([this.held, chunk]);
+        if (this.decipher) {
+            callback(null, this.decryptHeld());
+            return;
+        }
+
+        let header: EnvelopeHeader | null;
+        try {
+            header = parseHeader(this.held, this.path);
+        } catch (error) {
+            callback(error as Error);
+            return;
+        }
+        if (!header) {
+            callback();
+            return;
+        }
+
+        const { length } = header;
+        this.open(header).then(decipher => {
+            this.decipher = decipher;
+            this.held = this.held.subarray(length);
+            callback(null, this.decryptHeld());
+        }, callback);
+    }
+
+    _flush(callback: TransformCallback): void {
+        if (!this.decipher || this.held.length !== TAG_LENGTH) {
+            callback(new DecryptionError('Encrypted content is truncated', { operation: 'decrypt', path: this.path }));
+            return;
+        }
+        this.decipher.setAuthTag(this.held);
+        try {
+            callback(null, this.decipher.final());
+        } catch (error) {
+            callback(new DecryptionError('Encrypted content failed authentication', {
+                operation: 'decrypt',
+                path: this.path,
+                cause: error
+            }));
+        }
+    }
+
+    /**
+     * Decrypts all held bytes except the last TAG_LENGTH
+     * @returns The decrypted bytes
+     */
+    private decryptHeld(): Buffer {
+        const end = this.held.length - TAG_LENGTH;
+        if (end <= 0) {
+            return Buffer.alloc(0);
+        }
+        const decrypted = (this.decipher as DecipherGCM).update(this.held.subarray(0, end));
+        this.held = this.held.subarray(end);
+        return decrypted;
+    }
+}
+
+/**
+ * Parses the header at the start of an envelope
+ * @param buffer The start of the envelope
+ * @param path Optional storage path, reported on failure
+ * @returns The header, or null if the buffer does not hold all of it yet
+ * @throws DecryptionError if the buffer does not start with an envelope header
+ */
+function parseHeader(buffer: Buffer, path?: string): EnvelopeHeader | null {
+    if (!buffer.subarray(0, MAGIC.length).equals(MAGIC.subarray(0, Math.min(buffer.length, MAGIC.length)))) {
+        throw new DecryptionError('Content is not an encrypted envelope', { operation: 'decrypt', path });
+    }
+
+    let offset = MAGIC.length;
+    const fields: Buffer[] = [];
+    for (let i = 0; i < 2; i++) {
+        if (buffer.length < offset + 2) return null;
+        const length = buffer.readUInt16BE(offset);
+        if (buffer.length < offset + 2 + length) return null;
+        fields.push(buffer.subarray(offset + 2, offset + 2 + length));
+        offset += 2 + length;
+    }
+    if (buffer.length < offset + IV_LENGTH) return null;
+
+    return {
+        wrapped: { keyId: fields[0].toString('utf8'), wrappedKey: Buffer.from(fields[1]) },
+        iv: Buffer.from(buffer.subarray(offset, offset + IV_LENGTH)),
+        length: offset + IV_LENGTH
+    };
+}
+
+function uint16(value: number): Buffer {
+    const buffer = Buffer.alloc(2);
+    buffer.writeUInt16BE(value);
+    return buffer;
+}
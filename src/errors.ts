@@ -0,0 +1,175 @@
+/**
+ * Error types thrown by the GCS Utils SDK
+ */
+
+/**
+ * Context attached to SDK errors
+ */
+export interface ErrorContext {
+    /** Operation that failed */
+    operation?: string;
+    /** Storage path involved */
+    path?: string;
+    /** Underlying error */
+    cause?: unknown;
+}
+
+/**
+ * Base class of all errors thrown by the SDK
+ */
+export class GCSUtilsError extends Error {
+    readonly operation?: string;
+    readonly path?: string;
+    readonly cause?: unknown;
+
+    constructor(message: string, context: ErrorContext = {}) {
+        super(message);
+        this.name = new.target.name;
+        this.operation = context.operation;
+        this.path = context.path;
+        this.cause = context.cause;
+    }
+}
+
+/**
+ * Thrown when resource content is malformed for its type
+ */
+export class ValidationError extends GCSUtilsError {
+    readonly typeId: string;
+
+    constructor(typeId: string, message: string, context: ErrorContext = {}) {
+        super(`Invalid content for type ${typeId}: ${message}`, context);
+        this.typeId = typeId;
+    }
+}
+
+/**
+ * Thrown when stored content does not match the hash it is addressed by
+ */
+export class IntegrityError extends GCSUtilsError {
+    readonly expectedHash: string;
+    readonly actualHash: string;
+
+    constructor(expectedHash: string, actualHash: string, context: ErrorContext = {}) {
+        super(`Content hash mismatch. Expected: ${expectedHash}, Actual: ${actualHash}`, context);
+        this.expectedHash = expectedHash;
+        this.actualHash = actualHash;
+    }
+}
+
+/**
+ * Thrown when a write loses a race with a concurrent writer (a failed generation
+ * precondition or an aborted transaction) and retries are exhausted
+ */
+export class ConflictError extends GCSUtilsError {}
+
+/**
+ * Thrown when a write that must create something finds it already exists
+ */
+export class AlreadyExistsError extends ConflictError {}
+
+/**
+ * Thrown when a file, blob, CAFS entry or resource does not exist
+ */
+export class NotFoundError extends GCSUtilsError {}
+
+/**
+ * Thrown when stored content cannot be decoded (decrypted or decompressed) because it is corrupt
+ */
+export class CorruptContentError extends GCSUtilsError {}
+
+/**
+ * Thrown when encrypted content fails authentication: it was tampered with, truncated or is not an envelope
+ */
+export class DecryptionError extends CorruptContentError {}
+
+/**
+ * Thrown when content exceeds the maximum allowed size
+ */
+export class SizeLimitError extends GCSUtilsError {
+    readonly size: number;
+    readonly limit: number;
+
+    constructor(size: number, limit: number, context: ErrorContext = {}) {
+        super(`Content size ${size} exceeds maximum allowed size ${limit}`, context);
+        this.size = size;
+        this.limit = limit;
+    }
+}
+
+/**
+ * Thrown when the configuration is invalid or incomplete; lists every problem found
+ */
+export class ConfigError extends GCSUtilsError {
+    readonly problems: string[];
+
+    constructor(problems: string[], context: ErrorContext = {}) {
+        super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`, {
+            operation: 'configure',
+            ...context
+        });
+        this.problems = problems;
+    }
+}
+
+/**
+ * Thrown when content under legal hold would be deleted
+ */
+export class LegalHoldError extends GCSUtilsError {}
+
+/**
+ * Thrown when the credentials in use are missing or not allowed to perform an operation
+ */
+export class PermissionError extends GCSUtilsError {}
+
+/**
+ * Thrown when a call failed for a reason that may go away if it is repeated
+ * (throttling, server errors, network failures, timeouts)
+ */
+export class TransientError extends GCSUtilsError {}
+
+/**
+ * Thrown when a storage or metadata call does not complete within its time limit
+ */
+export class TimeoutError extends TransientError {
+    readonly timeoutMs: number;
+
+    constructor(timeoutMs: number, context: ErrorContext = {}) {
+        super(`Operation ${context.operation || 'call'} timed out after ${timeoutMs} ms`, context);
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+type ErrorClass = new (message: string, context?: ErrorContext) => GCSUtilsError;
+
+/** Error codes of each error kind: HTTP statuses (GCS), gRPC codes (Firestore) and Node.js error codes */
+const ERROR_CODES: [ErrorClass, (number | string)[]][] = [
+    [NotFoundError, [404, 5, 'ENOENT']],
+    [AlreadyExistsError, [409, 6, 'EEXIST']],
+    [ConflictError, [412, 10]],
+    [PermissionError, [401, 403, 7, 16, 'EACCES', 'EPERM']],
+    [TransientError, [
+        408, 429, 500, 502, 503, 504,
+        4, 8, 13, 14,
+        'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ENETUNREACH'
+    ]]
+];
+
+/**
+ * Turns any error into an SDK error, choosing its class from the error code of the underlying
+ * GCS, Firestore or Node.js error. SDK errors are returned unchanged.
+ * @param error The error
+ * @param message What failed, e.g. `Failed to read file x`; the cause's message is appended
+ * @param context Operation and path involved
+ * @returns The SDK error, with the original error as its cause
+ */
+export function wrapError(error: unknown, message: string, context: ErrorContext = {}): GCSUtilsError {
+    if (error instanceof GCSUtilsError) {
+        return error;
+    }
+
+    const code = (error as { code?: unknown } | null)?.code;
+    const [ErrorClass] = ERROR_CODES.find(([, codes]) => codes.includes(code as number | string)) || [GCSUtilsError];
+    const reason = error instanceof Error ? error.message : String(error);
+    return new ErrorClass(`${message}: ${reason}`, { ...context, cause: error });
+}
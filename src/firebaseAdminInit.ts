@@ -1,28 +1,44 @@
-import { getApp, getApps, initializeApp, applicationDefault, cert } from 'firebase-admin/app';
-import { getFirestore } from 'firebase-admin/firestore';
-import { existsSync, readFileSync } from 'fs';
-import path from 'path';
+import { getApp, getApps, initializeApp, applicationDefault, cert, refreshToken, AppOptions, Credential } from 'firebase-admin/app';
+import { getFirestore, Firestore } from 'firebase-admin/firestore';
+import { checkCredentialsFile, loadConfig } from './config.js';
+import { CloudConfig } from './types/index.js';
 
-// Resolve credentials: prefer GOOGLE_APPLICATION_CREDENTIALS, fallback to local gcp-key.json, else ADC
-function resolveCredential() {
-  const envPath = process.env.GOOGLE_APPLICATION_CREDENTIALS;
-  const localKeyPath = path.join(process.cwd(), 'gcp-key.json');
-  try {
-    if (envPath && existsSync(envPath)) {
-      const json = JSON.parse(readFileSync(envPath, 'utf8'));
-      return cert(json);
+// Resolve credentials: the configured credentials file (GOOGLE_APPLICATION_CREDENTIALS or a local
+// gcp-key.json, see loadConfig), else ADC. A configured file that cannot be used is a ConfigError,
+// never a reason to fall back to other credentials.
+function resolveCredential(cloud: CloudConfig): Credential {
+  if (!cloud.credentialsFile) {
+    return applicationDefault();
+  }
+  return checkCredentialsFile(cloud.credentialsFile) === 'authorized_user'
+    ? refreshToken(cloud.credentialsFile)
+    : cert(cloud.credentialsFile);
+}
+
+let dbAdmin: Firestore | undefined;
+
+// Initialize Firebase Admin on first use so that importing the SDK needs no credentials.
+// The app is shared, so the cloud config of the first caller applies (default: loadConfig()).
+function getDbAdmin(cloud?: CloudConfig): Firestore {
+  if (!dbAdmin) {
+    const config = cloud ?? loadConfig().cloud ?? {};
+    const options: AppOptions = {};
+    if (config.projectId) {
+      options.projectId = config.projectId;
+    }
+    if (!config.firestoreEmulatorHost) {
+      options.credential = resolveCredential(config);
     }
-    if (existsSync(localKeyPath)) {
-      const json = JSON.parse(readFileSync(localKeyPath, 'utf8'));
-      return cert(json);
+    const app = getApps().length ? getApp() : initializeApp(options);
+    const db = getFirestore(app);
+    if (config.firestoreEmulatorHost) {
+      // Without SSL the client talks to the emulator without credentials. Set on this instance
+      // rather than FIRESTORE_EMULATOR_HOST, which would redirect every client in the process.
+      db.settings({ host: config.firestoreEmulatorHost, ssl: false });
     }
-  } catch {
-    // fall through to ADC
+    dbAdmin = db;
   }
-  return applicationDefault();
+  return dbAdmin;
 }
 
-const app = getApps().length ? getApp() : initializeApp({ credential: resolveCredential() });
-const dbAdmin = getFirestore(app);
-
-export { dbAdmin };
+export { getDbAdmin };
@@ -0,0 +1,116 @@
+import { createHash } from 'crypto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { CAFS } from './cafs.js';
+import { MemoryBlobStore } from './stores/memory-blob-store.js';
+import { MemoryMetadataStore } from './stores/memory-metadata-store.js';
+import { StoreContentMeta } from './types/index.js';
+
+function sha256(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+}
+
+function meta(id: string): StoreContentMeta {
+    return { id, typeId: 'doc', roleId: 'output', executionId: 'exec-1' };
+}
+
+describe('garbage collection', () => {
+    let blobStore: MemoryBlobStore;
+    let metadataStore: MemoryMetadataStore;
+    let cafs: CAFS;
+
+    beforeEach(() => {
+        blobStore = new MemoryBlobStore();
+        metadataStore = new MemoryMetadataStore();
+        cafs = new CAFS({ bucketName: 'test-bucket' }, { blobStore, metadataStore });
+    });
+
+    it('finds nothing in a consistent type', async () => {
+        await cafs.storeContent(meta('r1'), 'one');
+        await cafs.storeContent(meta('r2'), 'one');
+
+        const report = await cafs.collectGarbage('doc', { verifyHashes: true });
+        expect(report).toMatchObject({ scannedBlobs: 1, scannedMembers: 2, scannedEntries: 1, findings: [] });
+    });
+
+    it('reports problems without changing anything in dry-run mode', async () => {
+        const orphan = `doc/${sha256('orphan')}`;
+        await blobStore.write(orphan, 'orphan');
+        const { contentHash } = await cafs.storeContent(meta('r1'), 'dangling');
+        await metadataStore.putMember({ ...meta('r2'), timestamp: new Date(0).toISOString(), pointer: 'missing' });
+        await metadataStore.removeCAFSReference('doc', contentHash, 'r1');
+
+        const report = await cafs.collectGarbage('doc', { gracePeriodMs: 0 });
+        expect(report.findings.map(finding => [finding.kind, finding.action]).sort()).toEqual([
+            ['dangling-pointer', 'none'],
+            ['orphan-blob', 'none'],
+            ['zero-refcount', 'none']
+        ]);
+        expect(await blobStore.exists(orphan)).toBe(true);
+    });
+
+    it('removes orphans, dangling pointers and unreferenced content when applied', async () => {
+        const orphan = `doc/${sha256('orphan')}`;
+        await blobStore.write(orphan, 'orphan');
+        const { contentHash, storagePath } = await cafs.storeContent(meta('r1'), 'unreferenced');
+        await metadataStore.putMember({ ...meta('r2'), timestamp: new Date(0).toISOString(), pointer: 'missing' });
+        await metadataStore.removeCAFSReference('doc', contentHash, 'r1');
+
+        const report = await cafs.collectGarbage('doc', { dryRun: false, gracePeriodMs: 0 });
+        expect(report.findings.every(finding => finding.action === 'deleted')).toBe(true);
+        expect(report.reclaimedBytes).toBe('orphan'.length + 'unreferenced'.length);
+        expect(await blobStore.list()).toEqual([]);
+        expect(await metadataStore.getMember('doc', 'r2')).toBeNull();
+        expect(await cafs.getCAFSEntry('doc', contentHash)).toBeNull();
+        expect(storagePath).toBe(`doc/${contentHash}`);
+    });
+
+    it('removes abandoned uploads of the type once past the grace period', async () => {
+        const old = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString();
+        await blobStore.write('.uploads/abandoned', 'partial', { metadata: { typeId: 'doc', kind: 'upload', timestamp: old } });
+        await blobStore.write('.uploads/recent', 'partial', {
+            metadata: { typeId: 'doc', kind: 'upload', timestamp: new Date().toISOString() }
+        });
+        await blobStore.write('.uploads/other-type', 'partial', { metadata: { typeId: 'img', kind: 'upload', timestamp: old } });
+
+        const report = await cafs.collectGarbage('doc', { dryRun: false });
+        expect(report.findings).toMatchObject([
+            { kind: 'orphan-blob', path: '.uploads/abandoned', action: 'deleted' },
+            { kind: 'orphan-blob', path: '.uploads/recent', withinGracePeriod: true, action: 'none' }
+        ]);
+        expect(report.reclaimedBytes).toBe(7);
+        expect(await blobStore.list('.uploads/')).toEqual(['.uploads/other-type', '.uploads/recent']);
+    });
+
+    it('deletes the per-resource copies of unreferenced content with it', async () => {
+        cafs = new CAFS({ bucketName: 'test-bucket', enableDeduplication: false }, { blobStore, metadataStore });
+        const { contentHash } = await cafs.storeContent(meta('r1'), 'copied');
+        await cafs.storeContent(meta('r2'), 'copied');
+        await metadataStore.removeCAFSReference('doc', contentHash, 'r1');
+        await metadataStore.removeCAFSReference('doc', contentHash, 'r2');
+
+        const report = await cafs.collectGarbage('doc', { dryRun: false, gracePeriodMs: 0 });
+        expect(report.findings.filter(finding => finding.kind === 'zero-refcount')).toMatchObject([{ action: 'deleted' }]);
+        expect(report.reclaimedBytes).toBe(2 * 'copied'.length);
+        expect(await blobStore.list()).toEqual([]);
+    });
+
+    it('leaves items within the grace period alone', async () => {
+        await blobStore.write(`doc/${sha256('fresh')}`, 'fresh');
+
+        const report = await cafs.collectGarbage('doc', { dryRun: false });
+        expect(report.findings).toMatchObject([{ kind: 'orphan-blob', withinGracePeriod: true, action: 'none' }]);
+        expect(await blobStore.list()).toHaveLength(1);
+    });
+
+    it('verifies hashes and only deletes corrupt content when asked to', async () => {
+        const { storagePath } = await cafs.storeContent(meta('r1'), 'original');
+        const blob = await blobStore.getMetadata(storagePath);
+        await blobStore.write(storagePath, 'tampered', { metadata: blob.metadata });
+
+        const report = await cafs.collectGarbage('doc', { dryRun: false, verifyHashes: true });
+        expect(report.findings).toMatchObject([{ kind: 'hash-mismatch', action: 'none' }]);
+
+        await cafs.collectGarbage('doc', { dryRun: false, verifyHashes: true, deleteCorrupt: true });
+        expect(await blobStore.exists(storagePath)).toBe(false);
+    });
+});
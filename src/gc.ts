@@ -0,0 +1,235 @@
+import { GCSUtils } from './gcs-utils.js';
+import { UPLOAD_PREFIX, parseAddress } from './address.js';
+import { CorruptContentError, NotFoundError } from './errors.js';
+import {
+    BlobMetadata,
+    CAFSEntry,
+    GCFinding,
+    GCOptions,
+    GCReport,
+    MetadataStore
+} from './types/index.js';
+
+/** Default grace period: one day */
+const DEFAULT_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Garbage collector / consistency checker for CAFS content.
+ * Cross-checks the blobs stored under a type's folder against the resource
+ * member records and CAFS entries in the metadata store, and finds the
+ * abandoned streamed uploads of the type.
+ */
+export class GarbageCollector {
+    private gcsUtils: GCSUtils;
+    private metadataStore: MetadataStore;
+    private hashContent: (blob: BlobMetadata) => Promise<string>;
+    private onDelete?: (path: string) => Promise<void>;
+
+    /**
+     * @param gcsUtils Access to the stored blobs
+     * @param metadataStore The metadata store
+     * @param hashContent Optional function hashing stored content the way it is addressed
+     * (default: SHA-256 of the stored bytes)
+     * @param onDelete Optional callback for each deleted blob, e.g. to evict it from a cache
+     */
+    constructor(
+        gcsUtils: GCSUtils,
+        metadataStore: MetadataStore,
+        hashContent?: (blob: BlobMetadata) => Promise<string>,
+        onDelete?: (path: string) => Promise<void>
+    ) {
+        this.gcsUtils = gcsUtils;
+        this.metadataStore = metadataStore;
+        this.hashContent = hashContent || (async (blob): Promise<string> =>
+            this.gcsUtils.generateContentHash(await this.gcsUtils.readRawBuffer(blob.path)));
+        this.onDelete = onDelete;
+    }
+
+    /**
+     * Scans a type's folder and metadata, reporting and optionally removing problems
+     * @param typeId The type (storage folder) to scan
+     * @param options Optional GC options
+     * @returns The GC report
+     */
+    async run(typeId: string, options: GCOptions = {}): Promise<GCReport> {
+        const dryRun = options.dryRun ?? true;
+        const gracePeriodMs = options.gracePeriodMs ?? DEFAULT_GRACE_PERIOD_MS;
+        const cutoff = Date.now() - gracePeriodMs;
+
+        const paths = await this.gcsUtils.listFiles(`${typeId}/`);
+        const uploadPaths = await this.gcsUtils.listFiles(UPLOAD_PREFIX);
+        const members = await this.metadataStore.queryMembers({ typeId });
+        const entries = await this.metadataStore.queryCAFSEntries(typeId);
+
+        const report: GCReport = {
+            typeId,
+            dryRun,
+            scannedBlobs: paths.length + uploadPaths.length,
+            scannedMembers: members.length,
+            scannedEntries: entries.length,
+            findings: [],
+            reclaimedBytes: 0
+        };
+
+        const entriesByHash = new Map<string, CAFSEntry>(entries.map(entry => [entry.contentHash, entry]));
+        const pointers = new Set(members.map(member => member.pointer));
+        const realizedIds = new Set<string>();
+        const blobs: BlobMetadata[] = [];
+
+        for (const path of paths) {
+            const blob = await this.gcsUtils.getFileMetadata(path);
+            blobs.push(blob);
+            if (blob.metadata.id) {
+                realizedIds.add(blob.metadata.id);
+            }
+        }
+
+        for (const blob of blobs) {
+            const contentHash = this.extractHash(typeId, blob.path);
+            if (!contentHash) continue; // Not CAFS content
+
+            const withinGracePeriod = this.isNewerThan(blob.metadata.timestamp || blob.updated, cutoff);
+
+            if (!entriesByHash.has(contentHash) && !pointers.has(blob.metadata.id)) {
+                await this.handle(report, {
+                    kind: 'orphan-blob',
+                    path: blob.path,
+                    contentHash,
+                    resourceId: blob.metadata.id,
+                    detail: 'No CAFS entry or resource references this content',
+                    withinGracePeriod,
+                    action: 'none'
+                }, dryRun, () => this.deleteBlob(report, blob));
+                continue;
+            }
+
+            if (options.verifyHashes) {
+                let detail: string | undefined;
+                try {
+                    const actualHash = await this.hashContent(blob);
+                    if (actualHash !== contentHash) {
+                        detail = `Stored content hashes to ${actualHash}`;
+                    }
+                } catch (error) {
+                    if (!(error instanceof CorruptContentError)) throw error;
+                    detail = `Stored content cannot be decoded: ${error.message}`;
+                }
+                if (detail) {
+                    // Held content is kept even if it is corrupt
+                    const held = entriesByHash.get(contentHash)?.metadata.legalHold === true;
+                    await this.handle(report, {
+                        kind: 'hash-mismatch',
+                        path: blob.path,
+                        contentHash,
+                        resourceId: blob.metadata.id,
+                        detail,
+                        withinGracePeriod: false,
+                        action: 'none'
+                    }, dryRun || !options.deleteCorrupt || held, () => this.deleteBlob(report, blob));
+                }
+            }
+        }
+
+        for (const path of uploadPaths) {
+            let upload: BlobMetadata;
+            try {
+                upload = await this.gcsUtils.getFileMetadata(path);
+            } catch (error) {
+                if (error instanceof NotFoundError) continue; // Moved into place since the listing
+                throw error;
+            }
+            // Uploads are moved into place once stored, so those left behind are abandoned
+            if (upload.metadata.typeId !== typeId) continue;
+
+            await this.handle(report, {
+                kind: 'orphan-blob',
+                path: upload.path,
+                resourceId: upload.metadata.id,
+                detail: 'Streamed upload was never moved into place',
+                withinGracePeriod: this.isNewerThan(upload.metadata.timestamp || upload.updated, cutoff),
+                action: 'none'
+            }, dryRun, () => this.deleteBlob(report, upload));
+        }
+
+        for (const member of members) {
+            if (realizedIds.has(member.pointer)) continue;
+
+            await this.handle(report, {
+                kind: 'dangling-pointer',
+                resourceId: member.id,
+                detail: `Pointer ${member.pointer || '(empty)'} does not name any stored content`,
+                withinGracePeriod: this.isNewerThan(member.timestamp, cutoff),
+                action: 'none'
+            }, dryRun, () => this.metadataStore.deleteMember(typeId, member.id));
+        }
+
+        for (const entry of entries) {
+            if (entry.referencedBy.length > 0) continue;
+
+            await this.handle(report, {
+                kind: 'zero-refcount',
+                path: entry.gcsPath,
+                contentHash: entry.contentHash,
+                detail: entry.metadata.legalHold
+                    ? 'CAFS entry is no longer referenced by any resource, but is under legal hold'
+                    : 'CAFS entry is no longer referenced by any resource',
+                withinGracePeriod: this.isNewerThan(entry.metadata.timestamp, cutoff),
+                action: 'none'
+            }, dryRun, async () => {
+                // Skip content that was referenced again since the scan
+                if (!(await this.metadataStore.deleteUnreferencedCAFSEntry(typeId, entry.contentHash))) {
+                    return false;
+                }
+                // The content goes together with the copies kept per resource
+                for (const blob of blobs) {
+                    if (this.extractHash(typeId, blob.path) === entry.contentHash) {
+                        await this.deleteBlob(report, blob);
+                    }
+                }
+            });
+        }
+
+        return report;
+    }
+
+    /**
+     * Records a finding and applies its remedy unless in dry-run mode or within the grace period
+     * @param report The report to add the finding to
+     * @param finding The finding
+     * @param reportOnly Whether to skip the remedy
+     * @param remedy The remedy to apply; it may return false if it turned out not to be needed
+     */
+    private async handle(
+        report: GCReport,
+        finding: GCFinding,
+        reportOnly: boolean,
+        remedy: () => Promise<boolean | void>
+    ): Promise<void> {
+        if (!reportOnly && !finding.withinGracePeriod && (await remedy()) !== false) {
+            finding.action = 'deleted';
+        }
+        report.findings.push(finding);
+    }
+
+    private async deleteBlob(report: GCReport, blob: BlobMetadata): Promise<void> {
+        await this.gcsUtils.deleteFile(blob.path);
+        await this.onDelete?.(blob.path);
+        report.reclaimedBytes += blob.size;
+    }
+
+    /**
+     * Extracts the content hash from the storage path of content in a type's folder
+     * @param typeId The type (storage folder)
+     * @param path The storage path
+     * @returns The hash or null if the path is not CAFS content
+     */
+    private extractHash(typeId: string, path: string): string | null {
+        const address = parseAddress(path);
+        return address && address.typeId === typeId ? address.contentHash : null;
+    }
+
+    private isNewerThan(timestamp: string | undefined, cutoff: number): boolean {
+        const time = timestamp ? Date.parse(timestamp) : NaN;
+        return !Number.isNaN(time) && time > cutoff;
+    }
+}
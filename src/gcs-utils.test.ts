@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CAFS } from './cafs.js';
+import { loadConfig } from './config.js';
+import { AlreadyExistsError, IntegrityError, NotFoundError, ValidationError } from './errors.js';
+import { GCSUtils } from './gcs-utils.js';
+import { MemoryBlobStore } from './stores/memory-blob-store.js';
+import { MemoryMetadataStore } from './stores/memory-metadata-store.js';
+
+describe('GCSUtils', () => {
+    let blobStore: MemoryBlobStore;
+    let gcsUtils: GCSUtils;
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    beforeEach(() => {
+        blobStore = new MemoryBlobStore();
+        gcsUtils = new GCSUtils('test-bucket', { blobStore, metadataStore: new MemoryMetadataStore() }, {
+            initialDelayMs: 1,
+            maxDelayMs: 1
+        });
+    });
+
+    it('writes and reads numbers with their hash, tags and metadata', async () => {
+        await gcsUtils.writeToGCS('numbers/a.json', 42, { tags: ['a,b'], metadata: { contentType: 'application/json' } });
+
+        expect(await gcsUtils.readFromGCS('numbers/a.json', { validateHash: true })).toBe(42);
+        const { metadata } = await gcsUtils.getFileMetadata('numbers/a.json');
+        expect(JSON.parse(metadata.tags)).toEqual(['a,b']);
+        expect(metadata.contentHash).toBe(gcsUtils.generateContentHash(await gcsUtils.readRawContent('numbers/a.json')));
+    });
+
+    it('only overwrites files when asked to', async () => {
+        await gcsUtils.writeToGCS('n.json', 1);
+
+        await expect(gcsUtils.writeToGCS('n.json', 2)).rejects.toBeInstanceOf(AlreadyExistsError);
+        await gcsUtils.writeToGCS('n.json', 2, { overwrite: true });
+        expect(await gcsUtils.readFromGCS('n.json')).toBe(2);
+    });
+
+    it('rejects missing, malformed and tampered files', async () => {
+        await expect(gcsUtils.readFromGCS('missing.json')).rejects.toBeInstanceOf(NotFoundError);
+
+        await blobStore.write('text.json', '{"semanticIdentity":"one"}');
+        await expect(gcsUtils.readFromGCS('text.json')).rejects.toBeInstanceOf(ValidationError);
+
+        await gcsUtils.writeToGCS('n.json', 1);
+        const { metadata } = await blobStore.getMetadata('n.json');
+        await blobStore.write('n.json', '{"semanticIdentity":2}', { metadata });
+        await expect(gcsUtils.readFromGCS('n.json', { validateHash: true })).rejects.toBeInstanceOf(IntegrityError);
+    });
+
+    it('retries transient backend failures', async () => {
+        await gcsUtils.writeToGCS('n.json', 7);
+        let failures = 0;
+        const read = blobStore.read.bind(blobStore);
+        blobStore.read = async (path: string): Promise<Buffer> => {
+            if (failures++ < 2) throw Object.assign(new Error('unavailable'), { code: 503 });
+            return await read(path);
+        };
+
+        expect(await gcsUtils.readFromGCS('n.json')).toBe(7);
+        expect(failures).toBe(3);
+    });
+
+    it('moves files and replaces their metadata in one step', async () => {
+        await blobStore.write('.uploads/u1', 'data', { metadata: { kind: 'upload' } });
+        blobStore.setMetadata = async (): Promise<void> => {
+            throw new Error('setMetadata must not be needed');
+        };
+        const meta = {
+            id: 'r1', typeId: 't', roleId: 'o', executionId: 'e1', kind: 'realized', path: 't/data',
+            timestamp: '2024-01-01T00:00:00.000Z'
+        };
+
+        await gcsUtils.moveRawContent('.uploads/u1', meta);
+        expect(await blobStore.exists('.uploads/u1')).toBe(false);
+        expect((await blobStore.getMetadata('t/data')).metadata).toEqual(meta);
+    });
+
+    it('uses a resolved configuration as is, so that options keep overriding the environment', () => {
+        vi.stubEnv('GCS_UTILS_COMPRESSION', 'zip');
+        const backends = { blobStore, metadataStore: new MemoryMetadataStore() };
+
+        expect(() => new GCSUtils('test-bucket', backends)).toThrow('compression');
+        expect(() => new GCSUtils(loadConfig({ bucketName: 'test-bucket', compression: 'gzip' }), backends)).not.toThrow();
+        expect(() => new CAFS({ bucketName: 'test-bucket', compression: 'gzip' }, backends)).not.toThrow();
+    });
+
+    it('lists files page by page', async () => {
+        for (const name of ['a', 'b', 'c']) {
+            await blobStore.write(`files/${name}`, name);
+        }
+
+        const paths: string[] = [];
+        for await (const path of gcsUtils.iterateFiles('files/', 2)) {
+            paths.push(path);
+        }
+        expect(paths).toEqual(['files/a', 'files/b', 'files/c']);
+        expect(await gcsUtils.listFiles('files/')).toEqual(paths);
+    });
+});
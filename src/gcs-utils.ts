@@ -1,22 +1,62 @@
-import { Storage } from '@google-cloud/storage';
 import { createHash } from 'crypto';
-import { IntegerInstance, ReadOptions, WriteOptions } from './types/index.js';
-import { dbAdmin } from './firebaseAdminInit.js';
-import { time } from 'console';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+    BlobMetadata,
+    BlobPreconditions,
+    BlobSignedUrlOptions,
+    BlobStore,
+    GCSUtilsConfig,
+    IntegerInstance,
+    MetadataStore,
+    RawContentMeta,
+    ReadOptions,
+    ResourceMemberRecord,
+    ResourceMetadata,
+    RetryPolicy,
+    StorageBackends,
+    WriteOptions
+} from './types/index.js';
+import {
+    AlreadyExistsError,
+    ConflictError,
+    IntegrityError,
+    NotFoundError,
+    ValidationError,
+    wrapError
+} from './errors.js';
+import { loadConfig, requireBucketName } from './config.js';
+import { GCSBlobStore, createStorageClient } from './stores/gcs-blob-store.js';
+import { FirestoreMetadataStore } from './stores/firestore-metadata-store.js';
+import { RetryingBlobStore } from './stores/retrying-blob-store.js';
+import { RetryingMetadataStore } from './stores/retrying-metadata-store.js';
 
 /**
  * Core GCS utilities for reading and writing files
  */
 export class GCSUtils {
-    private storage: Storage;
+    private blobStore: BlobStore;
+    private metadataStore: MetadataStore;
     private bucketName: string;
 
-    constructor(bucketName?: string) {
-        if (!bucketName || !process.env.BUCKET_NAME) {
-            throw new Error('BUCKET_NAME environment variable is not set');
-        }
-        this.storage = new Storage();
-        this.bucketName = bucketName || process.env.BUCKET_NAME;
+    /**
+     * @param config Optional bucket name, or a configuration already resolved with loadConfig
+     * (defaults to loadConfig())
+     * @param backends Optional storage backends (defaults to the GCS bucket and Firestore)
+     * @param retryPolicy Optional retry policy applied to every backend call
+     * @throws ConfigError if the configuration is invalid, or no bucket is configured for the default blob store
+     */
+    constructor(config?: string | GCSUtilsConfig, backends: StorageBackends = {}, retryPolicy: RetryPolicy = {}) {
+        const resolved = typeof config === 'object' ? config : loadConfig({ bucketName: config });
+        this.bucketName = resolved.bucketName;
+        this.blobStore = new RetryingBlobStore(
+            backends.blobStore || new GCSBlobStore(requireBucketName(this.bucketName), createStorageClient(resolved.cloud)),
+            retryPolicy
+        );
+        this.metadataStore = new RetryingMetadataStore(
+            backends.metadataStore || new FirestoreMetadataStore(resolved.metadataCollection, undefined, resolved.cloud),
+            retryPolicy
+        );
     }
 
     /**
@@ -27,36 +67,39 @@ export class GCSUtils {
      */
     async readFromGCS(filePath: string, options: ReadOptions = {}): Promise<number> {
         try {
-            const bucket = this.storage.bucket(this.bucketName);
-            const file = bucket.file(filePath);
-
             // Check if file exists
-            const [exists] = await file.exists();
+            const exists = await this.blobStore.exists(filePath);
             if (!exists) {
-                throw new Error(`File ${filePath} does not exist in bucket ${this.bucketName}`);
+                throw new NotFoundError(`File ${filePath} does not exist in bucket ${this.bucketName}`, {
+                    operation: 'readFromGCS',
+                    path: filePath
+                });
             }
 
-            const [fileContents] = await file.download();
+            const fileContents = await this.blobStore.read(filePath);
             const jsonData: IntegerInstance = JSON.parse(fileContents.toString());
 
             if (typeof jsonData.semanticIdentity !== 'number') {
-                throw new Error(`File ${filePath} does not contain a valid number value`);
+                throw new ValidationError('integer', `File ${filePath} does not contain a valid number value`, {
+                    operation: 'readFromGCS',
+                    path: filePath
+                });
             }
 
             // Validate content hash if requested
             if (options.validateHash) {
                 const contentHash = this.generateContentHash(fileContents.toString());
-                const [metadata] = await file.getMetadata();
-                const storedHash = metadata.metadata?.contentHash;
+                const metadata = await this.blobStore.getMetadata(filePath);
+                const storedHash = metadata.metadata.contentHash;
 
                 if (storedHash && storedHash !== contentHash) {
-                    throw new Error(`Content hash mismatch for file ${filePath}`);
+                    throw new IntegrityError(storedHash, contentHash, { operation: 'readFromGCS', path: filePath });
                 }
             }
 
             return jsonData.semanticIdentity;
         } catch (error) {
-            throw new Error(`Failed to read file ${filePath}: ${error}`);
+            throw wrapError(error, `Failed to read file ${filePath}`, { operation: 'readFromGCS', path: filePath });
         }
     }
 
@@ -65,6 +108,7 @@ export class GCSUtils {
      * @param filePath The path where to store the file in the GCS bucket
      * @param semanticIdentity The numeric value to store
      * @param options Optional write options
+     * @throws AlreadyExistsError if the file exists (or is created concurrently) and overwrite is not allowed
      */
     async writeToGCS(
         filePath: string,
@@ -72,56 +116,59 @@ export class GCSUtils {
         options: WriteOptions = {}
     ): Promise<void> {
         try {
-            const bucket = this.storage.bucket(this.bucketName);
-            const file = bucket.file(filePath);
-
             const jsonData: IntegerInstance = { semanticIdentity };
             const jsonString = JSON.stringify(jsonData, null, 2);
             const contentHash = this.generateContentHash(jsonString);
 
-            // Check if file exists and overwrite is not allowed
-            if (!options.overwrite) {
-                const [exists] = await file.exists();
-                if (exists) {
-                    throw new Error(`File ${filePath} already exists and overwrite is not allowed`);
-                }
-            }
-
-            const metadata: any = {
-                contentType: options.contentType || 'application/json',
-                metadata: {
-                    contentHash,
-                    createdAt: new Date().toISOString(),
-                    ...options.metadata
-                }
+            const metadata: Record<string, string> = {
+                contentHash,
+                createdAt: new Date().toISOString(),
+                ...this.toCustomMetadata({
+                    ...options.metadata,
+                    // Stored as a JSON array so tags may contain commas
+                    ...(options.tags && options.tags.length > 0 ? { tags: options.tags } : {})
+                })
             };
 
-            if (options.tags && options.tags.length > 0) {
-                metadata.metadata.tags = options.tags.join(',');
+            // Without overwrite, the write only succeeds if the file does not exist yet
+            await this.blobStore.write(filePath, jsonString, {
+                contentType: options.contentType || 'application/json',
+                metadata,
+                ...(options.overwrite ? {} : { ifGenerationMatch: 0 })
+            });
+        } catch (error) {
+            if (error instanceof ConflictError) {
+                throw new AlreadyExistsError(`File ${filePath} already exists and overwrite is not allowed`, {
+                    operation: 'writeToGCS',
+                    path: filePath,
+                    cause: error
+                });
             }
+            throw wrapError(error, `Failed to write file ${filePath}`, { operation: 'writeToGCS', path: filePath });
+        }
+    }
 
-            await file.save(jsonString, metadata);
+    /**
+     * Writes a resource member record to the metadata store
+     * @param meta The resource member record
+     */
+    async writeToFirestore(meta: ResourceMemberRecord): Promise<void> {
+        try {
+            await this.metadataStore.putMember(meta);
         } catch (error) {
-            throw new Error(`Failed to write file ${filePath}: ${error}`);
+            throw wrapError(error, 'Failed to write to Firestore', { operation: 'writeToFirestore' });
         }
     }
 
-    async writeToFirestore(
-        meta: {
-            id: string;
-            typeId: string;
-            roleId: string;
-            executionId: string;
-            timestamp: string;
-            pointer: string;
-        }
-    ): Promise<void> {
+    /**
+     * Writes many resource member records to the metadata store using batched writes
+     * @param records The resource member records
+     */
+    async writeManyToFirestore(records: ResourceMemberRecord[]): Promise<void> {
         try {
-            const col = dbAdmin.collection('resources').doc(meta.typeId).collection('members');
-            const docRef = col.doc(meta.id);
-            await docRef.set(meta);
+            await this.metadataStore.putMembers(records);
         } catch (error) {
-            throw new Error(`Failed to write to Firestore: ${error}`);
+            throw wrapError(error, 'Failed to write to Firestore', { operation: 'writeManyToFirestore' });
         }
     }
 
@@ -131,52 +178,156 @@ export class GCSUtils {
      * @returns The raw file content as string
      */
     async readRawContent(filePath: string): Promise<string> {
-        try {
-            const bucket = this.storage.bucket(this.bucketName);
-            const file = bucket.file(filePath);
+        const fileContents = await this.readRawBuffer(filePath);
+        return fileContents.toString();
+    }
 
-            const [exists] = await file.exists();
+    /**
+     * Reads raw binary content from GCS
+     * @param filePath The path to the file in the GCS bucket
+     * @returns The raw file content
+     */
+    async readRawBuffer(filePath: string): Promise<Buffer> {
+        try {
+            const exists = await this.blobStore.exists(filePath);
             if (!exists) {
-                throw new Error(`File ${filePath} does not exist in bucket ${this.bucketName}`);
+                throw new NotFoundError(`File ${filePath} does not exist in bucket ${this.bucketName}`, {
+                    operation: 'readRawBuffer',
+                    path: filePath
+                });
             }
 
-            const [fileContents] = await file.download();
-            return fileContents.toString();
+            return await this.blobStore.read(filePath);
         } catch (error) {
-            throw new Error(`Failed to read raw content from ${filePath}: ${error}`);
+            throw wrapError(error, `Failed to read raw content from ${filePath}`, {
+                operation: 'readRawBuffer',
+                path: filePath
+            });
         }
     }
 
+    /**
+     * Opens a stream over raw content in GCS without loading it into memory
+     * @param filePath The path to the file in the GCS bucket
+     * @returns A readable stream of the file content
+     */
+    createReadStream(filePath: string): Readable {
+        return this.blobStore.createReadStream(filePath);
+    }
+
     /**
      * Writes raw content to GCS
-     * @param filePath The path where to store the file
      * @param content The content to store
+     * @param meta Metadata stored with the content, including its path
      * @param contentType The MIME type of the content
+     * @param preconditions Optional preconditions the existing file must meet
      */
     async writeRawContent(
-        content: string,
-        meta: {
-            id: string;
-            typeId: string;
-            roleId: string;
-            executionId: string;
-            kind: string;
-            path: string;
-            timestamp: string;
+        content: string | Buffer | Uint8Array,
+        meta: RawContentMeta,
+        contentType: string = 'text/plain',
+        preconditions: BlobPreconditions = {}
+    ): Promise<void> {
+        try {
+            const data = typeof content === 'string' || Buffer.isBuffer(content) ? content : Buffer.from(content);
+            await this.blobStore.write(meta.path, data, {
+                contentType,
+                metadata: { ...meta },
+                ...preconditions
+            });
+        } catch (error) {
+            throw wrapError(error, `Failed to write raw content to ${meta.path}`, {
+                operation: 'writeRawContent',
+                path: meta.path
+            });
         }
+    }
+
+    /**
+     * Streams raw content to GCS (resumable upload) without loading it into memory
+     * @param source The content stream
+     * @param meta Metadata stored with the content, including its path
+     * @param contentType The MIME type of the content
+     */
+    async writeRawStream(
+        source: Readable,
+        meta: RawContentMeta,
+        contentType: string = 'application/octet-stream'
     ): Promise<void> {
         try {
-            const bucket = this.storage.bucket(this.bucketName);
-            const file = bucket.file(meta.path);
+            await pipeline(source, this.blobStore.createWriteStream(meta.path, {
+                contentType,
+                metadata: { ...meta }
+            }));
+        } catch (error) {
+            throw wrapError(error, `Failed to stream raw content to ${meta.path}`, {
+                operation: 'writeRawStream',
+                path: meta.path
+            });
+        }
+    }
+
+    /**
+     * Moves a file within the bucket, replacing its custom metadata
+     * @param sourcePath The current path of the file
+     * @param meta Metadata to store with the file, including its new path
+     * @param preconditions Optional preconditions any file at the new path must meet
+     */
+    async moveRawContent(sourcePath: string, meta: RawContentMeta, preconditions: BlobPreconditions = {}): Promise<void> {
+        try {
+            // The metadata is replaced as part of the move, so a failure leaves the source in place
+            await this.blobStore.move(sourcePath, meta.path, preconditions, { ...meta });
+        } catch (error) {
+            throw wrapError(error, `Failed to move ${sourcePath} to ${meta.path}`, {
+                operation: 'moveRawContent',
+                path: sourcePath
+            });
+        }
+    }
 
-            await file.save(content, {
-                metadata: {
-                    contentType: 'text/plain',
-                    metadata: meta
-                }
+    /**
+     * Replaces the custom metadata of a file with the metadata of raw content
+     * @param meta Metadata to store with the file, including its path
+     * @param preconditions Optional preconditions the file must meet
+     */
+    async setRawContentMeta(meta: RawContentMeta, preconditions: BlobPreconditions = {}): Promise<void> {
+        try {
+            await this.blobStore.setMetadata(meta.path, { ...meta }, preconditions);
+        } catch (error) {
+            throw wrapError(error, `Failed to set metadata of ${meta.path}`, {
+                operation: 'setRawContentMeta',
+                path: meta.path
             });
+        }
+    }
+
+    /**
+     * Creates a V4 signed URL granting temporary access to a file
+     * @param filePath The path to the file in the GCS bucket
+     * @param options Whether the URL reads or writes the file, when it expires and required headers
+     * @returns The signed URL
+     */
+    async getSignedUrl(filePath: string, options: BlobSignedUrlOptions): Promise<string> {
+        try {
+            return await this.blobStore.getSignedUrl(filePath, options);
+        } catch (error) {
+            throw wrapError(error, `Failed to sign URL for ${filePath}`, { operation: 'getSignedUrl', path: filePath });
+        }
+    }
+
+    /**
+     * Moves a file to another storage class, keeping its content and metadata
+     * @param filePath The path to the file in the GCS bucket
+     * @param storageClass The storage class, e.g. 'NEARLINE', 'COLDLINE' or 'ARCHIVE'
+     */
+    async setStorageClass(filePath: string, storageClass: string): Promise<void> {
+        try {
+            await this.blobStore.setStorageClass(filePath, storageClass);
         } catch (error) {
-            throw new Error(`Failed to write raw content to ${meta.path}: ${error}`);
+            throw wrapError(error, `Failed to move ${filePath} to storage class ${storageClass}`, {
+                operation: 'setStorageClass',
+                path: filePath
+            });
         }
     }
 
@@ -184,28 +335,27 @@ export class GCSUtils {
    * Checks if a file exists in GCS and returns its metadata id if available
    * @param filePath The path to check
    * @returns Object with existence flag and id (empty string if not found)
+   * @throws Error if existence could not be determined, e.g. because GCS is unreachable
    */
     async fileExists(filePath: string): Promise<{ fileExists: boolean; id: string }> {
         try {
-            const bucket = this.storage.bucket(this.bucketName);
-            const file = bucket.file(filePath);
-            const [exists] = await file.exists();
+            const exists = await this.blobStore.exists(filePath);
 
             if (!exists) {
                 return { fileExists: false, id: '' };
             }
 
-            // Try to fetch metadata to extract custom metadata.id; return empty id on failure
-            try {
-                const [metadata] = await file.getMetadata();
-                const idRaw: unknown = (metadata as any)?.metadata?.id;
-                const id = typeof idRaw === 'string' ? idRaw : (idRaw != null ? String(idRaw) : '');
-                return { fileExists: true, id };
-            } catch {
-                return { fileExists: true, id: '' };
-            }
+            const metadata = await this.blobStore.getMetadata(filePath);
+            return { fileExists: true, id: metadata.metadata.id || '' };
         } catch (error) {
-            return { fileExists: false, id: '' };
+            // Deleted between the two calls
+            if (!(await this.blobStore.exists(filePath).catch(() => true))) {
+                return { fileExists: false, id: '' };
+            }
+            throw wrapError(error, `Failed to check whether file ${filePath} exists`, {
+                operation: 'fileExists',
+                path: filePath
+            });
         }
     }
 
@@ -214,7 +364,7 @@ export class GCSUtils {
      * @param content The content to hash
      * @returns The SHA-256 hash as hex string
      */
-    generateContentHash(content: string): string {
+    generateContentHash(content: string | Buffer | Uint8Array): string {
         return createHash('sha256').update(content).digest('hex');
     }
 
@@ -222,14 +372,13 @@ export class GCSUtils {
     /**
      * Deletes a file from GCS
      * @param filePath The path to the file to delete
+     * @param preconditions Optional preconditions the file must meet
      */
-    async deleteFile(filePath: string): Promise<void> {
+    async deleteFile(filePath: string, preconditions: BlobPreconditions = {}): Promise<void> {
         try {
-            const bucket = this.storage.bucket(this.bucketName);
-            const file = bucket.file(filePath);
-            await file.delete();
+            await this.blobStore.delete(filePath, preconditions);
         } catch (error) {
-            throw new Error(`Failed to delete file ${filePath}: ${error}`);
+            throw wrapError(error, `Failed to delete file ${filePath}`, { operation: 'deleteFile', path: filePath });
         }
     }
 
@@ -238,14 +387,14 @@ export class GCSUtils {
      * @param filePath The path to the file
      * @returns File metadata
      */
-    async getFileMetadata(filePath: string): Promise<any> {
+    async getFileMetadata(filePath: string): Promise<BlobMetadata> {
         try {
-            const bucket = this.storage.bucket(this.bucketName);
-            const file = bucket.file(filePath);
-            const [metadata] = await file.getMetadata();
-            return metadata;
+            return await this.blobStore.getMetadata(filePath);
         } catch (error) {
-            throw new Error(`Failed to get metadata for file ${filePath}: ${error}`);
+            throw wrapError(error, `Failed to get metadata for file ${filePath}`, {
+                operation: 'getFileMetadata',
+                path: filePath
+            });
         }
     }
 
@@ -256,11 +405,49 @@ export class GCSUtils {
      */
     async listFiles(prefix?: string): Promise<string[]> {
         try {
-            const bucket = this.storage.bucket(this.bucketName);
-            const [files] = await bucket.getFiles({ prefix });
-            return files.map(file => file.name);
+            return await this.blobStore.list(prefix);
         } catch (error) {
-            throw new Error(`Failed to list files: ${error}`);
+            throw wrapError(error, 'Failed to list files', { operation: 'listFiles', path: prefix });
+        }
+    }
+
+    /**
+     * Iterates over the files in the bucket with optional prefix, fetching one page at a time
+     * @param prefix Optional prefix to filter files
+     * @param pageSize Number of file names fetched per request
+     * @returns Async iterator over file names
+     */
+    async *iterateFiles(prefix: string = '', pageSize: number = 1000): AsyncGenerator<string> {
+        let pageToken: string | undefined;
+        do {
+            let page;
+            try {
+                page = await this.blobStore.listPage(prefix, { pageSize, pageToken });
+            } catch (error) {
+                throw wrapError(error, 'Failed to list files', { operation: 'iterateFiles', path: prefix });
+            }
+            yield* page.paths;
+            pageToken = page.nextPageToken;
+        } while (pageToken !== undefined);
+    }
+
+    /**
+     * Converts resource metadata into the string key/value form stored on blobs
+     * @param metadata The metadata to convert
+     * @returns String-valued metadata
+     */
+    private toCustomMetadata(metadata: Partial<ResourceMetadata>): Record<string, string> {
+        const custom: Record<string, string> = {};
+        for (const [key, value] of Object.entries(metadata)) {
+            if (value == null) continue;
+            if (typeof value === 'string') {
+                custom[key] = value;
+            } else if (value instanceof Date) {
+                custom[key] = value.toISOString();
+            } else {
+                custom[key] = JSON.stringify(value);
+            }
         }
+        return custom;
     }
 }
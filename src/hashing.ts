@@ -0,0 +1,54 @@
+import { createHash, createHmac, Hash, Hmac } from 'crypto';
+import { Transform, TransformCallback } from 'stream';
+import { IntegrityError } from './errors.js';
+
+/**
+ * Pass-through stream that computes the SHA-256 hash (or keyed HMAC-SHA256) and size of the bytes
+ * flowing through it. When an expected hash is given, the stream fails with an IntegrityError at the end
+ * of the data if the content does not match.
+ */
+export class HashingStream extends Transform {
+    private hash: Hash | Hmac;
+    private expectedHash?: string;
+    private path?: string;
+    private digest = '';
+    /** Number of bytes seen so far */
+    bytes = 0;
+
+    /**
+     * @param expectedHash Optional SHA-256 hash the content must match
+     * @param path Optional storage path, reported on mismatch
+     * @param key Optional HMAC key, to compute an HMAC-SHA256 instead of a plain hash
+     */
+    constructor(expectedHash?: string, path?: string, key?: Buffer) {
+        super();
+        this.hash = key ? createHmac('sha256', key) : createHash('sha256');
+        this.expectedHash = expectedHash;
+        this.path = path;
+    }
+
+    /**
+     * SHA-256 hash of the content (available once the stream has ended)
+     */
+    get contentHash(): string {
+        return this.digest;
+    }
+
+    _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+        this.hash.update(chunk);
+        this.bytes += chunk.length;
+        callback(null, chunk);
+    }
+
+    _flush(callback: TransformCallback): void {
+        this.digest = this.hash.digest('hex');
+        if (this.expectedHash && this.digest !== this.expectedHash) {
+            callback(new IntegrityError(this.expectedHash, this.digest, {
+                operation: 'stream',
+                path: this.path
+            }));
+            return;
+        }
+        callback();
+    }
+}
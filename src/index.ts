@@ -4,30 +4,96 @@
  * This SDK provides:
  * - Simple GCS read/write operations
  * - Content Addressable File Storage (CAFS) with deduplication
+ * - Binary and streaming content with incremental hash verification
+ * - Paginated, filterable listing of CAFS entries and stored files
+ * - Resource tags and custom properties, with search
+ * - Garbage collection and consistency checks for CAFS content
+ * - Retention policies, legal holds and storage class tiering by last access time
+ * - Execution lineage tracking and queries
+ * - Named refs to content with compare-and-swap updates and history
+ * - Snapshot export and import of executions' resources as directory or tar archives
+ * - Configurable retries with backoff and timeouts for all backend calls
+ * - Client-side envelope encryption of CAFS content with pluggable key providers
+ * - Transparent gzip/zstd compression of CAFS content
+ * - Read-through memory and disk cache of retrieved content
+ * - Signed URLs for direct client uploads and downloads
+ * - gcs-utils command-line tool for inspecting and managing a CAFS bucket
+ * - Multi-tenant routing of CAFS content to buckets, collections and key prefixes, with usage totals
+ * - Validated configuration from options, environment variables and a config file
+ * - Pluggable storage backends (GCS, local directory, in-memory)
+ * - Pluggable metadata stores (Firestore, in-memory)
  * - Legacy compatibility functions
  */
 
 // Main exports
 import { CAFS } from './cafs.js';
+import { ContentCache } from './content-cache.js';
 import { GCSUtils } from './gcs-utils.js';
+import { GarbageCollector } from './gc.js';
+import { RetentionEvaluator } from './retention.js';
+import { SnapshotTransfer } from './snapshot.js';
+import { CAFSRouter } from './router.js';
+import { HashingStream } from './hashing.js';
+import { LineageTracker } from './lineage.js';
+import { LocalKeyFileProvider } from './local-key-provider.js';
+import { GCSBlobStore, createStorageClient } from './stores/gcs-blob-store.js';
+import { LocalBlobStore } from './stores/local-blob-store.js';
+import { MemoryBlobStore } from './stores/memory-blob-store.js';
+import { FirestoreMetadataStore } from './stores/firestore-metadata-store.js';
+import { MemoryMetadataStore } from './stores/memory-metadata-store.js';
+import { RetryingBlobStore } from './stores/retrying-blob-store.js';
+import { PrefixedBlobStore } from './stores/prefixed-blob-store.js';
+import { RetryingMetadataStore } from './stores/retrying-metadata-store.js';
+import { GCSUtilsConfig, StorageBackends } from './types/index.js';
 
 /**
  * Convenience function to create a GCSUtils instance
  * @param bucketName Optional bucket name
+ * @param backends Optional storage backends
  * @returns GCSUtils instance
 */
-function createGCSUtils(bucketName?: string) {
-    return new GCSUtils(bucketName);
+function createGCSUtils(bucketName?: string, backends?: StorageBackends): GCSUtils {
+    return new GCSUtils(bucketName, backends);
 }
 
 /**
  * Convenience function to create a CAFS instance
  * @param config Optional configuration
+ * @param backends Optional storage backends
  * @returns CAFS instance
 */
-function createCAFS(config?: any) {
-    return new CAFS(config);
+function createCAFS(config?: Partial<GCSUtilsConfig>, backends?: StorageBackends): CAFS {
+    return new CAFS(config, backends);
 }
 
 export * from './types/index.js';
-export { CAFS, GCSUtils, createGCSUtils, createCAFS };
+export * from './errors.js';
+export * from './address.js';
+export * from './config.js';
+export * from './codecs.js';
+export * from './retry.js';
+export * from './encryption.js';
+export * from './compression.js';
+export {
+    CAFS,
+    ContentCache,
+    GCSUtils,
+    GarbageCollector,
+    RetentionEvaluator,
+    SnapshotTransfer,
+    CAFSRouter,
+    HashingStream,
+    LineageTracker,
+    LocalKeyFileProvider,
+    GCSBlobStore,
+    LocalBlobStore,
+    MemoryBlobStore,
+    FirestoreMetadataStore,
+    MemoryMetadataStore,
+    RetryingBlobStore,
+    PrefixedBlobStore,
+    RetryingMetadataStore,
+    createStorageClient,
+    createGCSUtils,
+    createCAFS
+};
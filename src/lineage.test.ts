@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { CAFS } from './cafs.js';
+import { NotFoundError } from './errors.js';
+import { MemoryBlobStore } from './stores/memory-blob-store.js';
+import { MemoryMetadataStore } from './stores/memory-metadata-store.js';
+
+describe('lineage', () => {
+    let cafs: CAFS;
+
+    beforeEach(() => {
+        cafs = new CAFS({ bucketName: 'test-bucket' }, {
+            blobStore: new MemoryBlobStore(),
+            metadataStore: new MemoryMetadataStore()
+        });
+    });
+
+    it('records outputs when storing and inputs on request, and answers queries over them', async () => {
+        const raw = await cafs.storeContent({ id: 'raw', typeId: 'data', roleId: 'dataset', executionId: 'ingest' }, 'raw');
+        await cafs.lineage.recordInputs('train', [{ typeId: 'data', resourceId: 'raw', roleId: 'training-set' }]);
+        await cafs.storeContent({ id: 'model', typeId: 'model', roleId: 'model', executionId: 'train' }, 'weights');
+
+        expect((await cafs.lineage.getInputs('train'))[0]).toMatchObject({ resourceId: 'raw', contentHash: raw.contentHash });
+        expect((await cafs.lineage.getOutputs('train')).map(edge => edge.resourceId)).toEqual(['model']);
+        expect(await cafs.lineage.getProducers(raw.contentHash)).toEqual(['ingest']);
+        expect(await cafs.lineage.getConsumers(raw.contentHash)).toEqual(['train']);
+
+        const graph = await cafs.lineage.getAncestry('model', 'model');
+        expect(graph.nodes.map(node => node.id).sort()).toEqual([
+            'execution:ingest',
+            'execution:train',
+            'resource:data/raw',
+            'resource:model/model'
+        ]);
+        expect(graph.edges).toContainEqual({ from: 'resource:data/raw', to: 'execution:train', roleId: 'training-set' });
+        expect(cafs.lineage.toDot(graph)).toContain('digraph');
+        expect(JSON.parse(cafs.lineage.toJSON(graph)).nodes).toHaveLength(4);
+    });
+
+    it('follows the latest execution that stored a resource', async () => {
+        const first = await cafs.storeContent({ id: 'report', typeId: 'doc', roleId: 'report', executionId: 'nightly-1' }, 'v1');
+        const second = await cafs.storeContent({ id: 'report', typeId: 'doc', roleId: 'report', executionId: 'nightly-2' }, 'v2');
+        await cafs.lineage.recordInputs('publish', [{ typeId: 'doc', resourceId: 'report', roleId: 'source' }]);
+
+        expect(await cafs.lineage.getProducers(first.contentHash)).toEqual(['nightly-1']);
+        expect(await cafs.lineage.getProducers(second.contentHash)).toEqual(['nightly-2']);
+        expect((await cafs.lineage.getInputs('publish'))[0].contentHash).toBe(second.contentHash);
+
+        const graph = await cafs.lineage.getAncestry('doc', 'report');
+        expect(graph.nodes).toContainEqual(expect.objectContaining({ id: 'resource:doc/report', contentHash: second.contentHash }));
+        expect(graph.edges).toEqual([{ from: 'execution:nightly-2', to: 'resource:doc/report', roleId: 'report' }]);
+    });
+
+    it('answers queries about unknown executions and content with nothing', async () => {
+        expect(await cafs.lineage.getInputs('unknown')).toEqual([]);
+        expect(await cafs.lineage.getOutputs('unknown')).toEqual([]);
+        expect(await cafs.lineage.getProducers('0'.repeat(64))).toEqual([]);
+        expect(await cafs.lineage.getConsumers('0'.repeat(64))).toEqual([]);
+    });
+
+    it('keeps consumed resources without a known producer as roots of the ancestry', async () => {
+        await cafs.lineage.recordInputs('train', [{ typeId: 'data', resourceId: 'external', roleId: 'training-set' }]);
+        await cafs.storeContent({ id: 'model', typeId: 'model', roleId: 'model', executionId: 'train' }, 'weights');
+
+        expect((await cafs.lineage.getInputs('train'))[0].contentHash).toBe('');
+        const graph = await cafs.lineage.getAncestry('model', 'model');
+        expect(graph.nodes.map(node => node.id).sort()).toEqual(['execution:train', 'resource:data/external', 'resource:model/model']);
+    });
+
+    it('reports the ancestry of a missing resource as NotFoundError', async () => {
+        await expect(cafs.lineage.getAncestry('doc', 'missing')).rejects.toBeInstanceOf(NotFoundError);
+    });
+});
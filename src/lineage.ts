@@ -0,0 +1,198 @@
+import { NotFoundError } from './errors.js';
+import {
+    LineageEdge,
+    LineageGraph,
+    LineageInput,
+    LineageNode,
+    MetadataStore
+} from './types/index.js';
+
+/**
+ * Records which resources each execution consumed and produced, and answers
+ * lineage queries over them
+ */
+export class LineageTracker {
+    private metadataStore: MetadataStore;
+
+    constructor(metadataStore: MetadataStore) {
+        this.metadataStore = metadataStore;
+    }
+
+    /**
+     * Records resources produced by executions
+     * @param edges The output edges
+     */
+    async recordOutputs(edges: Omit<LineageEdge, 'direction'>[]): Promise<void> {
+        await this.metadataStore.putLineageEdges(edges.map(edge => ({ ...edge, direction: 'output' })));
+    }
+
+    /**
+     * Records resources consumed by an execution
+     * @param executionId The consuming execution
+     * @param inputs The consumed resources
+     */
+    async recordInputs(executionId: string, inputs: LineageInput[]): Promise<void> {
+        const timestamp = new Date().toISOString();
+        const edges: LineageEdge[] = [];
+
+        for (const input of inputs) {
+            const contentHash = input.contentHash ?? (await this.getProducingEdge(input.typeId, input.resourceId))?.contentHash ?? '';
+            edges.push({
+                executionId,
+                direction: 'input',
+                typeId: input.typeId,
+                resourceId: input.resourceId,
+                roleId: input.roleId,
+                contentHash,
+                timestamp
+            });
+        }
+
+        await this.metadataStore.putLineageEdges(edges);
+    }
+
+    /**
+     * Lists the resources an execution produced
+     * @param executionId The execution
+     * @returns The output edges
+     */
+    async getOutputs(executionId: string): Promise<LineageEdge[]> {
+        return await this.metadataStore.queryLineageEdges({ executionId, direction: 'output' });
+    }
+
+    /**
+     * Lists the resources an execution consumed
+     * @param executionId The execution
+     * @returns The input edges
+     */
+    async getInputs(executionId: string): Promise<LineageEdge[]> {
+        return await this.metadataStore.queryLineageEdges({ executionId, direction: 'input' });
+    }
+
+    /**
+     * Lists the executions that produced content with a given hash
+     * @param contentHash The SHA-256 hash of the content
+     * @returns The distinct execution IDs
+     */
+    async getProducers(contentHash: string): Promise<string[]> {
+        const edges = await this.metadataStore.queryLineageEdges({ contentHash, direction: 'output' });
+        return [...new Set(edges.map(edge => edge.executionId))];
+    }
+
+    /**
+     * Lists the executions that consumed content with a given hash
+     * @param contentHash The SHA-256 hash of the content
+     * @returns The distinct execution IDs
+     */
+    async getConsumers(contentHash: string): Promise<string[]> {
+        const edges = await this.metadataStore.queryLineageEdges({ contentHash, direction: 'input' });
+        return [...new Set(edges.map(edge => edge.executionId))];
+    }
+
+    /**
+     * Builds the full upstream ancestry of a resource: the execution that produced it,
+     * that execution's inputs, the executions that produced those, and so on
+     * @param typeId The type of the resource
+     * @param resourceId The ID of the resource
+     * @returns The ancestry graph
+     * @throws NotFoundError if the resource was neither stored nor produced by any execution
+     */
+    async getAncestry(typeId: string, resourceId: string): Promise<LineageGraph> {
+        const nodes = new Map<string, LineageNode>();
+        const edges: LineageGraph['edges'] = [];
+        const rootNodeId = this.resourceNodeId(typeId, resourceId);
+        const pending: { typeId: string; resourceId: string; contentHash?: string }[] = [{ typeId, resourceId }];
+
+        while (pending.length > 0) {
+            const resource = pending.shift() as { typeId: string; resourceId: string; contentHash?: string };
+            const resourceNodeId = this.resourceNodeId(resource.typeId, resource.resourceId);
+            if (nodes.has(resourceNodeId)) continue;
+
+            const produced = await this.getProducingEdge(resource.typeId, resource.resourceId);
+            nodes.set(resourceNodeId, {
+                id: resourceNodeId,
+                kind: 'resource',
+                typeId: resource.typeId,
+                resourceId: resource.resourceId,
+                contentHash: produced?.contentHash || resource.contentHash
+            });
+
+            // Resources stored before lineage was recorded still name their execution
+            const executionId = produced?.executionId
+                ?? (await this.metadataStore.getMember(resource.typeId, resource.resourceId))?.executionId;
+            if (!executionId) {
+                // Consumed resources of unknown origin are roots of the graph; the resource asked about must exist
+                if (resourceNodeId === rootNodeId) {
+                    throw new NotFoundError(`Resource ${typeId}/${resourceId} does not exist`, { operation: 'getAncestry' });
+                }
+                continue;
+            }
+
+            const executionNodeId = this.executionNodeId(executionId);
+            edges.push({ from: executionNodeId, to: resourceNodeId, roleId: produced?.roleId ?? '' });
+            if (nodes.has(executionNodeId)) continue;
+
+            nodes.set(executionNodeId, { id: executionNodeId, kind: 'execution', executionId });
+            for (const input of await this.getInputs(executionId)) {
+                edges.push({
+                    from: this.resourceNodeId(input.typeId, input.resourceId),
+                    to: executionNodeId,
+                    roleId: input.roleId
+                });
+                pending.push({ typeId: input.typeId, resourceId: input.resourceId, contentHash: input.contentHash });
+            }
+        }
+
+        return { nodes: [...nodes.values()], edges };
+    }
+
+    /**
+     * Renders a lineage graph in Graphviz DOT format
+     * @param graph The graph
+     * @returns The DOT source
+     */
+    toDot(graph: LineageGraph): string {
+        const quote = (value: string): string => JSON.stringify(value);
+        const lines = ['digraph lineage {', '    rankdir=LR;'];
+
+        for (const node of graph.nodes) {
+            const label = node.kind === 'execution'
+                ? node.executionId as string
+                : `${node.typeId}/${node.resourceId}${node.contentHash ? `\n${node.contentHash.slice(0, 12)}` : ''}`;
+            const shape = node.kind === 'execution' ? 'box' : 'ellipse';
+            lines.push(`    ${quote(node.id)} [label=${quote(label)}, shape=${shape}];`);
+        }
+        for (const edge of graph.edges) {
+            lines.push(`    ${quote(edge.from)} -> ${quote(edge.to)} [label=${quote(edge.roleId)}];`);
+        }
+
+        lines.push('}');
+        return lines.join('\n');
+    }
+
+    /**
+     * Renders a lineage graph as JSON
+     * @param graph The graph
+     * @returns The JSON source
+     */
+    toJSON(graph: LineageGraph): string {
+        return JSON.stringify(graph, null, 2);
+    }
+
+    private async getProducingEdge(typeId: string, resourceId: string): Promise<LineageEdge | undefined> {
+        const edges = await this.metadataStore.queryLineageEdges({ typeId, resourceId, direction: 'output' });
+        // A resource stored again by a later execution holds the content of that execution
+        return edges.reduce<LineageEdge | undefined>(
+            (latest, edge) => (!latest || edge.timestamp >= latest.timestamp ? edge : latest),
+            undefined
+        );
+    }
+
+    private resourceNodeId(typeId: string, resourceId: string): string {
+        return `resource:${typeId}/${resourceId}`;
+    }
+
+    private executionNodeId(executionId: string): string {
+        return `execution:${executionId}`;
+    }
+}
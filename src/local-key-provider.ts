@@ -0,0 +1,123 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import { GCSUtilsError, wrapError } from './errors.js';
+import { KeyProvider, WrappedKey } from './types/index.js';
+
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Contents of a key file: base64 encoded 256-bit keys by ID, and the ID of the key new data keys are wrapped with
+ */
+interface KeyFile {
+    currentKeyId: string;
+    keys: Record<string, string>;
+}
+
+/**
+ * Key provider wrapping data keys with AES-256-GCM keys kept in a local JSON file, intended for
+ * development. To rotate, add a key to the file and make it the current one; content encrypted
+ * with older keys stays readable as long as they remain in the file.
+ */
+export class LocalKeyFileProvider implements KeyProvider {
+    private path: string;
+    private keyFile?: Promise<KeyFile>;
+
+    /**
+     * @param path Path of the key file
+     */
+    constructor(path: string) {
+        this.path = path;
+    }
+
+    /**
+     * Creates a key file holding a single new key, readable by the current user only
+     * @param path Path of the key file (must not exist yet)
+     * @param keyId ID of the key
+     */
+    static async createKeyFile(path: string, keyId: string = 'local-1'): Promise<void> {
+        const keyFile: KeyFile = { currentKeyId: keyId, keys: { [keyId]: randomBytes(KEY_LENGTH).toString('base64') } };
+        try {
+            await fs.writeFile(path, JSON.stringify(keyFile, null, 2), { flag: 'wx', mode: 0o600 });
+        } catch (error) {
+            throw wrapError(error, `Failed to create key file ${path}`, { operation: 'createKeyFile', path });
+        }
+    }
+
+    async wrapKey(dataKey: Buffer): Promise<WrappedKey> {
+        const keyFile = await this.load();
+        const key = this.keyOf(keyFile, keyFile.currentKeyId);
+        const iv = randomBytes(IV_LENGTH);
+        const cipher = createCipheriv('aes-256-gcm', key, iv);
+        const encrypted = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+        return {
+            keyId: keyFile.currentKeyId,
+            wrappedKey: Buffer.concat([iv, cipher.getAuthTag(), encrypted])
+        };
+    }
+
+    async unwrapKey(wrapped: WrappedKey): Promise<Buffer> {
+        const key = this.keyOf(await this.load(), wrapped.keyId);
+        const { wrappedKey } = wrapped;
+        try {
+            const decipher = createDecipheriv('aes-256-gcm', key, wrappedKey.subarray(0, IV_LENGTH));
+            decipher.setAuthTag(wrappedKey.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+            return Buffer.concat([decipher.update(wrappedKey.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+        } catch (error) {
+            // Not a DecryptionError: a key file holding the wrong key must not make content look corrupt
+            throw new GCSUtilsError(`Key ${wrapped.keyId} of ${this.path} does not unwrap the data key`, {
+                operation: 'unwrapKey',
+                path: this.path,
+                cause: error
+            });
+        }
+    }
+
+    /**
+     * Loads and validates the key file once
+     * @returns The key file
+     */
+    private async load(): Promise<KeyFile> {
+        this.keyFile ??= this.read().catch(error => {
+            this.keyFile = undefined;
+            throw error;
+        });
+        return await this.keyFile;
+    }
+
+    private async read(): Promise<KeyFile> {
+        let keyFile: KeyFile;
+        try {
+            keyFile = JSON.parse(await fs.readFile(this.path, 'utf8')) as KeyFile;
+        } catch (error) {
+            throw wrapError(error, `Failed to read key file ${this.path}`, { operation: 'loadKeys', path: this.path });
+        }
+        if (typeof keyFile?.currentKeyId !== 'string' || typeof keyFile.keys !== 'object' || !keyFile.keys) {
+            throw new GCSUtilsError(`Key file ${this.path} must have a currentKeyId and keys`, {
+                operation: 'loadKeys',
+                path: this.path
+            });
+        }
+        this.keyOf(keyFile, keyFile.currentKeyId);
+        return keyFile;
+    }
+
+    /**
+     * Gets a key of the key file
+     * @param keyFile The key file
+     * @param keyId ID of the key
+     * @returns The key
+     */
+    private keyOf(keyFile: KeyFile, keyId: string): Buffer {
+        const encoded = Object.prototype.hasOwnProperty.call(keyFile.keys, keyId) ? keyFile.keys[keyId] : undefined;
+        const key = typeof encoded === 'string' ? Buffer.from(encoded, 'base64') : undefined;
+        if (!key || key.length !== KEY_LENGTH) {
+            throw new GCSUtilsError(`Key file ${this.path} has no valid 256-bit key ${keyId}`, {
+                operation: 'loadKeys',
+                path: this.path
+            });
+        }
+        return key;
+    }
+}
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { CAFS } from './cafs.js';
+import { MemoryBlobStore } from './stores/memory-blob-store.js';
+import { MemoryMetadataStore } from './stores/memory-metadata-store.js';
+import { RetentionPolicy, StoreContentMeta } from './types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function meta(id: string, extra: Partial<StoreContentMeta> = {}): StoreContentMeta {
+    return { id, typeId: 'doc', roleId: 'output', executionId: 'exec-1', ...extra };
+}
+
+describe('retention', () => {
+    let blobStore: MemoryBlobStore;
+    let cafs: CAFS;
+    const later = new Date(Date.now() + 40 * DAY_MS);
+
+    beforeEach(() => {
+        blobStore = new MemoryBlobStore();
+        cafs = new CAFS({ bucketName: 'test-bucket' }, { blobStore, metadataStore: new MemoryMetadataStore() });
+    });
+
+    it('expires idle resources and deletes content once all of them expire', async () => {
+        const { contentHash, storagePath } = await cafs.storeContent(meta('r1', { tags: ['scratch'] }), 'idle');
+        const policy: RetentionPolicy = { rules: [{ name: 'scratch', tag: 'scratch', action: 'delete', afterDays: 30 }] };
+
+        const preview = await cafs.applyRetention('doc', policy, { now: later });
+        expect(preview.decisions.map(decision => [decision.kind, decision.action])).toEqual([
+            ['expire-resource', 'none'],
+            ['delete-content', 'none']
+        ]);
+        expect(await blobStore.exists(storagePath)).toBe(true);
+
+        const report = await cafs.applyRetention('doc', policy, { dryRun: false, now: later });
+        expect(report.reclaimedBytes).toBe(4);
+        expect(await blobStore.exists(storagePath)).toBe(false);
+        expect(await cafs.getCAFSEntry('doc', contentHash)).toBeNull();
+        expect(await cafs.findResources({ typeId: 'doc' })).toEqual([]);
+    });
+
+    it('keeps content that a resource governed by a keep rule still references', async () => {
+        const { storagePath } = await cafs.storeContent(meta('r1', { tags: ['keep'] }), 'shared');
+        await cafs.storeContent(meta('r2'), 'shared');
+        const policy: RetentionPolicy = {
+            rules: [{ name: 'keep', tag: 'keep', action: 'keep' }, { name: 'rest', action: 'delete' }]
+        };
+
+        const report = await cafs.applyRetention('doc', policy, { dryRun: false, now: later });
+        expect(report.decisions.map(decision => [decision.kind, decision.resourceId])).toEqual([['expire-resource', 'r2']]);
+        expect(await blobStore.exists(storagePath)).toBe(true);
+    });
+
+    it('holds content under legal hold and tiers idle content', async () => {
+        const held = await cafs.storeContent(meta('r1'), 'held');
+        const cold = await cafs.storeContent(meta('r2', { roleId: 'archive' }), 'cold');
+        await cafs.setLegalHold('doc', held.contentHash, true);
+        const policy: RetentionPolicy = {
+            rules: [
+                { name: 'archive', roleId: 'archive', action: 'tier', afterDays: 30, storageClass: 'COLDLINE' },
+                { name: 'rest', action: 'delete', afterDays: 30 }
+            ]
+        };
+
+        const report = await cafs.applyRetention('doc', policy, { dryRun: false, now: later });
+        expect(report.decisions.map(decision => decision.kind).sort()).toEqual(['held', 'tier']);
+        expect(report.tieredBytes).toBe(4);
+        expect(await blobStore.exists(held.storagePath)).toBe(true);
+        expect((await blobStore.getMetadata(cold.storagePath)).storageClass).toBe('COLDLINE');
+    });
+
+    it('rejects invalid rules', async () => {
+        await expect(cafs.applyRetention('doc', { rules: [{ name: 'tier', action: 'tier' }] }))
+            .rejects.toThrow('Invalid retention rule tier');
+    });
+});
@@ -0,0 +1,255 @@
+import { GCSUtils } from './gcs-utils.js';
+import { GCSUtilsError, NotFoundError, wrapError } from './errors.js';
+import { toTime } from './stores/cafs-entries.js';
+import {
+    BlobMetadata,
+    CAFSEntry,
+    MetadataStore,
+    ResourceMemberRecord,
+    RetentionDecision,
+    RetentionOptions,
+    RetentionPolicy,
+    RetentionReport,
+    RetentionRule
+} from './types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RULE_ACTIONS = ['keep', 'delete', 'tier'];
+
+/** Removes a resource and its reference to content, deleting the content once no resource references it */
+type ResourceExpirer = (typeId: string, contentHash: string, resourceId: string) => Promise<void>;
+
+/**
+ * Labels of a resource that retention rules match against
+ */
+interface ResourceLabels {
+    tags: string[];
+    roleId?: string;
+    executionId?: string;
+}
+
+/**
+ * A resource referencing content, and the rule governing it
+ */
+interface Governed {
+    resourceId: string;
+    rule?: RetentionRule;
+}
+
+/**
+ * Applies retention policies to the content of a type. Every resource referencing content is
+ * governed by the first rule matching it, and rules act once the content has been idle (not
+ * accessed) for long enough. Content is only deleted when every resource referencing it
+ * expires, and never while it is under legal hold.
+ */
+export class RetentionEvaluator {
+    private gcsUtils: GCSUtils;
+    private metadataStore: MetadataStore;
+    private expireResource: ResourceExpirer;
+
+    /**
+     * @param gcsUtils Access to the stored blobs
+     * @param metadataStore The metadata store
+     * @param expireResource Removes a resource and its reference to content
+     */
+    constructor(gcsUtils: GCSUtils, metadataStore: MetadataStore, expireResource: ResourceExpirer) {
+        this.gcsUtils = gcsUtils;
+        this.metadataStore = metadataStore;
+        this.expireResource = expireResource;
+    }
+
+    /**
+     * Evaluates a policy against the content of a type, applying its decisions unless in dry-run mode.
+     * Failed actions are reported with their decision and do not stop the run.
+     * @param typeId The type whose content is evaluated
+     * @param policy The retention policy
+     * @param options Optional dry-run flag (default: true) and evaluation time
+     * @returns The retention report
+     * @throws GCSUtilsError if a rule of the policy is invalid
+     */
+    async run(typeId: string, policy: RetentionPolicy, options: RetentionOptions = {}): Promise<RetentionReport> {
+        policy.rules.forEach(validateRule);
+        const rules = policy.rules.filter(rule => rule.typeId === undefined || rule.typeId === typeId);
+        const dryRun = options.dryRun ?? true;
+        const now = (options.now ?? new Date()).getTime();
+
+        const members = await this.metadataStore.queryMembers({ typeId });
+        const membersById = new Map<string, ResourceMemberRecord>(members.map(member => [member.id, member]));
+        const entries = await this.metadataStore.queryCAFSEntries(typeId);
+
+        const report: RetentionReport = {
+            typeId,
+            dryRun,
+            scannedEntries: entries.length,
+            decisions: [],
+            reclaimedBytes: 0,
+            tieredBytes: 0
+        };
+
+        for (const entry of entries) {
+            // Unreferenced entries are left to garbage collection
+            if (entry.referencedBy.length === 0) continue;
+
+            const governed = entry.referencedBy.map(resourceId => ({
+                resourceId,
+                rule: rules.find(rule => matches(rule, labelsOf(entry, resourceId, membersById.get(resourceId))))
+            }));
+            await this.evaluate(report, typeId, entry, governed, now);
+        }
+
+        return report;
+    }
+
+    /**
+     * Decides what happens to content and the resources referencing it
+     * @param report The report to add the decisions to
+     * @param typeId The type of the content
+     * @param entry The CAFS entry of the content
+     * @param governed The resources referencing the content and their rules
+     * @param now Time idle periods are measured up to
+     */
+    private async evaluate(
+        report: RetentionReport,
+        typeId: string,
+        entry: CAFSEntry,
+        governed: Governed[],
+        now: number
+    ): Promise<void> {
+        const { contentHash, gcsPath } = entry;
+        const idleDays = (now - toTime(entry.metadata.lastAccessedAt)) / DAY_MS;
+        const idle = `Content idle for ${Math.floor(idleDays)} days`;
+        const due = (action: string) => (item: Governed): boolean =>
+            item.rule?.action === action && idleDays >= (item.rule.afterDays ?? 0);
+
+        let expiring = governed.filter(due('delete'));
+        if (expiring.length > 0 && entry.metadata.legalHold) {
+            report.decisions.push({
+                kind: 'held',
+                rule: (expiring[0].rule as RetentionRule).name,
+                contentHash,
+                path: gcsPath,
+                detail: `${expiring.length} of ${governed.length} resources would expire, but the content is under legal hold`,
+                action: 'none'
+            });
+            expiring = [];
+        }
+
+        const deletesContent = expiring.length > 0 && expiring.length === governed.length;
+        const blob = deletesContent || governed.some(due('tier')) ? await this.findBlob(gcsPath) : null;
+
+        for (const { resourceId, rule } of expiring) {
+            await this.apply(report, {
+                kind: 'expire-resource',
+                rule: (rule as RetentionRule).name,
+                contentHash,
+                resourceId,
+                detail: idle,
+                action: 'none'
+            }, () => this.expireResource(typeId, contentHash, resourceId));
+        }
+
+        if (deletesContent) {
+            const decision: RetentionDecision = {
+                kind: 'delete-content',
+                rule: (expiring[0].rule as RetentionRule).name,
+                contentHash,
+                path: gcsPath,
+                bytes: blob?.size ?? 0,
+                detail: `Every resource referencing the content expires (${governed.length})`,
+                action: 'none'
+            };
+            if (!report.dryRun && !(await this.metadataStore.getCAFSEntry(typeId, contentHash))) {
+                decision.action = 'applied';
+                report.reclaimedBytes += decision.bytes as number;
+            }
+            report.decisions.push(decision);
+            return;
+        }
+
+        const tiering = governed.filter(item => !expiring.includes(item)).find(due('tier'));
+        const storageClass = tiering?.rule?.storageClass as string;
+        if (!tiering || !blob || blob.storageClass?.toUpperCase() === storageClass.toUpperCase()) {
+            return;
+        }
+        const tiered = await this.apply(report, {
+            kind: 'tier',
+            rule: (tiering.rule as RetentionRule).name,
+            contentHash,
+            path: gcsPath,
+            storageClass,
+            bytes: blob.size,
+            detail: `${idle}, stored as ${blob.storageClass || 'unknown'}`,
+            action: 'none'
+        }, () => this.gcsUtils.setStorageClass(gcsPath, storageClass));
+        if (tiered) {
+            report.tieredBytes += blob.size;
+        }
+    }
+
+    /**
+     * Records a decision and applies it unless in dry-run mode
+     * @param report The report to add the decision to
+     * @param decision The decision
+     * @param action Applies the decision
+     * @returns Whether the decision was applied
+     */
+    private async apply(report: RetentionReport, decision: RetentionDecision, action: () => Promise<void>): Promise<boolean> {
+        if (!report.dryRun) {
+            try {
+                await action();
+                decision.action = 'applied';
+            } catch (error) {
+                decision.action = 'failed';
+                decision.error = wrapError(error, 'Retention action failed', { operation: 'applyRetention' }).message;
+            }
+        }
+        report.decisions.push(decision);
+        return decision.action === 'applied';
+    }
+
+    private async findBlob(path: string): Promise<BlobMetadata | null> {
+        try {
+            return await this.gcsUtils.getFileMetadata(path);
+        } catch (error) {
+            if (error instanceof NotFoundError) return null;
+            throw error;
+        }
+    }
+}
+
+/**
+ * Checks that a retention rule is complete
+ * @param rule The rule
+ * @throws GCSUtilsError if the rule is invalid
+ */
+function validateRule(rule: RetentionRule): void {
+    const invalid = (reason: string): GCSUtilsError =>
+        new GCSUtilsError(`Invalid retention rule ${rule.name || '(unnamed)'}: ${reason}`, { operation: 'applyRetention' });
+
+    if (!rule.name) throw invalid('a name is required');
+    if (!RULE_ACTIONS.includes(rule.action)) throw invalid(`unknown action ${rule.action}`);
+    if (rule.afterDays !== undefined && !(rule.afterDays >= 0)) throw invalid('afterDays must not be negative');
+    if (rule.action === 'tier' && !rule.storageClass) throw invalid('tier rules need a storageClass');
+}
+
+/**
+ * Gets the labels of a resource referencing content, from its member record if it still
+ * has one and from the reference recorded on the CAFS entry otherwise
+ * @param entry The CAFS entry
+ * @param resourceId ID of the referencing resource
+ * @param member The member record of the resource, if any
+ * @returns The labels
+ */
+function labelsOf(entry: CAFSEntry, resourceId: string, member?: ResourceMemberRecord): ResourceLabels {
+    if (member) {
+        return { tags: member.tags || [], roleId: member.roleId, executionId: member.executionId };
+    }
+    return { tags: [], ...entry.references?.[resourceId] };
+}
+
+function matches(rule: RetentionRule, labels: ResourceLabels): boolean {
+    return (rule.tag === undefined || labels.tags.includes(rule.tag)) &&
+        (rule.roleId === undefined || labels.roleId === rule.roleId) &&
+        (rule.executionId === undefined || labels.executionId === rule.executionId);
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { ConflictError, NotFoundError, PermissionError, TimeoutError, TransientError, wrapError } from './errors.js';
+import { isRetryableError, withRetry, withTimeout } from './retry.js';
+
+function codeError(code: number | string): Error {
+    return Object.assign(new Error(`failed with ${code}`), { code });
+}
+
+describe('wrapError', () => {
+    it('chooses the error class from the code of the underlying error', () => {
+        expect(wrapError(codeError(404), 'Failed')).toBeInstanceOf(NotFoundError);
+        expect(wrapError(codeError('EACCES'), 'Failed')).toBeInstanceOf(PermissionError);
+        expect(wrapError(codeError(14), 'Failed')).toBeInstanceOf(TransientError);
+        expect(wrapError(codeError(412), 'Failed')).toBeInstanceOf(ConflictError);
+    });
+
+    it('keeps SDK errors and records the cause of others', () => {
+        const sdkError = new NotFoundError('gone');
+        expect(wrapError(sdkError, 'Failed')).toBe(sdkError);
+
+        const cause = codeError(503);
+        const wrapped = wrapError(cause, 'Failed to read', { operation: 'read', path: 'a/b' });
+        expect(wrapped).toMatchObject({ message: 'Failed to read: failed with 503', operation: 'read', path: 'a/b', cause });
+    });
+});
+
+describe('withRetry', () => {
+    const policy = { initialDelayMs: 1, maxDelayMs: 1, timeoutMs: 0 };
+
+    it('retries transient failures until an attempt succeeds', async () => {
+        let attempts = 0;
+        const result = await withRetry(async () => {
+            if (++attempts < 3) throw codeError(503);
+            return 'ok';
+        }, policy, 'read');
+
+        expect(result).toBe('ok');
+        expect(attempts).toBe(3);
+    });
+
+    it('rethrows permanent failures and the last transient failure unchanged', async () => {
+        let attempts = 0;
+        const permanent = codeError(404);
+        await expect(withRetry(async () => {
+            attempts++;
+            throw permanent;
+        }, policy, 'read')).rejects.toBe(permanent);
+        expect(attempts).toBe(1);
+
+        attempts = 0;
+        await expect(withRetry(async () => {
+            attempts++;
+            throw codeError(503);
+        }, { ...policy, maxAttempts: 2 }, 'read')).rejects.toThrow('failed with 503');
+        expect(attempts).toBe(2);
+    });
+
+    it('limits the time of each attempt', async () => {
+        await expect(withTimeout(new Promise(() => undefined), 5, 'read')).rejects.toBeInstanceOf(TimeoutError);
+        expect(isRetryableError(new TimeoutError(5))).toBe(true);
+        expect(isRetryableError(new ConflictError('lost'))).toBe(false);
+    });
+});
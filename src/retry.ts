@@ -0,0 +1,98 @@
+import { TimeoutError, TransientError, wrapError } from './errors.js';
+import { RetryPolicy } from './types/index.js';
+
+/** Policy used for any setting a retry policy leaves out */
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+    maxAttempts: 4,
+    initialDelayMs: 100,
+    maxDelayMs: 5000,
+    multiplier: 2,
+    timeoutMs: 60000,
+    isRetryable: isRetryableError
+};
+
+/**
+ * Classifies an error as transient: timeouts, throttling, server errors and network failures.
+ * Errors raised by the SDK itself (conflicts, integrity and validation errors) are never retried.
+ * @param error The error
+ * @returns Whether the failed call may succeed if retried
+ */
+export function isRetryableError(error: unknown): boolean {
+    return wrapError(error, 'Call failed') instanceof TransientError;
+}
+
+/**
+ * Rejects with a TimeoutError if a call does not settle in time.
+ * The call itself cannot be cancelled and keeps running in the background.
+ * @param promise The pending call
+ * @param timeoutMs Time limit in milliseconds, 0 for none
+ * @param operation Name of the operation
+ * @param path Storage path involved, if any
+ * @returns The result of the call
+ */
+export async function withTimeout<T>(
+    promise: Promise<T>,
+    timeoutMs: number,
+    operation: string,
+    path?: string
+): Promise<T> {
+    if (!timeoutMs) return await promise;
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new TimeoutError(timeoutMs, { operation, path })), timeoutMs);
+    });
+    try {
+        return await Promise.race([promise, timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Fills in the settings a retry policy leaves out
+ * @param policy The retry policy
+ * @returns The complete policy
+ */
+export function resolveRetryPolicy(policy: RetryPolicy = {}): Required<RetryPolicy> {
+    return {
+        maxAttempts: policy.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts,
+        initialDelayMs: policy.initialDelayMs ?? DEFAULT_RETRY_POLICY.initialDelayMs,
+        maxDelayMs: policy.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+        multiplier: policy.multiplier ?? DEFAULT_RETRY_POLICY.multiplier,
+        timeoutMs: policy.timeoutMs ?? DEFAULT_RETRY_POLICY.timeoutMs,
+        isRetryable: policy.isRetryable ?? DEFAULT_RETRY_POLICY.isRetryable
+    };
+}
+
+/**
+ * Runs a call under a retry policy: each attempt is time-limited, and attempts that fail
+ * with a retryable error are repeated after an exponentially growing, jittered delay.
+ * The error of the last attempt is rethrown unchanged.
+ * @param fn The call; it must be safe to repeat
+ * @param policy The retry policy (missing settings use DEFAULT_RETRY_POLICY)
+ * @param operation Name of the operation
+ * @param path Storage path involved, if any
+ * @returns The result of the first successful attempt
+ */
+export async function withRetry<T>(
+    fn: () => Promise<T>,
+    policy: RetryPolicy,
+    operation: string,
+    path?: string
+): Promise<T> {
+    const { maxAttempts, initialDelayMs, maxDelayMs, multiplier, timeoutMs, isRetryable } = resolveRetryPolicy(policy);
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await withTimeout(fn(), timeoutMs, operation, path);
+        } catch (error) {
+            if (attempt >= maxAttempts || !isRetryable(error)) {
+                throw error;
+            }
+            // Equal jitter: wait between half and all of the capped exponential delay
+            const delayMs = Math.min(maxDelayMs, initialDelayMs * multiplier ** (attempt - 1));
+            await new Promise(resolve => setTimeout(resolve, delayMs / 2 + Math.random() * delayMs / 2));
+        }
+    }
+}
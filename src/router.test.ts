@@ -0,0 +1,146 @@
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { CAFSRouter } from './router.js';
+import { NotFoundError } from './errors.js';
+import { LocalBlobStore } from './stores/local-blob-store.js';
+import { MemoryBlobStore } from './stores/memory-blob-store.js';
+import { MemoryMetadataStore } from './stores/memory-metadata-store.js';
+import { CAFSRoutingConfig, ResolvedRoute, RouteBackendFactory, StorageBackends, StoreContentMeta } from './types/index.js';
+
+/**
+ * Backends shared by the routes of the same bucket and collection, like GCS and Firestore would be
+ */
+function memoryBackends(): { factory: RouteBackendFactory; buckets: Map<string, MemoryBlobStore> } {
+    const buckets = new Map<string, MemoryBlobStore>();
+    const collections = new Map<string, MemoryMetadataStore>();
+    const factory = (route: ResolvedRoute): StorageBackends => {
+        if (!buckets.has(route.bucketName)) buckets.set(route.bucketName, new MemoryBlobStore());
+        if (!collections.has(route.metadataCollection)) collections.set(route.metadataCollection, new MemoryMetadataStore());
+        return { blobStore: buckets.get(route.bucketName), metadataStore: collections.get(route.metadataCollection) };
+    };
+    return { factory, buckets };
+}
+
+const CONFIG: CAFSRoutingConfig = {
+    defaults: { bucketName: 'shared-bucket' },
+    types: { media: { bucketName: 'media-bucket' } },
+    tenants: {
+        a: {},
+        b: { bucketName: 'b-bucket', keyPrefix: '', types: { doc: { keyPrefix: 'docs' } } }
+    }
+};
+
+function meta(id: string, typeId: string = 'doc'): StoreContentMeta {
+    return { id, typeId, roleId: 'output', executionId: 'exec-1' };
+}
+
+describe('CAFSRouter', () => {
+    it('resolves the routes of tenants and their types', () => {
+        const router = new CAFSRouter(CONFIG, memoryBackends().factory);
+
+        expect(router.resolve('a')).toEqual({
+            tenantId: 'a', bucketName: 'shared-bucket', metadataCollection: 'tenants/a/resources', keyPrefix: 'a/'
+        });
+        expect(router.resolve('a', 'media').bucketName).toBe('media-bucket');
+        expect(router.resolve('b', 'doc')).toMatchObject({ bucketName: 'b-bucket', keyPrefix: 'docs/' });
+        expect(router.resolve('b', 'media')).toMatchObject({ bucketName: 'b-bucket', keyPrefix: '' });
+        expect(() => router.resolve('c')).toThrow(NotFoundError);
+    });
+
+    it('keeps the content of tenants apart, even for identical content', async () => {
+        const { factory, buckets } = memoryBackends();
+        const router = new CAFSRouter({ defaults: { bucketName: 'shared-bucket' }, tenants: { a: {}, b: {} } }, factory);
+
+        const stored = await router.cafs('a', 'doc').storeContent(meta('r1'), 'same');
+        const other = await router.cafs('b', 'doc').storeContent(meta('r1'), 'same');
+
+        expect(other.deduplicated).toBe(false);
+        expect(await buckets.get('shared-bucket')?.list()).toEqual([`a/${stored.storagePath}`, `b/${other.storagePath}`]);
+        await router.cafs('a', 'doc').deleteContent('doc', stored.contentHash, { resourceId: 'r1' });
+        expect(await router.cafs('b', 'doc').retrieveContent('doc', other.contentHash)).toBe('same');
+        await expect(router.cafs('a', 'doc').retrieveContent('doc', stored.contentHash)).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('totals the usage of a tenant per type', async () => {
+        const router = new CAFSRouter(CONFIG, memoryBackends().factory);
+        await router.cafs('a', 'doc').storeContent(meta('r1'), 'four');
+        await router.cafs('a', 'doc').storeContent(meta('r2'), 'four');
+        await router.cafs('a', 'media').storeContent(meta('m1', 'media'), 'video');
+
+        expect(await router.usage('a')).toEqual({
+            tenantId: 'a',
+            entries: 2,
+            contentBytes: 9,
+            references: 3,
+            types: [
+                { typeId: 'doc', bucketName: 'shared-bucket', entries: 1, contentBytes: 4, references: 2 },
+                { typeId: 'media', bucketName: 'media-bucket', entries: 1, contentBytes: 5, references: 1 }
+            ]
+        });
+    });
+
+    it('rejects tenants that would share storage or metadata', () => {
+        expect(() => new CAFSRouter({ defaults: { bucketName: 'shared-bucket' }, tenants: { a: {}, b: { keyPrefix: 'a/x' } } }))
+            .toThrow('Tenants a and b share storage gs://shared-bucket/a/');
+        expect(() => new CAFSRouter({ tenants: { a: { metadataCollection: 'm' }, b: { metadataCollection: 'm' } } }))
+            .toThrow('share metadata collection m');
+        expect(() => new CAFSRouter({ tenants: { 'a/b': {} } })).toThrow('Invalid tenant ID a/b');
+        expect(() => new CAFSRouter({ tenants: { '..': {} } })).toThrow('Invalid tenant ID ..');
+        expect(() => new CAFSRouter({ tenants: { a: { keyPrefix: '../b' } } })).toThrow('Invalid key prefix ../b/ of tenant a');
+    });
+
+    it('gives every tenant its own cache directory', async () => {
+        const dir = await mkdtemp(path.join(tmpdir(), 'gcs-utils-router-'));
+        try {
+            const router = new CAFSRouter({
+                defaults: { bucketName: 'shared-bucket', cache: { directory: dir } },
+                tenants: { a: {}, b: {} }
+            }, memoryBackends().factory);
+            const a = router.cafs('a', 'doc');
+            const { contentHash } = await a.storeContent(meta('r1'), 'same');
+            await router.cafs('b', 'doc').storeContent(meta('r1'), 'same');
+            expect(await a.retrieveContent('doc', contentHash)).toBe('same');
+
+            // Tenant b's copy is read from storage, not from a's cache
+            const b = router.cafs('b', 'doc');
+            expect(await b.retrieveContent('doc', contentHash)).toBe('same');
+            expect(b.cache?.stats()).toMatchObject({ hits: 0, misses: 1 });
+            expect((await readdir(dir)).sort()).toEqual(['a', 'b']);
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('rejects tenants that would share a cache directory', () => {
+        expect(() => new CAFSRouter({
+            defaults: { cache: { directory: '/var/cache/cafs' } },
+            tenants: { a: {}, b: { config: { cache: { directory: '/var/cache/cafs' } } } }
+        })).toThrow('Tenants a and b share cache directory /var/cache/cafs');
+        expect(() => new CAFSRouter({
+            tenants: { a: { config: { cache: { directory: '/tmp/c' } } }, b: { config: { cache: { directory: '/tmp/c/b' } } } }
+        })).toThrow('share cache directory /tmp/c');
+    });
+
+    it('keeps addresses from reaching outside the key prefix of a tenant', async () => {
+        const dir = await mkdtemp(path.join(tmpdir(), 'gcs-utils-router-'));
+        try {
+            // A local bucket resolves `..` like a file system path would
+            const bucket = new LocalBlobStore(dir);
+            const metadataStores = new Map<string, MemoryMetadataStore>();
+            const router = new CAFSRouter({ defaults: { bucketName: 'shared-bucket' }, tenants: { a: {}, bb: {} } },
+                (route: ResolvedRoute): StorageBackends => {
+                    if (!metadataStores.has(route.tenantId)) metadataStores.set(route.tenantId, new MemoryMetadataStore());
+                    return { blobStore: bucket, metadataStore: metadataStores.get(route.tenantId) };
+                });
+            const { storagePath } = await router.cafs('bb', 't').storeContent(meta('r1', 't'), 'secret');
+
+            const cafs = router.cafs('a', 't');
+            await expect(cafs.retrieveContent('', `../bb/${storagePath}`)).rejects.toThrow('Invalid CAFS address');
+            await expect(cafs.retrieveContent('../bb/t', storagePath.split('/')[1])).rejects.toThrow('Invalid type ID');
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    });
+});
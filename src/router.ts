@@ -0,0 +1,290 @@
+import path from 'path';
+import { isRelativePath } from './address.js';
+import { CAFS } from './cafs.js';
+import { GCSUtils } from './gcs-utils.js';
+import { loadConfig, requireBucketName } from './config.js';
+import { GCSUtilsError, NotFoundError, wrapError } from './errors.js';
+import { FirestoreMetadataStore } from './stores/firestore-metadata-store.js';
+import { GCSBlobStore, createStorageClient } from './stores/gcs-blob-store.js';
+import { PrefixedBlobStore } from './stores/prefixed-blob-store.js';
+import {
+    CAFSRoutingConfig,
+    GCSUtilsConfig,
+    ResolvedRoute,
+    RouteBackendFactory,
+    StorageBackends,
+    TenantRouteConfig,
+    TenantUsage,
+    TypeUsage
+} from './types/index.js';
+
+/** Number of CAFS entries fetched per page when totalling usage */
+const USAGE_PAGE_SIZE = 500;
+
+/**
+ * A route and the CAFS instance serving it
+ */
+interface Route {
+    target: ResolvedRoute;
+    cafs: CAFS;
+    gcsUtils: GCSUtils;
+}
+
+/**
+ * Routes the content of tenants to buckets, metadata collections and key prefixes, optionally
+ * per type. Every tenant is served by its own CAFS instances, so content is only deduplicated
+ * within a tenant and one tenant cannot look up another's content, even by hash. By default a
+ * tenant's content lives under `{tenantId}/` in the shared bucket and its metadata in the
+ * `tenants/{tenantId}/{collection}` Firestore collection, and its cached content (if a cache
+ * directory is configured) in the `{tenantId}` subdirectory; routes of different tenants that
+ * would share storage, metadata or a cache directory are rejected.
+ */
+export class CAFSRouter {
+    private config: CAFSRoutingConfig;
+    private defaults: GCSUtilsConfig;
+    private createBackends?: RouteBackendFactory;
+    private routes = new Map<string, Route>();
+
+    /**
+     * @param config The tenants and their routes
+     * @param createBackends Optional factory of the backends of each route (defaults to GCS and Firestore)
+     * @throws ConfigError if the shared CAFS configuration is invalid
+     * @throws GCSUtilsError if a tenant ID is invalid or two tenants share storage, metadata or a cache directory
+     */
+    constructor(config: CAFSRoutingConfig, createBackends?: RouteBackendFactory) {
+        this.config = config;
+        this.defaults = loadConfig(config.defaults);
+        this.createBackends = createBackends;
+        this.checkIsolation();
+    }
+
+    /**
+     * IDs of the routed tenants
+     */
+    get tenantIds(): string[] {
+        return Object.keys(this.config.tenants);
+    }
+
+    /**
+     * Resolves where a tenant's content of a type is kept
+     * @param tenantId The tenant
+     * @param typeId The type (omit for the tenant's default route)
+     * @returns The route
+     * @throws NotFoundError if the tenant is not routed
+     */
+    resolve(tenantId: string, typeId?: string): ResolvedRoute {
+        const tenant = this.tenant(tenantId);
+        const typeRoute = (typeId !== undefined && tenant.types?.[typeId]) || {};
+        return {
+            tenantId,
+            bucketName: typeRoute.bucketName || tenant.bucketName ||
+                (typeId !== undefined && this.config.types?.[typeId]?.bucketName) ||
+                this.defaults.bucketName,
+            metadataCollection: typeRoute.metadataCollection || tenant.metadataCollection ||
+                `tenants/${tenantId}/${this.defaults.metadataCollection}`,
+            keyPrefix: normalizePrefix(typeRoute.keyPrefix ?? tenant.keyPrefix ?? `${tenantId}/`)
+        };
+    }
+
+    /**
+     * Gets the CAFS instance serving a tenant's content of a type. Instances are created on first
+     * use and shared by the types routed to the same target.
+     * @param tenantId The tenant
+     * @param typeId The type the instance is used for
+     * @returns The CAFS instance
+     * @throws NotFoundError if the tenant is not routed
+     * @throws ConfigError if the tenant's configuration is invalid
+     */
+    cafs(tenantId: string, typeId: string): CAFS {
+        return this.route(tenantId, typeId).cafs;
+    }
+
+    /**
+     * Totals the content stored by a tenant, per type. Types are found by listing the tenant's
+     * storage, in addition to the types its routes name.
+     * @param tenantId The tenant
+     * @returns The usage of the tenant
+     * @throws NotFoundError if the tenant is not routed
+     */
+    async usage(tenantId: string): Promise<TenantUsage> {
+        const typeIds = new Set(this.routedTypes(tenantId));
+        try {
+            const locations = [undefined, ...typeIds].map(typeId => this.route(tenantId, typeId));
+            for (const route of new Set(locations)) {
+                for await (const path of route.gcsUtils.iterateFiles()) {
+                    const folder = path.split('/')[0];
+                    // Skip temporary folders such as `.uploads`
+                    if (path.includes('/') && !folder.startsWith('.')) {
+                        typeIds.add(folder);
+                    }
+                }
+            }
+
+            const types: TypeUsage[] = [];
+            for (const typeId of [...typeIds].sort()) {
+                const route = this.route(tenantId, typeId);
+                const usage: TypeUsage = { typeId, bucketName: route.target.bucketName, entries: 0, contentBytes: 0, references: 0 };
+                for await (const entry of route.cafs.iterateCAFSEntries({ typeId, pageSize: USAGE_PAGE_SIZE })) {
+                    usage.entries++;
+                    usage.contentBytes += entry.metadata.contentSize;
+                    usage.references += entry.referencedBy.length;
+                }
+                if (usage.entries > 0) {
+                    types.push(usage);
+                }
+            }
+
+            return {
+                tenantId,
+                entries: sum(types, usage => usage.entries),
+                contentBytes: sum(types, usage => usage.contentBytes),
+                references: sum(types, usage => usage.references),
+                types
+            };
+        } catch (error) {
+            throw wrapError(error, `Failed to total the usage of tenant ${tenantId}`, { operation: 'usage' });
+        }
+    }
+
+    /**
+     * Gets or creates the route of a tenant's type
+     * @param tenantId The tenant
+     * @param typeId The type (omit for the tenant's default route)
+     * @returns The route
+     */
+    private route(tenantId: string, typeId?: string): Route {
+        const target = this.resolve(tenantId, typeId);
+        const key = [tenantId, target.bucketName, target.metadataCollection, target.keyPrefix].join('\n');
+        let route = this.routes.get(key);
+        if (!route) {
+            const config = loadConfig({
+                ...this.config.defaults,
+                ...this.config.tenants[tenantId].config,
+                bucketName: target.bucketName,
+                metadataCollection: target.metadataCollection
+            });
+            const cacheDirectory = this.cacheDirectory(tenantId);
+            if (config.cache && cacheDirectory) {
+                config.cache = { ...config.cache, directory: cacheDirectory };
+            }
+            const backends = this.createBackends?.(target) || {};
+            const blobStore = backends.blobStore ||
+                new GCSBlobStore(requireBucketName(target.bucketName), createStorageClient(config.cloud));
+            const scoped: StorageBackends = {
+                blobStore: target.keyPrefix ? new PrefixedBlobStore(blobStore, target.keyPrefix) : blobStore,
+                metadataStore: backends.metadataStore ||
+                    new FirestoreMetadataStore(target.metadataCollection, undefined, config.cloud)
+            };
+            route = {
+                target,
+                cafs: new CAFS(config, scoped),
+                gcsUtils: new GCSUtils(config, scoped, config.retry)
+            };
+            this.routes.set(key, route);
+        }
+        return route;
+    }
+
+    /**
+     * Gets the cache directory of a tenant: its own, or else its subdirectory of the shared one
+     * @param tenantId The tenant
+     * @returns The absolute directory, or undefined if content is not cached on disk
+     */
+    private cacheDirectory(tenantId: string): string | undefined {
+        const own = this.tenant(tenantId).config?.cache?.directory;
+        if (own) {
+            return path.resolve(own);
+        }
+        const shared = this.defaults.cache?.directory;
+        return shared ? path.join(path.resolve(shared), tenantId) : undefined;
+    }
+
+    private tenant(tenantId: string): TenantRouteConfig {
+        const tenant = Object.prototype.hasOwnProperty.call(this.config.tenants, tenantId)
+            ? this.config.tenants[tenantId]
+            : undefined;
+        if (!tenant) {
+            throw new NotFoundError(`Unknown tenant ${tenantId}`, { operation: 'route' });
+        }
+        return tenant;
+    }
+
+    /**
+     * Lists the types named by the routes of a tenant
+     * @param tenantId The tenant
+     * @returns The type IDs
+     */
+    private routedTypes(tenantId: string): string[] {
+        return [...new Set([
+            ...Object.keys(this.config.types || {}),
+            ...Object.keys(this.tenant(tenantId).types || {})
+        ])];
+    }
+
+    /**
+     * Checks that tenants and their key prefixes are valid and that no two tenants share a
+     * metadata collection, or storage locations or cache directories that overlap
+     * @throws GCSUtilsError if they do
+     */
+    private checkIsolation(): void {
+        const targets: ResolvedRoute[] = [];
+        for (const tenantId of this.tenantIds) {
+            if (!isRelativePath(tenantId) || tenantId.includes('/')) {
+                throw new GCSUtilsError(`Invalid tenant ID ${tenantId}`, { operation: 'configure' });
+            }
+            targets.push(this.resolve(tenantId), ...this.routedTypes(tenantId).map(typeId => this.resolve(tenantId, typeId)));
+        }
+        // Prefixes are normalized to end in a slash; their segments must not reach outside them
+        for (const target of targets) {
+            if (target.keyPrefix && !isRelativePath(target.keyPrefix.slice(0, -1))) {
+                throw new GCSUtilsError(`Invalid key prefix ${target.keyPrefix} of tenant ${target.tenantId}`, {
+                    operation: 'configure'
+                });
+            }
+        }
+
+        for (const [index, a] of targets.entries()) {
+            for (const b of targets.slice(index + 1)) {
+                if (a.tenantId === b.tenantId) continue;
+                const shared = a.metadataCollection === b.metadataCollection
+                    ? `metadata collection ${a.metadataCollection}`
+                    : a.bucketName === b.bucketName && (a.keyPrefix.startsWith(b.keyPrefix) || b.keyPrefix.startsWith(a.keyPrefix))
+                        ? `storage gs://${a.bucketName}/${a.keyPrefix.length > b.keyPrefix.length ? b.keyPrefix : a.keyPrefix}`
+                        : undefined;
+                if (shared) {
+                    throw new GCSUtilsError(`Tenants ${a.tenantId} and ${b.tenantId} share ${shared}`, {
+                        operation: 'configure'
+                    });
+                }
+            }
+        }
+
+        // Cached content is keyed by storage path, which tenants have in common
+        const cacheDirectories = this.tenantIds
+            .map(tenantId => ({ tenantId, directory: this.cacheDirectory(tenantId) }))
+            .filter((cache): cache is { tenantId: string; directory: string } => cache.directory !== undefined);
+        for (const [index, a] of cacheDirectories.entries()) {
+            for (const b of cacheDirectories.slice(index + 1)) {
+                const [outer, inner] = a.directory.length <= b.directory.length ? [a, b] : [b, a];
+                if (inner.directory === outer.directory || inner.directory.startsWith(outer.directory + path.sep)) {
+                    throw new GCSUtilsError(`Tenants ${a.tenantId} and ${b.tenantId} share cache directory ${outer.directory}`, {
+                        operation: 'configure'
+                    });
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Ends a non-empty key prefix with a slash, so that prefixes never match part of a folder name
+ * @param prefix The key prefix
+ * @returns The normalized prefix
+ */
+function normalizePrefix(prefix: string): string {
+    return prefix && !prefix.endsWith('/') ? `${prefix}/` : prefix;
+}
+
+function sum(items: TypeUsage[], value: (usage: TypeUsage) => number): number {
+    return items.reduce((total, item) => total + value(item), 0);
+}
@@ -0,0 +1,111 @@
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CAFS } from './cafs.js';
+import { NotFoundError } from './errors.js';
+import { MemoryBlobStore } from './stores/memory-blob-store.js';
+import { MemoryMetadataStore } from './stores/memory-metadata-store.js';
+
+function createCAFS(): CAFS {
+    return new CAFS({ bucketName: 'test-bucket' }, {
+        blobStore: new MemoryBlobStore(),
+        metadataStore: new MemoryMetadataStore()
+    });
+}
+
+describe('snapshots', () => {
+    let dir: string;
+    let source: CAFS;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(path.join(tmpdir(), 'gcs-utils-snapshot-'));
+        vi.useFakeTimers({ toFake: ['Date'], now: new Date('2024-01-01T00:00:00.000Z') });
+        source = createCAFS();
+        await source.storeContent({ id: 'raw', typeId: 'data', roleId: 'dataset', executionId: 'ingest' }, 'raw data');
+        await source.lineage.recordInputs('train', [{ typeId: 'data', resourceId: 'raw', roleId: 'training-set' }]);
+        await source.storeContent({
+            id: 'model',
+            typeId: 'model',
+            roleId: 'model',
+            executionId: 'train',
+            tags: ['candidate'],
+            customProperties: { accuracy: 0.9 }
+        }, 'weights');
+        await source.storeContent({ id: 'copy', typeId: 'model', roleId: 'backup', executionId: 'train' }, 'weights');
+        vi.useRealTimers();
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it.each(['directory', 'tar'] as const)('exports and imports executions as a %s', async format => {
+        const archive = path.join(dir, format === 'tar' ? 'snapshot.tar' : 'snapshot');
+        const manifest = await source.exportSnapshot(['train'], archive);
+
+        expect(manifest.resources.map(resource => resource.id).sort()).toEqual(['copy', 'model', 'raw']);
+        expect(manifest.inputs).toHaveLength(1);
+        if (format === 'directory') {
+            // Content shared by several resources is archived once
+            expect(await readdir(path.join(archive, 'content'))).toHaveLength(2);
+        }
+
+        const target = createCAFS();
+        const report = await target.importSnapshot(archive);
+        expect(report).toMatchObject({ succeeded: 3, failed: 0 });
+
+        const [model] = await target.findResources({ typeId: 'model', tag: 'candidate' });
+        expect(model).toMatchObject({ id: 'model', customProperties: { accuracy: 0.9 } });
+        const imported = report.results[manifest.resources.findIndex(resource => resource.id === 'model')];
+        expect(await target.retrieveContent('model', imported.contentHash)).toBe('weights');
+        expect((await target.lineage.getInputs('train')).map(edge => edge.resourceId)).toEqual(['raw']);
+        expect((await target.lineage.getOutputs('train')).map(edge => edge.resourceId).sort()).toEqual(['copy', 'model']);
+    });
+
+    it('keeps the original timestamps of imported resources', async () => {
+        const archive = path.join(dir, 'snapshot');
+        await source.exportSnapshot(['train'], archive);
+
+        const target = createCAFS();
+        await target.importSnapshot(archive);
+        const [model] = await target.findResources({ typeId: 'model', tag: 'candidate' });
+        expect(model.timestamp).toBe('2024-01-01T00:00:00.000Z');
+        const outputs = await target.lineage.getOutputs('train');
+        expect(outputs.map(edge => edge.timestamp)).toEqual(['2024-01-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z']);
+    });
+
+    it('leaves out consumed resources when asked to', async () => {
+        const manifest = await source.exportSnapshot(['train'], path.join(dir, 'outputs'), { includeInputs: false });
+
+        expect(manifest.resources.map(resource => resource.id).sort()).toEqual(['copy', 'model']);
+    });
+
+    it('looks up the exported resources with bounded concurrency', async () => {
+        const metadataStore = new MemoryMetadataStore();
+        const cafs = new CAFS({ bucketName: 'test-bucket' }, { blobStore: new MemoryBlobStore(), metadataStore });
+        for (const id of ['a', 'b', 'c']) {
+            await cafs.storeContent({ id, typeId: 'doc', roleId: 'output', executionId: 'exec-1' }, id);
+        }
+        let active = 0;
+        let peak = 0;
+        const getMember = metadataStore.getMember.bind(metadataStore);
+        vi.spyOn(metadataStore, 'getMember').mockImplementation(async (typeId, resourceId) => {
+            peak = Math.max(peak, ++active);
+            await new Promise(resolve => setTimeout(resolve, 1));
+            active--;
+            return getMember(typeId, resourceId);
+        });
+
+        const manifest = await cafs.exportSnapshot(['exec-1'], path.join(dir, 'bounded'), { concurrency: 1 });
+        expect(manifest.resources).toHaveLength(3);
+        expect(peak).toBe(1);
+    });
+
+    it('rejects executions without resources and leaves no archive behind', async () => {
+        const archive = path.join(dir, 'empty');
+
+        await expect(source.exportSnapshot(['unknown'], archive)).rejects.toBeInstanceOf(NotFoundError);
+        expect(await readdir(dir)).toEqual([]);
+    });
+});
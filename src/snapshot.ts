@@ -0,0 +1,310 @@
+import { rm } from 'fs/promises';
+import { Readable, pipeline } from 'stream';
+import { ArchiveReader, ArchiveWriter, createArchive, openArchive } from './archive.js';
+import { isContentHash } from './address.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { GCSUtilsError, NotFoundError, wrapError } from './errors.js';
+import { HashingStream } from './hashing.js';
+import { LineageTracker } from './lineage.js';
+import {
+    BatchOptions,
+    CAFSOperationResult,
+    LineageEdge,
+    MetadataStore,
+    SnapshotExportOptions,
+    SnapshotImportReport,
+    SnapshotManifest,
+    SnapshotResource,
+    StoreContentMeta,
+    StoreOptions
+} from './types/index.js';
+
+/** Current version of the manifest format */
+const MANIFEST_VERSION = 1;
+
+const MANIFEST_FILE = 'manifest.json';
+
+/** Default number of resources imported concurrently */
+const DEFAULT_CONCURRENCY = 8;
+
+/** Streams stored content, verified against its address */
+type ContentReader = (typeId: string, contentHash: string) => Promise<Readable>;
+
+/** Stores streamed content for a resource */
+type ContentStorer = (meta: StoreContentMeta, stream: Readable, options: StoreOptions) => Promise<CAFSOperationResult>;
+
+/**
+ * Exports the resources of executions, with their content, into portable archives and imports
+ * them into other buckets. Content shared by several resources is archived once, and importing
+ * stores it through CAFS so it deduplicates against content the target already holds. Content
+ * is archived in plain form and verified against its SHA-256 hash on both sides.
+ */
+export class SnapshotTransfer {
+    private metadataStore: MetadataStore;
+    private lineage: LineageTracker;
+    private readContent: ContentReader;
+    private storeContent: ContentStorer;
+
+    /**
+     * @param metadataStore The metadata store
+     * @param lineage The lineage of the stored resources
+     * @param readContent Streams stored content
+     * @param storeContent Stores streamed content for a resource
+     */
+    constructor(
+        metadataStore: MetadataStore,
+        lineage: LineageTracker,
+        readContent: ContentReader,
+        storeContent: ContentStorer
+    ) {
+        this.metadataStore = metadataStore;
+        this.lineage = lineage;
+        this.readContent = readContent;
+        this.storeContent = storeContent;
+    }
+
+    /**
+     * Exports the resources produced (and optionally consumed) by executions to a new archive.
+     * A partially written archive is removed if the export fails.
+     * @param executionIds The executions to export
+     * @param target Path of the archive, which must not exist yet
+     * @param options Optional export options
+     * @returns The manifest written to the archive
+     * @throws NotFoundError if the executions recorded no resources, or a resource or its content no longer exists
+     */
+    async exportTo(executionIds: string[], target: string, options: SnapshotExportOptions = {}): Promise<SnapshotManifest> {
+        if (executionIds.length === 0) {
+            throw new GCSUtilsError('At least one execution is required', { operation: 'exportSnapshot' });
+        }
+        const includeInputs = options.includeInputs ?? true;
+
+        const edges: LineageEdge[] = [];
+        const inputs: LineageEdge[] = [];
+        for (const executionId of executionIds) {
+            edges.push(...await this.lineage.getOutputs(executionId));
+            if (includeInputs) {
+                inputs.push(...await this.lineage.getInputs(executionId));
+            }
+        }
+        const selected = latestEdges([...inputs, ...edges]);
+        if (selected.length === 0) {
+            throw new NotFoundError(`No resources recorded for executions ${executionIds.join(', ')}`, {
+                operation: 'exportSnapshot'
+            });
+        }
+        const resources = await mapWithConcurrency(selected, options.concurrency ?? DEFAULT_CONCURRENCY,
+            edge => this.describe(edge)
+        );
+
+        const writer = await createArchive(target, options.format ?? (target.endsWith('.tar') ? 'tar' : 'directory'));
+        try {
+            await this.writeContent(writer, resources);
+            const manifest: SnapshotManifest = {
+                format: 'cafs-snapshot',
+                version: MANIFEST_VERSION,
+                createdAt: new Date().toISOString(),
+                executionIds,
+                resources,
+                inputs
+            };
+            const encoded = Buffer.from(JSON.stringify(manifest, null, 2));
+            await writer.add(MANIFEST_FILE, encoded.length, encoded);
+            await writer.close();
+            return manifest;
+        } catch (error) {
+            await writer.close().catch(() => undefined);
+            await rm(target, { recursive: true, force: true });
+            throw error;
+        }
+    }
+
+    /**
+     * Imports an archive: stores the content of every resource, verifying it against its hash,
+     * and records the lineage of the exported executions. Resources are imported independently;
+     * a failed resource is reported in its result and does not stop the import.
+     * @param source Path of the archive, a directory or a tar file
+     * @param options Optional batch options
+     * @returns The manifest and one result per resource, in manifest order
+     * @throws GCSUtilsError if the archive or its manifest is invalid
+     */
+    async importFrom(source: string, options: BatchOptions = {}): Promise<SnapshotImportReport> {
+        const reader = await openArchive(source);
+        try {
+            const manifest = parseManifest(await reader.read(MANIFEST_FILE), source);
+            const results = await mapWithConcurrency(manifest.resources, options.concurrency ?? DEFAULT_CONCURRENCY,
+                resource => this.importResource(reader, resource)
+            );
+
+            // Imported resources may be stored under different addresses in this bucket
+            const addresses = new Map<string, string>();
+            manifest.resources.forEach((resource, index) => {
+                if (results[index].success) {
+                    addresses.set(`${resource.typeId}/${resource.id}`, results[index].contentHash);
+                }
+            });
+            for (const executionId of manifest.executionIds) {
+                const consumed = manifest.inputs
+                    .filter(edge => edge.executionId === executionId && addresses.has(`${edge.typeId}/${edge.resourceId}`))
+                    .map(edge => ({
+                        typeId: edge.typeId,
+                        resourceId: edge.resourceId,
+                        roleId: edge.roleId,
+                        contentHash: addresses.get(`${edge.typeId}/${edge.resourceId}`)
+                    }));
+                if (consumed.length > 0) {
+                    await this.lineage.recordInputs(executionId, consumed);
+                }
+            }
+
+            const succeeded = results.filter(result => result.success).length;
+            return { manifest, results, succeeded, failed: results.length - succeeded };
+        } finally {
+            await reader.close();
+        }
+    }
+
+    /**
+     * Looks up the member record and CAFS entry of an exported resource
+     * @param edge The lineage edge selecting the resource
+     * @returns The resource as recorded in the manifest, before its content is hashed
+     */
+    private async describe(edge: LineageEdge): Promise<SnapshotResource> {
+        const { typeId, resourceId, contentHash } = edge;
+        const member = await this.metadataStore.getMember(typeId, resourceId);
+        if (!member) {
+            throw new NotFoundError(`Resource ${typeId}/${resourceId} of execution ${edge.executionId} no longer exists`, {
+                operation: 'exportSnapshot'
+            });
+        }
+        const entry = contentHash ? await this.metadataStore.getCAFSEntry(typeId, contentHash) : null;
+        if (!entry) {
+            throw new NotFoundError(`Content of resource ${typeId}/${resourceId} not found`, {
+                operation: 'exportSnapshot',
+                path: contentHash ? `${typeId}/${contentHash}` : undefined
+            });
+        }
+
+        return {
+            id: member.id,
+            typeId,
+            roleId: member.roleId,
+            executionId: member.executionId,
+            timestamp: member.timestamp,
+            tags: member.tags || [],
+            customProperties: member.customProperties || {},
+            contentHash,
+            sha256: '',
+            contentType: entry.metadata.contentType,
+            contentSize: entry.metadata.contentSize
+        };
+    }
+
+    /**
+     * Archives the content of the exported resources, once per content hash, and records
+     * the SHA-256 hash of each on its resources
+     * @param writer The archive
+     * @param resources The exported resources
+     */
+    private async writeContent(writer: ArchiveWriter, resources: SnapshotResource[]): Promise<void> {
+        const digests = new Map<string, string>();
+        for (const resource of resources) {
+            let sha256 = digests.get(resource.contentHash);
+            if (sha256 === undefined) {
+                const hasher = new HashingStream();
+                pipeline(await this.readContent(resource.typeId, resource.contentHash), hasher, () => undefined);
+                await writer.add(contentFile(resource.contentHash), resource.contentSize, hasher);
+                sha256 = hasher.contentHash;
+                digests.set(resource.contentHash, sha256);
+            }
+            resource.sha256 = sha256;
+        }
+    }
+
+    /**
+     * Stores the content of an archived resource, verifying it against its SHA-256 hash
+     * @param reader The archive
+     * @param resource The archived resource
+     * @returns CAFS operation result
+     */
+    private async importResource(reader: ArchiveReader, resource: SnapshotResource): Promise<CAFSOperationResult> {
+        const file = contentFile(resource.contentHash);
+        try {
+            const verifier = new HashingStream(resource.sha256, file);
+            pipeline(reader.createReadStream(file), verifier, () => undefined);
+            const meta: StoreContentMeta = {
+                id: resource.id,
+                typeId: resource.typeId,
+                roleId: resource.roleId,
+                executionId: resource.executionId,
+                tags: resource.tags,
+                customProperties: resource.customProperties,
+                timestamp: resource.timestamp
+            };
+            return await this.storeContent(meta, verifier, { contentType: resource.contentType });
+        } catch (error) {
+            const cause = wrapError(error, `Failed to import resource ${resource.typeId}/${resource.id}`, {
+                operation: 'importSnapshot',
+                path: file
+            });
+            return {
+                success: false,
+                contentHash: '',
+                deduplicated: false,
+                storagePath: '',
+                error: cause.message,
+                cause
+            };
+        }
+    }
+}
+
+/**
+ * Selects one edge per resource, the most recently recorded one
+ * @param edges Lineage edges
+ * @returns The selected edges, in order of first appearance
+ */
+function latestEdges(edges: LineageEdge[]): LineageEdge[] {
+    const latest = new Map<string, LineageEdge>();
+    for (const edge of edges) {
+        const key = `${edge.typeId}/${edge.resourceId}`;
+        const current = latest.get(key);
+        if (!current || edge.timestamp >= current.timestamp) {
+            latest.set(key, edge);
+        }
+    }
+    return [...latest.values()];
+}
+
+function contentFile(contentHash: string): string {
+    return `content/${contentHash}`;
+}
+
+/**
+ * Parses and checks the manifest of an archive
+ * @param content The manifest file
+ * @param source Path of the archive, reported on failure
+ * @returns The manifest
+ * @throws GCSUtilsError if the manifest is invalid
+ */
+function parseManifest(content: Buffer, source: string): SnapshotManifest {
+    const invalid = (reason: string): GCSUtilsError =>
+        new GCSUtilsError(`Invalid snapshot ${source}: ${reason}`, { operation: 'importSnapshot', path: source });
+
+    let manifest: SnapshotManifest;
+    try {
+        manifest = JSON.parse(content.toString('utf8'));
+    } catch {
+        throw invalid('the manifest is not valid JSON');
+    }
+    if (manifest?.format !== 'cafs-snapshot') throw invalid('not a snapshot manifest');
+    if (manifest.version > MANIFEST_VERSION) throw invalid(`unsupported manifest version ${manifest.version}`);
+    if (!Array.isArray(manifest.resources) || !Array.isArray(manifest.inputs) || !Array.isArray(manifest.executionIds)) {
+        throw invalid('the manifest is incomplete');
+    }
+    for (const resource of manifest.resources) {
+        if (!resource.id || !resource.typeId || !isContentHash(resource.contentHash) || !isContentHash(resource.sha256)) {
+            throw invalid(`resource ${resource.typeId}/${resource.id} is incomplete`);
+        }
+    }
+    return manifest;
+}
@@ -0,0 +1,26 @@
+import { BlobListOptions, BlobListPage } from '../types/index.js';
+
+/** Default number of paths per listed page */
+export const DEFAULT_LIST_PAGE_SIZE = 1000;
+
+/**
+ * Cuts a page out of a sorted list of blob paths; the page token is the last path of the previous page
+ * @param paths All matching paths, in lexicographic order
+ * @param options Page size and token
+ * @returns The page
+ */
+export function pageOf(paths: string[], options: BlobListOptions): BlobListPage {
+    const pageSize = options.pageSize ?? DEFAULT_LIST_PAGE_SIZE;
+    const start = options.pageToken !== undefined
+        ? paths.findIndex(path => path > (options.pageToken as string))
+        : 0;
+    if (start < 0) {
+        return { paths: [] };
+    }
+
+    const page = paths.slice(start, start + pageSize);
+    return {
+        paths: page,
+        nextPageToken: start + pageSize < paths.length ? page[page.length - 1] : undefined
+    };
+}
@@ -0,0 +1,198 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { text } from 'stream/consumers';
+import { pipeline } from 'stream/promises';
+import { Readable } from 'stream';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AlreadyExistsError, ConflictError, NotFoundError } from '../errors.js';
+import { BlobStore } from '../types/index.js';
+import { LocalBlobStore } from './local-blob-store.js';
+import { MemoryBlobStore } from './memory-blob-store.js';
+import { PrefixedBlobStore } from './prefixed-blob-store.js';
+import { RetryingBlobStore } from './retrying-blob-store.js';
+
+const directories: string[] = [];
+
+async function tempDir(): Promise<string> {
+    const dir = await mkdtemp(path.join(tmpdir(), 'gcs-utils-blobs-'));
+    directories.push(dir);
+    return dir;
+}
+
+const STORES: [string, () => Promise<BlobStore>][] = [
+    ['MemoryBlobStore', async (): Promise<BlobStore> => new MemoryBlobStore()],
+    ['LocalBlobStore', async (): Promise<BlobStore> => new LocalBlobStore(await tempDir())],
+    ['PrefixedBlobStore', async (): Promise<BlobStore> => new PrefixedBlobStore(new MemoryBlobStore(), 'tenant/')]
+];
+
+afterEach(async () => {
+    for (const dir of directories.splice(0)) {
+        await rm(dir, { recursive: true, force: true });
+    }
+});
+
+describe.each(STORES)('%s', (_name, createStore) => {
+    let store: BlobStore;
+
+    beforeEach(async () => {
+        store = await createStore();
+    });
+
+    it('writes and reads blobs with their content type and metadata', async () => {
+        await store.write('a/b', 'hello', { contentType: 'text/plain', metadata: { id: 'r1' } });
+
+        expect((await store.read('a/b')).toString()).toBe('hello');
+        expect(await store.exists('a/b')).toBe(true);
+        const metadata = await store.getMetadata('a/b');
+        expect(metadata).toMatchObject({ path: 'a/b', size: 5, contentType: 'text/plain', metadata: { id: 'r1' } });
+        expect(metadata.storageClass).toBe('STANDARD');
+    });
+
+    it('streams content in and out', async () => {
+        await pipeline(Readable.from([Buffer.from('ab'), Buffer.from('cd')]), store.createWriteStream('s', {
+            metadata: { kind: 'upload' }
+        }));
+
+        expect(await text(store.createReadStream('s'))).toBe('abcd');
+        expect((await store.getMetadata('s')).metadata).toEqual({ kind: 'upload' });
+    });
+
+    it('reports missing blobs as NotFoundError', async () => {
+        expect(await store.exists('missing')).toBe(false);
+        await expect(store.read('missing')).rejects.toBeInstanceOf(NotFoundError);
+        await expect(store.getMetadata('missing')).rejects.toBeInstanceOf(NotFoundError);
+        await expect(store.delete('missing')).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('enforces generation preconditions', async () => {
+        await store.write('p', 'one', { ifGenerationMatch: 0 });
+        await expect(store.write('p', 'two', { ifGenerationMatch: 0 })).rejects.toBeInstanceOf(AlreadyExistsError);
+
+        const { generation } = await store.getMetadata('p');
+        await expect(store.setMetadata('p', { id: 'x' }, { ifGenerationMatch: '1' })).rejects.toBeInstanceOf(ConflictError);
+        await store.setMetadata('p', { id: 'x' }, { ifGenerationMatch: generation });
+        expect((await store.getMetadata('p')).metadata).toEqual({ id: 'x' });
+    });
+
+    it('moves blobs with their metadata, only onto free paths when asked to', async () => {
+        await store.write('src', 'data', { contentType: 'text/plain', metadata: { id: 'r1' } });
+        await store.write('taken', 'other');
+
+        await expect(store.move('src', 'taken', { ifGenerationMatch: 0 })).rejects.toBeInstanceOf(AlreadyExistsError);
+        await store.move('src', 'dest', { ifGenerationMatch: 0 });
+
+        expect(await store.exists('src')).toBe(false);
+        expect((await store.read('dest')).toString()).toBe('data');
+        expect(await store.getMetadata('dest')).toMatchObject({ contentType: 'text/plain', metadata: { id: 'r1' } });
+    });
+
+    it('replaces the custom metadata of moved blobs when given', async () => {
+        await store.write('src', 'data', { contentType: 'text/plain', metadata: { id: 'r1', stale: 'yes' } });
+        await store.move('src', 'dest', {}, { id: 'r2' });
+
+        expect(await store.exists('src')).toBe(false);
+        expect(await store.getMetadata('dest')).toMatchObject({ contentType: 'text/plain', metadata: { id: 'r2' } });
+    });
+
+    it('lists blobs by prefix in order and in pages', async () => {
+        for (const blobPath of ['t/c', 't/a', 't/b', 'u/a']) {
+            await store.write(blobPath, blobPath);
+        }
+
+        expect(await store.list('t/')).toEqual(['t/a', 't/b', 't/c']);
+        const first = await store.listPage('t/', { pageSize: 2 });
+        expect(first.paths).toEqual(['t/a', 't/b']);
+        const second = await store.listPage('t/', { pageSize: 2, pageToken: first.nextPageToken });
+        expect(second).toEqual({ paths: ['t/c'] });
+    });
+
+    it('records storage class changes', async () => {
+        await store.write('cold', 'data', { metadata: { id: 'r1' } });
+        await store.setStorageClass('cold', 'COLDLINE');
+
+        expect(await store.getMetadata('cold')).toMatchObject({ storageClass: 'COLDLINE', metadata: { id: 'r1' } });
+    });
+
+    it('deletes blobs', async () => {
+        await store.write('gone', 'data');
+        await store.delete('gone');
+        expect(await store.exists('gone')).toBe(false);
+        expect(await store.list()).toEqual([]);
+    });
+});
+
+describe('PrefixedBlobStore', () => {
+    it('keeps blobs under its prefix and paths relative to it', async () => {
+        const inner = new MemoryBlobStore();
+        const store = new PrefixedBlobStore(inner, 'tenant/');
+        await inner.write('other/x', 'outside');
+        await store.write('x', 'inside');
+
+        expect(await inner.list()).toEqual(['other/x', 'tenant/x']);
+        expect(await store.list()).toEqual(['x']);
+        expect((await store.getMetadata('x')).path).toBe('x');
+    });
+
+    it('rejects paths that could leave its prefix', async () => {
+        const inner = new LocalBlobStore(await tempDir());
+        await inner.write('other/secret', 'outside');
+        const store = new PrefixedBlobStore(inner, 'tenant/');
+
+        await expect(store.read('../other/secret')).rejects.toThrow('Invalid blob path');
+        await expect(store.read('x/../../other/secret')).rejects.toThrow('Invalid blob path');
+        await expect(store.write('/other/x', 'x')).rejects.toThrow('Invalid blob path');
+        await expect(store.move('x', '../other/x')).rejects.toThrow('Invalid blob path');
+        await expect(store.list('../')).rejects.toThrow('Invalid blob path');
+        expect(() => store.createReadStream('./x')).toThrow('Invalid blob path');
+        expect(await store.list('')).toEqual([]);
+        expect(() => new PrefixedBlobStore(inner, '../')).toThrow('Invalid key prefix');
+    });
+});
+
+describe('LocalBlobStore', () => {
+    it('rejects paths outside its directory and sidecar paths', async () => {
+        const store = new LocalBlobStore(await tempDir());
+
+        await expect(store.write('../escape', 'x')).rejects.toThrow('Invalid blob path');
+        await expect(store.write('a.meta.json', 'x')).rejects.toThrow('reserved for metadata sidecars');
+    });
+});
+
+describe('RetryingBlobStore', () => {
+    const policy = { initialDelayMs: 1, maxDelayMs: 1 };
+
+    /**
+     * Makes a call of a memory store take effect but fail as if its response was lost, once
+     */
+    function loseFirstResponse<K extends 'move' | 'delete'>(inner: MemoryBlobStore, method: K): void {
+        const original = inner[method].bind(inner) as (...args: unknown[]) => Promise<void>;
+        let lost = false;
+        inner[method] = (async (...args: unknown[]): Promise<void> => {
+            await original(...args);
+            if (!lost) {
+                lost = true;
+                throw Object.assign(new Error('connection reset'), { code: 'ECONNRESET' });
+            }
+        }) as MemoryBlobStore[K];
+    }
+
+    it('treats a retried move as done once the blob has moved', async () => {
+        const inner = new MemoryBlobStore();
+        await inner.write('src', 'data');
+        loseFirstResponse(inner, 'move');
+
+        await new RetryingBlobStore(inner, policy).move('src', 'dest', { ifGenerationMatch: 0 });
+        expect(await inner.list()).toEqual(['dest']);
+    });
+
+    it('treats a retried delete as done once the blob is gone', async () => {
+        const inner = new MemoryBlobStore();
+        await inner.write('gone', 'data');
+        loseFirstResponse(inner, 'delete');
+
+        await new RetryingBlobStore(inner, policy).delete('gone');
+        expect(await inner.exists('gone')).toBe(false);
+        await expect(new RetryingBlobStore(inner, policy).delete('gone')).rejects.toBeInstanceOf(NotFoundError);
+    });
+});
@@ -0,0 +1,176 @@
+import { GCSUtilsError } from '../errors.js';
+import { CAFSEntry, CAFSEntryOrderField, CAFSEntryQuery, CAFSReference, MetadataStore } from '../types/index.js';
+
+/** Default number of entries per page */
+export const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Position of the last entry of a page; the next page starts right after it
+ */
+export interface EntryCursor {
+    /** Value of the ordered field */
+    value: string | number;
+    /** Content hash, breaking ties between equal values */
+    contentHash: string;
+}
+
+/**
+ * Adds a resource reference to a CAFS entry, keeping its query fields up to date
+ * @param entry The entry to update in place
+ * @param reference The referencing resource
+ */
+export function addReference(entry: CAFSEntry, reference: CAFSReference): void {
+    if (!entry.referencedBy.includes(reference.resourceId)) {
+        entry.referencedBy.push(reference.resourceId);
+    }
+    entry.references = {
+        ...entry.references,
+        [reference.resourceId]: { roleId: reference.roleId, executionId: reference.executionId }
+    };
+    updateQueryFields(entry);
+}
+
+/**
+ * Removes a resource reference from a CAFS entry, keeping its query fields up to date
+ * @param entry The entry to update in place
+ * @param resourceId ID of the resource whose reference is removed
+ */
+export function removeReference(entry: CAFSEntry, resourceId: string): void {
+    entry.referencedBy = entry.referencedBy.filter(id => id !== resourceId);
+    if (entry.references) {
+        entry.references = { ...entry.references };
+        delete entry.references[resourceId];
+    }
+    updateQueryFields(entry);
+}
+
+/**
+ * Resolves the tag filter of a query to the resources labelled with the tag; tags live on
+ * the member records, so content matches the tag when one of the resources referencing it has it
+ * @param store The metadata store holding the member records
+ * @param query The query
+ * @returns IDs of the tagged resources of the queried type, or undefined if the query has no tag filter
+ */
+export async function taggedResourceIds(
+    store: Pick<MetadataStore, 'queryMembers'>,
+    query: CAFSEntryQuery
+): Promise<Set<string> | undefined> {
+    if (query.tag === undefined) return undefined;
+    const members = await store.queryMembers({ typeId: query.typeId, tag: query.tag });
+    return new Set(members.map(member => member.id));
+}
+
+/**
+ * Checks whether an entry satisfies the filters of a query (the type is not checked)
+ * @param entry The CAFS entry
+ * @param query The query
+ * @param tagged IDs of the resources labelled with the tag of the query (see taggedResourceIds)
+ * @returns Whether the entry matches
+ */
+export function matchesEntryQuery(entry: CAFSEntry, query: CAFSEntryQuery, tagged?: Set<string>): boolean {
+    const { metadata } = entry;
+    return (query.roleId === undefined || (entry.roleIds || []).includes(query.roleId)) &&
+        (query.executionId === undefined || (entry.executionIds || []).includes(query.executionId)) &&
+        (query.tag === undefined || entry.referencedBy.some(resourceId => tagged?.has(resourceId))) &&
+        (query.minSize === undefined || metadata.contentSize >= query.minSize) &&
+        (query.maxSize === undefined || metadata.contentSize <= query.maxSize) &&
+        isWithin(metadata.timestamp, query.createdAfter, query.createdBefore) &&
+        isWithin(metadata.lastAccessedAt, query.lastAccessedAfter, query.lastAccessedBefore);
+}
+
+/**
+ * Gets the value an entry is ordered by; dates are compared as epoch milliseconds
+ * @param entry The CAFS entry
+ * @param field The ordered field
+ * @returns The value of the field
+ */
+export function orderValue(entry: CAFSEntry, field: CAFSEntryOrderField): string | number {
+    switch (field) {
+        case 'contentHash':
+            return entry.contentHash;
+        case 'contentSize':
+            return entry.metadata.contentSize;
+        case 'lastAccessedAt':
+            return toTime(entry.metadata.lastAccessedAt);
+        case 'timestamp':
+            return toTime(entry.metadata.timestamp);
+    }
+}
+
+/**
+ * Compares two entries by an ordered field, then by content hash
+ * @param a The first entry
+ * @param b The second entry
+ * @param field The ordered field
+ * @returns A negative, zero or positive number
+ */
+export function compareEntries(a: CAFSEntry, b: CAFSEntry, field: CAFSEntryOrderField): number {
+    return compareToCursor(a, { value: orderValue(b, field), contentHash: b.contentHash }, field);
+}
+
+/**
+ * Compares an entry to a cursor position in ascending order
+ * @param entry The CAFS entry
+ * @param cursor The cursor position
+ * @param field The ordered field
+ * @returns A negative, zero or positive number
+ */
+export function compareToCursor(entry: CAFSEntry, cursor: EntryCursor, field: CAFSEntryOrderField): number {
+    const value = orderValue(entry, field);
+    if (value !== cursor.value) {
+        return value < cursor.value ? -1 : 1;
+    }
+    return entry.contentHash < cursor.contentHash ? -1 : entry.contentHash > cursor.contentHash ? 1 : 0;
+}
+
+/**
+ * Encodes the position of an entry as an opaque page cursor
+ * @param entry The last entry of a page
+ * @param field The ordered field
+ * @returns The cursor
+ */
+export function encodeCursor(entry: CAFSEntry, field: CAFSEntryOrderField): string {
+    const cursor: EntryCursor = { value: orderValue(entry, field), contentHash: entry.contentHash };
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decodes a page cursor
+ * @param cursor The cursor returned with a previous page
+ * @returns The cursor position
+ */
+export function decodeCursor(cursor: string): EntryCursor {
+    try {
+        const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as EntryCursor;
+        if (typeof decoded.contentHash === 'string' && ['string', 'number'].includes(typeof decoded.value)) {
+            return decoded;
+        }
+    } catch {
+        // Reported below
+    }
+    throw new GCSUtilsError(`Invalid page cursor ${cursor}`, { operation: 'queryCAFSEntryPage' });
+}
+
+/**
+ * Converts a date or ISO string to epoch milliseconds
+ * @param value The date
+ * @returns Epoch milliseconds (NaN if not a valid date)
+ */
+export function toTime(value: Date | string | undefined): number {
+    if (value === undefined) return NaN;
+    return value instanceof Date ? value.getTime() : Date.parse(value);
+}
+
+function isWithin(value: Date | string, after?: Date | string, before?: Date | string): boolean {
+    const time = toTime(value);
+    if (after !== undefined && !(time >= toTime(after))) return false;
+    if (before !== undefined && !(time < toTime(before))) return false;
+    return true;
+}
+
+function updateQueryFields(entry: CAFSEntry): void {
+    const references = Object.values(entry.references || {});
+    entry.roleIds = [...new Set(references.map(reference => reference.roleId))];
+    entry.executionIds = [...new Set(references.map(reference => reference.executionId))];
+    entry.metadata.referenceCount = entry.referencedBy.length;
+}
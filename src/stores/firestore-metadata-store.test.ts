@@ -0,0 +1,159 @@
+import { createHash } from 'crypto';
+import { DocumentData, Firestore } from 'firebase-admin/firestore';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { CAFSEntry, ResourceMemberRecord } from '../types/index.js';
+import { FirestoreMetadataStore } from './firestore-metadata-store.js';
+
+type Filter = [field: string, op: string, value: unknown];
+
+function sha256(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Answers the queries of a collection from the documents written to it, recording their filters.
+ * Ordering and cursors are left out: every query fits in a single page.
+ */
+class FakeQuery {
+    constructor(
+        protected documents: Map<string, DocumentData>,
+        private log: Filter[][],
+        private filters: Filter[] = [],
+        private max = Infinity
+    ) {}
+
+    where(field: string, op: string, value: unknown): FakeQuery {
+        return new FakeQuery(this.documents, this.log, [...this.filters, [field, op, value]], this.max);
+    }
+
+    orderBy(): FakeQuery {
+        return this;
+    }
+
+    limit(max: number): FakeQuery {
+        return new FakeQuery(this.documents, this.log, this.filters, max);
+    }
+
+    async get(): Promise<{ docs: { data: () => DocumentData }[]; size: number }> {
+        this.log.push(this.filters);
+        const docs = [...this.documents.values()]
+            .filter(data => this.filters.every(([field, op, value]) => matches(data[field], op, value)))
+            .slice(0, this.max)
+            .map(data => ({ data: (): DocumentData => structuredClone(data) }));
+        return { docs, size: docs.length };
+    }
+}
+
+class FakeCollection extends FakeQuery {
+    doc(id: string): { set: (data: DocumentData) => Promise<void> } {
+        return {
+            set: async (data: DocumentData): Promise<void> => {
+                this.documents.set(id, structuredClone(data));
+            }
+        };
+    }
+}
+
+function matches(actual: unknown, op: string, value: unknown): boolean {
+    switch (op) {
+        case '==':
+            return actual === value;
+        case 'array-contains':
+            return Array.isArray(actual) && actual.includes(value);
+        case 'array-contains-any':
+            return Array.isArray(actual) && actual.some(item => (value as unknown[]).includes(item));
+        default:
+            throw new Error(`Unsupported filter ${op}`);
+    }
+}
+
+/**
+ * The part of Firestore the metadata store queries with: `{collection}/{typeId}/{subcollection}`
+ */
+function fakeFirestore(): { db: Firestore; queries: Filter[][] } {
+    const collections = new Map<string, FakeCollection>();
+    const queries: Filter[][] = [];
+    const db = {
+        collection: (root: string) => ({
+            doc: (typeId: string) => ({
+                collection: (name: string): FakeCollection => {
+                    const path = `${root}/${typeId}/${name}`;
+                    if (!collections.has(path)) {
+                        collections.set(path, new FakeCollection(new Map(), queries));
+                    }
+                    return collections.get(path) as FakeCollection;
+                }
+            })
+        })
+    };
+    return { db: db as unknown as Firestore, queries };
+}
+
+function member(id: string, tags: string[]): ResourceMemberRecord {
+    return { id, typeId: 'doc', roleId: 'output', executionId: 'exec-1', timestamp: '2024-01-01T00:00:00.000Z', pointer: id, tags };
+}
+
+function entry(content: string, referencedBy: string[]): CAFSEntry {
+    return {
+        contentHash: sha256(content),
+        gcsPath: `doc/${sha256(content)}`,
+        metadata: {
+            contentSize: content.length,
+            contentType: 'text/plain',
+            timestamp: '2024-01-01T00:00:00.000Z',
+            lastAccessedAt: new Date(0),
+            referenceCount: referencedBy.length,
+            tags: [],
+            customProperties: {}
+        },
+        referencedBy,
+        roleIds: ['output'],
+        executionIds: ['exec-1']
+    };
+}
+
+describe('FirestoreMetadataStore', () => {
+    let store: FirestoreMetadataStore;
+    let queries: Filter[][];
+
+    beforeEach(() => {
+        const fake = fakeFirestore();
+        store = new FirestoreMetadataStore('resources', fake.db);
+        queries = fake.queries;
+    });
+
+    it('finds CAFS entries by the tags of the resources referencing them', async () => {
+        await store.putMember(member('r1', ['draft']));
+        await store.putMember(member('r2', ['final']));
+        await store.putCAFSEntry('doc', entry('one', ['r1']));
+        await store.putCAFSEntry('doc', entry('two', ['r2']));
+
+        const page = await store.queryCAFSEntryPage({ typeId: 'doc', tag: 'draft' });
+        expect(page.entries.map(found => found.contentHash)).toEqual([sha256('one')]);
+        expect(queries).toEqual([
+            [['tags', 'array-contains', 'draft']],
+            [['referencedBy', 'array-contains-any', ['r1']]]
+        ]);
+    });
+
+    it('filters entries by tag after reading them when too many resources have it', async () => {
+        const ids = Array.from({ length: 31 }, (_, index) => `r${index}`);
+        for (const id of ids) {
+            await store.putMember(member(id, ['bulk']));
+        }
+        await store.putMember(member('other', []));
+        await store.putCAFSEntry('doc', entry('bulk', ids));
+        await store.putCAFSEntry('doc', entry('other', ['other']));
+
+        const page = await store.queryCAFSEntryPage({ typeId: 'doc', tag: 'bulk', roleId: 'output' });
+        expect(page.entries.map(found => found.contentHash)).toEqual([sha256('bulk')]);
+        expect(queries[1]).toEqual([['roleIds', 'array-contains', 'output']]);
+    });
+
+    it('does not query entries for a tag no resource has', async () => {
+        await store.putCAFSEntry('doc', entry('one', ['r1']));
+
+        expect(await store.queryCAFSEntryPage({ typeId: 'doc', tag: 'missing' })).toEqual({ entries: [] });
+        expect(queries).toHaveLength(1);
+    });
+});
@@ -0,0 +1,439 @@
+import {
+    CollectionReference,
+    DocumentData,
+    FieldPath,
+    Firestore,
+    Query,
+    Timestamp,
+    Transaction,
+    WhereFilterOp
+} from 'firebase-admin/firestore';
+import { getDbAdmin } from '../firebaseAdminInit.js';
+import { ConflictError } from '../errors.js';
+import {
+    CAFSEntry,
+    CAFSEntryOrderField,
+    CAFSEntryPage,
+    CAFSEntryQuery,
+    CAFSRef,
+    CAFSRefLogEntry,
+    CAFSRefUpdate,
+    CAFSReference,
+    CloudConfig,
+    LineageEdge,
+    LineageQuery,
+    MetadataStore,
+    ResourceLabelUpdate,
+    ResourceMemberQuery,
+    ResourceMemberRecord
+} from '../types/index.js';
+import {
+    DEFAULT_PAGE_SIZE,
+    EntryCursor,
+    addReference,
+    decodeCursor,
+    encodeCursor,
+    matchesEntryQuery,
+    orderValue,
+    removeReference,
+    taggedResourceIds,
+    toTime
+} from './cafs-entries.js';
+import { applyLabelUpdate } from './member-records.js';
+import { RefRecord, applyRefUpdate, toRef } from './refs.js';
+
+/** Maximum number of writes Firestore accepts in a single batch */
+const MAX_BATCH_WRITES = 500;
+
+/** Maximum number of values Firestore accepts in an array-contains-any filter */
+const MAX_ARRAY_CONTAINS_ANY = 30;
+
+/** gRPC status codes returned by Firestore */
+const NOT_FOUND = 5;
+const ABORTED = 10;
+
+/** Document field of each field CAFS entries can be ordered by */
+const ORDER_FIELD_PATHS: Record<CAFSEntryOrderField, string> = {
+    timestamp: 'metadata.timestamp',
+    lastAccessedAt: 'metadata.lastAccessedAt',
+    contentSize: 'metadata.contentSize',
+    contentHash: 'contentHash'
+};
+
+/**
+ * Metadata store backed by Firestore.
+ * Resource member records live at `{collection}/{typeId}/members/{id}`,
+ * CAFS entries at `{collection}/{typeId}/cafs/{contentHash}`, lineage edges
+ * at `{collection}/{typeId}/lineage/{executionId}:{direction}:{resourceId}` and named refs
+ * at `{collection}/{typeId}/refs/{name}`, with their history in its `history` subcollection.
+ * Firebase Admin is only initialized on first use. Read-modify-write updates run in
+ * transactions, which Firestore retries on contention; a ConflictError is thrown once
+ * its attempts are exhausted.
+ */
+export class FirestoreMetadataStore implements MetadataStore {
+    private collection: string;
+    private firestore?: Firestore;
+    private cloud?: CloudConfig;
+
+    /**
+     * @param collection Root collection name
+     * @param firestore Optional Firestore instance (defaults to the shared Firebase Admin app)
+     * @param cloud Optional project, credentials and emulator of the shared Firebase Admin app,
+     *     if this store initializes it (defaults to loadConfig())
+     */
+    constructor(collection: string = 'resources', firestore?: Firestore, cloud?: CloudConfig) {
+        this.collection = collection;
+        this.firestore = firestore;
+        this.cloud = cloud;
+    }
+
+    async putMember(record: ResourceMemberRecord): Promise<void> {
+        await this.members(record.typeId).doc(record.id).set(record);
+    }
+
+    async putMembers(records: ResourceMemberRecord[]): Promise<void> {
+        for (let start = 0; start < records.length; start += MAX_BATCH_WRITES) {
+            const batch = this.db.batch();
+            for (const record of records.slice(start, start + MAX_BATCH_WRITES)) {
+                batch.set(this.members(record.typeId).doc(record.id), record);
+            }
+            await batch.commit();
+        }
+    }
+
+    async getMember(typeId: string, id: string): Promise<ResourceMemberRecord | null> {
+        const snapshot = await this.members(typeId).doc(id).get();
+        return snapshot.exists ? snapshot.data() as ResourceMemberRecord : null;
+    }
+
+    async queryMembers(query: ResourceMemberQuery): Promise<ResourceMemberRecord[]> {
+        let ref: Query = this.members(query.typeId);
+        if (query.roleId !== undefined) ref = ref.where('roleId', '==', query.roleId);
+        if (query.executionId !== undefined) ref = ref.where('executionId', '==', query.executionId);
+        if (query.pointer !== undefined) ref = ref.where('pointer', '==', query.pointer);
+        if (query.tag !== undefined) ref = ref.where('tags', 'array-contains', query.tag);
+        for (const [name, value] of Object.entries(query.properties || {})) {
+            // Property names may contain dots, so address them as separate path segments
+            ref = ref.where(new FieldPath('customProperties', name), '==', value);
+        }
+
+        const snapshot = await ref.get();
+        return snapshot.docs.map(doc => doc.data() as ResourceMemberRecord);
+    }
+
+    async updateMemberLabels(
+        typeId: string,
+        id: string,
+        update: ResourceLabelUpdate
+    ): Promise<ResourceMemberRecord | null> {
+        const docRef = this.members(typeId).doc(id);
+        return await this.transaction('updateMemberLabels', async transaction => {
+            const snapshot = await transaction.get(docRef);
+            if (!snapshot.exists) {
+                return null;
+            }
+            const record = snapshot.data() as ResourceMemberRecord;
+            applyLabelUpdate(record, update);
+            transaction.update(docRef, { tags: record.tags, customProperties: record.customProperties });
+            return record;
+        });
+    }
+
+    async deleteMember(typeId: string, id: string): Promise<void> {
+        await this.members(typeId).doc(id).delete();
+    }
+
+    async putCAFSEntry(typeId: string, entry: CAFSEntry): Promise<void> {
+        await this.entries(typeId).doc(entry.contentHash).set(entry);
+    }
+
+    async getCAFSEntry(typeId: string, contentHash: string): Promise<CAFSEntry | null> {
+        const snapshot = await this.entries(typeId).doc(contentHash).get();
+        return snapshot.exists ? this.toCAFSEntry(snapshot.data()) : null;
+    }
+
+    async queryCAFSEntries(typeId: string): Promise<CAFSEntry[]> {
+        const snapshot = await this.entries(typeId).get();
+        return snapshot.docs.map(doc => this.toCAFSEntry(doc.data()));
+    }
+
+    /**
+     * Lists a page of entries. Ordering, range filters on the ordered field and one of the
+     * tag/role/execution filters run server-side (which may need a composite index); the
+     * remaining filters are applied to the documents read, scanning on until the page is full.
+     * A tag is resolved to the resources labelled with it first, and filters server-side
+     * as long as there are few enough of them.
+     */
+    async queryCAFSEntryPage(query: CAFSEntryQuery): Promise<CAFSEntryPage> {
+        const field = query.orderBy ?? 'timestamp';
+        const direction = query.direction ?? 'asc';
+        const pageSize = query.pageSize ?? DEFAULT_PAGE_SIZE;
+        const fieldPath = ORDER_FIELD_PATHS[field];
+
+        const tagged = await taggedResourceIds(this, query);
+        if (tagged?.size === 0) {
+            return { entries: [] };
+        }
+
+        let ref: Query = this.entries(query.typeId);
+        // Firestore allows a single array-contains(-any) filter per query
+        if (tagged !== undefined && tagged.size <= MAX_ARRAY_CONTAINS_ANY) {
+            ref = ref.where('referencedBy', 'array-contains-any', [...tagged]);
+        } else if (query.roleId !== undefined) {
+            ref = ref.where('roleIds', 'array-contains', query.roleId);
+        } else if (query.executionId !== undefined) {
+            ref = ref.where('executionIds', 'array-contains', query.executionId);
+        }
+        for (const [op, value] of this.rangeFilters(query, field)) {
+            ref = ref.where(fieldPath, op, value);
+        }
+        ref = ref.orderBy(fieldPath, direction).orderBy(FieldPath.documentId(), direction).limit(pageSize);
+
+        const entries: CAFSEntry[] = [];
+        let cursor: EntryCursor | undefined = query.cursor !== undefined ? decodeCursor(query.cursor) : undefined;
+        for (;;) {
+            const snapshot = await (cursor
+                ? ref.startAfter(this.toFieldValue(field, cursor.value), cursor.contentHash)
+                : ref
+            ).get();
+
+            for (const doc of snapshot.docs) {
+                const entry = this.toCAFSEntry(doc.data());
+                cursor = { value: orderValue(entry, field), contentHash: entry.contentHash };
+                if (!matchesEntryQuery(entry, query, tagged)) continue;
+
+                entries.push(entry);
+                if (entries.length === pageSize) {
+                    return { entries, nextCursor: encodeCursor(entry, field) };
+                }
+            }
+            if (snapshot.size < pageSize) {
+                return { entries };
+            }
+        }
+    }
+
+    async findCAFSEntries(contentHash: string): Promise<CAFSEntry[]> {
+        const snapshot = await this.db.collectionGroup('cafs').where('contentHash', '==', contentHash).get();
+        // Collection group queries span the whole database, so keep only this root collection
+        return snapshot.docs
+            .filter(doc => doc.ref.path.startsWith(`${this.collection}/`))
+            .map(doc => this.toCAFSEntry(doc.data()));
+    }
+
+    async deleteCAFSEntry(typeId: string, contentHash: string): Promise<void> {
+        await this.entries(typeId).doc(contentHash).delete();
+    }
+
+    async deleteUnreferencedCAFSEntry(typeId: string, contentHash: string): Promise<boolean> {
+        const docRef = this.entries(typeId).doc(contentHash);
+        return await this.transaction('deleteUnreferencedCAFSEntry', async transaction => {
+            const snapshot = await transaction.get(docRef);
+            const entry = snapshot.exists ? this.toCAFSEntry(snapshot.data()) : null;
+            if (!entry || entry.referencedBy.length > 0 || entry.metadata.legalHold) {
+                return false;
+            }
+            transaction.delete(docRef);
+            return true;
+        });
+    }
+
+    async touchCAFSEntry(typeId: string, contentHash: string, accessedAt: Date): Promise<void> {
+        try {
+            // A single-field update needs no read, so it cannot lose concurrent changes
+            await this.entries(typeId).doc(contentHash).update({ 'metadata.lastAccessedAt': accessedAt });
+        } catch (error) {
+            if ((error as { code?: number }).code !== NOT_FOUND) {
+                throw error;
+            }
+        }
+    }
+
+    async setCAFSLegalHold(typeId: string, contentHash: string, held: boolean): Promise<CAFSEntry | null> {
+        const docRef = this.entries(typeId).doc(contentHash);
+        return await this.transaction('setCAFSLegalHold', async transaction => {
+            const snapshot = await transaction.get(docRef);
+            if (!snapshot.exists) {
+                return null;
+            }
+            const entry = this.toCAFSEntry(snapshot.data());
+            entry.metadata.legalHold = held;
+            transaction.update(docRef, { 'metadata.legalHold': held });
+            return entry;
+        });
+    }
+
+    async addCAFSReference(typeId: string, initial: CAFSEntry, reference: CAFSReference): Promise<CAFSEntry> {
+        const docRef = this.entries(typeId).doc(initial.contentHash);
+        return await this.transaction('addCAFSReference', async transaction => {
+            const snapshot = await transaction.get(docRef);
+            const entry = snapshot.exists
+                ? this.toCAFSEntry(snapshot.data())
+                : { ...initial, referencedBy: [], references: {} };
+            addReference(entry, reference);
+            transaction.set(docRef, entry);
+            return entry;
+        });
+    }
+
+    async removeCAFSReference(typeId: string, contentHash: string, resourceId: string): Promise<CAFSEntry | null> {
+        const docRef = this.entries(typeId).doc(contentHash);
+        return await this.transaction('removeCAFSReference', async transaction => {
+            const snapshot = await transaction.get(docRef);
+            if (!snapshot.exists) {
+                return null;
+            }
+            const entry = this.toCAFSEntry(snapshot.data());
+            removeReference(entry, resourceId);
+            transaction.set(docRef, entry);
+            return entry;
+        });
+    }
+
+    async getRef(typeId: string, name: string): Promise<CAFSRef | null> {
+        const snapshot = await this.refs(typeId).doc(name).get();
+        return toRef(snapshot.data() as RefRecord | undefined);
+    }
+
+    async listRefs(typeId: string): Promise<CAFSRef[]> {
+        const snapshot = await this.refs(typeId).where('contentHash', '!=', null).get();
+        return snapshot.docs.map(doc => toRef(doc.data() as RefRecord) as CAFSRef);
+    }
+
+    async updateRef(typeId: string, name: string, update: CAFSRefUpdate): Promise<CAFSRef | null> {
+        const docRef = this.refs(typeId).doc(name);
+        return await this.transaction('updateRef', async transaction => {
+            const snapshot = await transaction.get(docRef);
+            const current = snapshot.exists ? snapshot.data() as RefRecord : null;
+            const { record, entry } = applyRefUpdate(typeId, name, current, update, new Date().toISOString());
+            transaction.set(docRef, record);
+            transaction.set(docRef.collection('history').doc(String(entry.version).padStart(10, '0')), entry);
+            return toRef(record);
+        });
+    }
+
+    async queryRefHistory(typeId: string, name: string): Promise<CAFSRefLogEntry[]> {
+        const snapshot = await this.refs(typeId).doc(name).collection('history').orderBy('version', 'desc').get();
+        return snapshot.docs.map(doc => doc.data() as CAFSRefLogEntry);
+    }
+
+    async putLineageEdges(edges: LineageEdge[]): Promise<void> {
+        for (let start = 0; start < edges.length; start += MAX_BATCH_WRITES) {
+            const batch = this.db.batch();
+            for (const edge of edges.slice(start, start + MAX_BATCH_WRITES)) {
+                const edgeId = `${edge.executionId}:${edge.direction}:${edge.resourceId}`;
+                batch.set(this.lineage(edge.typeId).doc(edgeId), edge);
+            }
+            await batch.commit();
+        }
+    }
+
+    async queryLineageEdges(query: LineageQuery): Promise<LineageEdge[]> {
+        let ref: Query = query.typeId !== undefined
+            ? this.lineage(query.typeId)
+            : this.db.collectionGroup('lineage');
+        if (query.executionId !== undefined) ref = ref.where('executionId', '==', query.executionId);
+        if (query.direction !== undefined) ref = ref.where('direction', '==', query.direction);
+        if (query.resourceId !== undefined) ref = ref.where('resourceId', '==', query.resourceId);
+        if (query.contentHash !== undefined) ref = ref.where('contentHash', '==', query.contentHash);
+
+        const snapshot = await ref.get();
+        // Collection group queries span the whole database, so keep only this root collection
+        return snapshot.docs
+            .filter(doc => doc.ref.path.startsWith(`${this.collection}/`))
+            .map(doc => doc.data() as LineageEdge);
+    }
+
+    private get db(): Firestore {
+        if (!this.firestore) {
+            this.firestore = getDbAdmin(this.cloud);
+        }
+        return this.firestore;
+    }
+
+    /**
+     * Runs a transaction, reporting exhausted contention retries as a conflict
+     * @param operation Name of the operation
+     * @param fn The transaction body
+     * @returns The result of the transaction
+     */
+    private async transaction<T>(operation: string, fn: (transaction: Transaction) => Promise<T>): Promise<T> {
+        try {
+            return await this.db.runTransaction(fn);
+        } catch (error) {
+            if ((error as { code?: number }).code === ABORTED) {
+                throw new ConflictError(`Transaction ${operation} kept conflicting with concurrent updates`, {
+                    operation,
+                    cause: error
+                });
+            }
+            throw error;
+        }
+    }
+
+    private members(typeId: string): CollectionReference {
+        return this.db.collection(this.collection).doc(typeId).collection('members');
+    }
+
+    private entries(typeId: string): CollectionReference {
+        return this.db.collection(this.collection).doc(typeId).collection('cafs');
+    }
+
+    private lineage(typeId: string): CollectionReference {
+        return this.db.collection(this.collection).doc(typeId).collection('lineage');
+    }
+
+    private refs(typeId: string): CollectionReference {
+        return this.db.collection(this.collection).doc(typeId).collection('refs');
+    }
+
+    /**
+     * Builds the server-side range filters of a query that apply to the ordered field
+     * @param query The query
+     * @param field The ordered field
+     * @returns The filter operators and values
+     */
+    private rangeFilters(query: CAFSEntryQuery, field: CAFSEntryOrderField): [WhereFilterOp, unknown][] {
+        const bounds: [WhereFilterOp, unknown][] = [];
+        const addDateBounds = (after?: Date | string, before?: Date | string): void => {
+            if (after !== undefined) bounds.push(['>=', this.toFieldValue(field, toTime(after))]);
+            if (before !== undefined) bounds.push(['<', this.toFieldValue(field, toTime(before))]);
+        };
+
+        if (field === 'contentSize') {
+            if (query.minSize !== undefined) bounds.push(['>=', query.minSize]);
+            if (query.maxSize !== undefined) bounds.push(['<=', query.maxSize]);
+        } else if (field === 'timestamp') {
+            addDateBounds(query.createdAfter, query.createdBefore);
+        } else if (field === 'lastAccessedAt') {
+            addDateBounds(query.lastAccessedAfter, query.lastAccessedBefore);
+        }
+        return bounds;
+    }
+
+    /**
+     * Converts an ordered value back to the representation stored in the document
+     * @param field The ordered field
+     * @param value The value (dates as epoch milliseconds)
+     * @returns The stored representation
+     */
+    private toFieldValue(field: CAFSEntryOrderField, value: string | number): unknown {
+        if (field === 'timestamp') return new Date(value).toISOString();
+        if (field === 'lastAccessedAt') return Timestamp.fromMillis(Number(value));
+        return value;
+    }
+
+    /**
+     * Converts a stored document back into a CAFS entry, restoring Firestore timestamps to dates
+     * @param data The document data
+     * @returns The CAFS entry
+     */
+    private toCAFSEntry(data: DocumentData | undefined): CAFSEntry {
+        const entry = data as CAFSEntry;
+        const lastAccessedAt: unknown = entry.metadata.lastAccessedAt;
+        if (lastAccessedAt instanceof Timestamp) {
+            entry.metadata.lastAccessedAt = lastAccessedAt.toDate();
+        }
+        return entry;
+    }
+}
@@ -0,0 +1,210 @@
+import { Storage, Bucket, CopyOptions } from '@google-cloud/storage';
+import { Readable, Writable } from 'stream';
+import { AlreadyExistsError, ConflictError } from '../errors.js';
+import {
+    BlobListOptions,
+    BlobListPage,
+    BlobMetadata,
+    BlobPreconditions,
+    BlobSignedUrlOptions,
+    BlobStore,
+    BlobWriteOptions,
+    CloudConfig
+} from '../types/index.js';
+import { DEFAULT_LIST_PAGE_SIZE } from './blob-pages.js';
+
+/** Content larger than this is uploaded with a resumable upload */
+const RESUMABLE_THRESHOLD = 8 * 1024 * 1024;
+
+/** HTTP status GCS responds with when a precondition does not hold */
+const PRECONDITION_FAILED = 412;
+
+/**
+ * Creates a Cloud Storage client for a project and credentials, or for an emulator
+ * @param cloud The project, credentials and emulator (see loadConfig)
+ * @returns The client
+ */
+export function createStorageClient(cloud: CloudConfig = {}): Storage {
+    const emulator = cloud.storageEmulatorHost;
+    return new Storage({
+        ...(cloud.projectId && { projectId: cloud.projectId }),
+        ...(cloud.credentialsFile && { keyFilename: cloud.credentialsFile }),
+        // Requests to a custom endpoint are sent without credentials
+        ...(emulator && { apiEndpoint: /^https?:\/\//.test(emulator) ? emulator : `http://${emulator}` })
+    });
+}
+
+/**
+ * Blob store backed by a Google Cloud Storage bucket
+ */
+export class GCSBlobStore implements BlobStore {
+    private bucket: Bucket;
+
+    constructor(bucketName: string, storage: Storage = new Storage()) {
+        this.bucket = storage.bucket(bucketName);
+    }
+
+    async read(path: string): Promise<Buffer> {
+        const [contents] = await this.bucket.file(path).download();
+        return contents;
+    }
+
+    createReadStream(path: string): Readable {
+        return this.bucket.file(path).createReadStream();
+    }
+
+    async write(path: string, content: string | Buffer, options: BlobWriteOptions = {}): Promise<void> {
+        await this.guard(path, 'write', options, () => this.bucket.file(path).save(content, {
+            resumable: Buffer.byteLength(content) > RESUMABLE_THRESHOLD,
+            metadata: {
+                contentType: options.contentType || 'application/octet-stream',
+                metadata: options.metadata || {}
+            },
+            preconditionOpts: this.toPreconditionOpts(options)
+        }));
+    }
+
+    createWriteStream(path: string, options: BlobWriteOptions = {}): Writable {
+        // The size of streamed content is unknown up front, so always upload resumably
+        return this.bucket.file(path).createWriteStream({
+            resumable: true,
+            metadata: {
+                contentType: options.contentType || 'application/octet-stream',
+                metadata: options.metadata || {}
+            },
+            preconditionOpts: this.toPreconditionOpts(options)
+        });
+    }
+
+    async move(
+        sourcePath: string,
+        destinationPath: string,
+        preconditions: BlobPreconditions = {},
+        metadata?: Record<string, string>
+    ): Promise<void> {
+        const file = this.bucket.file(sourcePath);
+        const options: CopyOptions = { preconditionOpts: this.toPreconditionOpts(preconditions) };
+        if (metadata) {
+            // The copy takes all of its metadata from the request once any is given, so keep the content type
+            const [current] = await file.getMetadata();
+            options.contentType = current.contentType;
+            options.metadata = metadata;
+        }
+        // Moving copies the blob with the options and then deletes the source
+        await this.guard(destinationPath, 'move', preconditions, () => file.move(destinationPath, options));
+    }
+
+    async setMetadata(
+        path: string,
+        metadata: Record<string, string>,
+        preconditions: BlobPreconditions = {}
+    ): Promise<void> {
+        const file = this.bucket.file(path);
+        const [current] = await file.getMetadata();
+
+        // GCS merges custom metadata, so clear keys that are not being kept
+        const patch: Record<string, string | null> = {};
+        for (const key of Object.keys(current.metadata || {})) {
+            patch[key] = null;
+        }
+        await this.guard(path, 'setMetadata', preconditions, () => file.setMetadata(
+            { metadata: { ...patch, ...metadata } },
+            this.toPreconditionOpts(preconditions)
+        ));
+    }
+
+    async exists(path: string): Promise<boolean> {
+        const [exists] = await this.bucket.file(path).exists();
+        return exists;
+    }
+
+    async getMetadata(path: string): Promise<BlobMetadata> {
+        const [metadata] = await this.bucket.file(path).getMetadata();
+        const custom: Record<string, string> = {};
+        for (const [key, value] of Object.entries(metadata.metadata || {})) {
+            if (value != null) {
+                custom[key] = String(value);
+            }
+        }
+        return {
+            path,
+            size: Number(metadata.size ?? 0),
+            contentType: metadata.contentType || 'application/octet-stream',
+            updated: metadata.updated || '',
+            generation: String(metadata.generation ?? ''),
+            storageClass: metadata.storageClass,
+            metadata: custom
+        };
+    }
+
+    async delete(path: string, preconditions: BlobPreconditions = {}): Promise<void> {
+        await this.guard(path, 'delete', preconditions, () => this.bucket.file(path).delete(this.toPreconditionOpts(preconditions)));
+    }
+
+    async list(prefix?: string): Promise<string[]> {
+        const [files] = await this.bucket.getFiles({ prefix });
+        return files.map(file => file.name);
+    }
+
+    async listPage(prefix: string, options: BlobListOptions = {}): Promise<BlobListPage> {
+        const [files, nextQuery] = await this.bucket.getFiles({
+            prefix,
+            maxResults: options.pageSize ?? DEFAULT_LIST_PAGE_SIZE,
+            pageToken: options.pageToken,
+            autoPaginate: false
+        });
+        return {
+            paths: files.map(file => file.name),
+            nextPageToken: (nextQuery as { pageToken?: string } | null)?.pageToken
+        };
+    }
+
+    async getSignedUrl(path: string, options: BlobSignedUrlOptions): Promise<string> {
+        const [url] = await this.bucket.file(path).getSignedUrl({
+            version: 'v4',
+            action: options.action,
+            expires: options.expires,
+            contentType: options.contentType,
+            extensionHeaders: options.extensionHeaders,
+            responseDisposition: options.responseDisposition
+        });
+        return url;
+    }
+
+    async setStorageClass(path: string, storageClass: string): Promise<void> {
+        await this.bucket.file(path).setStorageClass(storageClass);
+    }
+
+    private toPreconditionOpts(preconditions: BlobPreconditions): { ifGenerationMatch?: number | string } {
+        return preconditions.ifGenerationMatch !== undefined
+            ? { ifGenerationMatch: preconditions.ifGenerationMatch }
+            : {};
+    }
+
+    /**
+     * Runs a blob mutation, turning failed preconditions into conflict errors
+     * @param path The blob path
+     * @param operation Name of the operation
+     * @param preconditions The preconditions of the mutation
+     * @param fn The mutation
+     * @returns The result of the mutation
+     */
+    private async guard<T>(
+        path: string,
+        operation: string,
+        preconditions: BlobPreconditions,
+        fn: () => Promise<T>
+    ): Promise<T> {
+        try {
+            return await fn();
+        } catch (error) {
+            if ((error as { code?: number }).code === PRECONDITION_FAILED) {
+                if (String(preconditions.ifGenerationMatch) === '0') {
+                    throw new AlreadyExistsError(`Blob ${path} already exists`, { operation, path, cause: error });
+                }
+                throw new ConflictError(`Precondition failed for blob ${path}`, { operation, path, cause: error });
+            }
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,323 @@
+import { createReadStream } from 'fs';
+import { FileHandle, link, mkdir, open, readFile, readdir, rename, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable, Writable } from 'stream';
+import { AlreadyExistsError, ConflictError, GCSUtilsError, NotFoundError } from '../errors.js';
+import {
+    BlobListOptions,
+    BlobListPage,
+    BlobMetadata,
+    BlobPreconditions,
+    BlobStore,
+    BlobWriteOptions
+} from '../types/index.js';
+import { pageOf } from './blob-pages.js';
+
+/** Suffix of the sidecar files holding blob metadata */
+const SIDECAR_SUFFIX = '.meta.json';
+
+/** Storage class of blobs that were never moved to another one */
+const DEFAULT_STORAGE_CLASS = 'STANDARD';
+
+interface SidecarContent {
+    contentType: string;
+    updated: string;
+    generation: string;
+    storageClass?: string;
+    metadata: Record<string, string>;
+}
+
+/**
+ * Blob store backed by a local directory.
+ * Each blob is a regular file; its content type and custom metadata are kept
+ * in a `<file>.meta.json` sidecar next to it.
+ * "Must not exist" preconditions (generation 0) use exclusive file creation and are
+ * atomic; other generation preconditions are checked just before the change.
+ */
+export class LocalBlobStore implements BlobStore {
+    private rootDir: string;
+    private lastGeneration = 0;
+
+    constructor(rootDir: string) {
+        this.rootDir = path.resolve(rootDir);
+    }
+
+    async read(blobPath: string): Promise<Buffer> {
+        const filePath = this.resolvePath(blobPath);
+        await this.assertExists(blobPath, filePath);
+        return await readFile(filePath);
+    }
+
+    createReadStream(blobPath: string): Readable {
+        return createReadStream(this.resolvePath(blobPath));
+    }
+
+    async write(blobPath: string, content: string | Buffer, options: BlobWriteOptions = {}): Promise<void> {
+        const filePath = this.resolvePath(blobPath);
+        await this.checkPreconditions(blobPath, filePath, options, 'write');
+        await mkdir(path.dirname(filePath), { recursive: true });
+        await writeFile(filePath, content, { flag: this.isCreateOnly(options) ? 'wx' : 'w' })
+            .catch(error => this.rethrowExists(error, blobPath, 'write'));
+        await this.writeSidecar(filePath, options);
+    }
+
+    createWriteStream(blobPath: string, options: BlobWriteOptions = {}): Writable {
+        const filePath = this.resolvePath(blobPath);
+        let handle: FileHandle | undefined;
+        let opened = false;
+
+        return new Writable({
+            construct: (callback): void => {
+                this.checkPreconditions(blobPath, filePath, options, 'write')
+                    .then(() => mkdir(path.dirname(filePath), { recursive: true }))
+                    .then(() => open(filePath, this.isCreateOnly(options) ? 'wx' : 'w'))
+                    .catch(error => this.rethrowExists(error, blobPath, 'write'))
+                    .then(file => {
+                        handle = file;
+                        opened = true;
+                        callback();
+                    }, callback);
+            },
+            write: (chunk: Buffer, _encoding, callback): void => {
+                (handle as FileHandle).write(chunk).then(() => callback(), callback);
+            },
+            final: (callback): void => {
+                (handle as FileHandle).close()
+                    .then(() => {
+                        handle = undefined;
+                        return this.writeSidecar(filePath, options);
+                    })
+                    .then(() => callback(), callback);
+            },
+            destroy: (error, callback): void => {
+                // Discard partially written content when the upload fails
+                const cleanup = async (): Promise<void> => {
+                    await handle?.close();
+                    // A file that was never opened by this stream is not ours to remove
+                    if (error && opened) {
+                        await rm(filePath, { force: true });
+                    }
+                };
+                cleanup().then(() => callback(error), () => callback(error));
+            }
+        });
+    }
+
+    async move(
+        sourcePath: string,
+        destinationPath: string,
+        preconditions: BlobPreconditions = {},
+        metadata?: Record<string, string>
+    ): Promise<void> {
+        const sourceFile = this.resolvePath(sourcePath);
+        const destinationFile = this.resolvePath(destinationPath);
+        await this.assertExists(sourcePath, sourceFile);
+        await this.checkPreconditions(destinationPath, destinationFile, preconditions, 'move');
+
+        await mkdir(path.dirname(destinationFile), { recursive: true });
+        if (this.isCreateOnly(preconditions)) {
+            // Linking fails if the destination exists, unlike renaming
+            await link(sourceFile, destinationFile).catch(error => this.rethrowExists(error, destinationPath, 'move'));
+            await rm(sourceFile);
+        } else {
+            await rename(sourceFile, destinationFile);
+        }
+
+        const sidecar = await this.readSidecar(sourceFile);
+        await rm(sourceFile + SIDECAR_SUFFIX, { force: true });
+        await this.writeSidecar(destinationFile, { contentType: sidecar?.contentType, metadata: metadata ?? sidecar?.metadata });
+    }
+
+    async setMetadata(
+        blobPath: string,
+        metadata: Record<string, string>,
+        preconditions: BlobPreconditions = {}
+    ): Promise<void> {
+        const filePath = this.resolvePath(blobPath);
+        await this.assertExists(blobPath, filePath);
+        await this.checkPreconditions(blobPath, filePath, preconditions, 'setMetadata');
+
+        const sidecar = await this.readSidecar(filePath);
+        await this.writeSidecar(
+            filePath,
+            { contentType: sidecar?.contentType, metadata },
+            sidecar?.generation,
+            sidecar?.storageClass
+        );
+    }
+
+    async exists(blobPath: string): Promise<boolean> {
+        return await this.isFile(this.resolvePath(blobPath));
+    }
+
+    async getMetadata(blobPath: string): Promise<BlobMetadata> {
+        const filePath = this.resolvePath(blobPath);
+        await this.assertExists(blobPath, filePath);
+
+        const stats = await stat(filePath);
+        const sidecar = await this.readSidecar(filePath);
+        return {
+            path: blobPath,
+            size: stats.size,
+            contentType: sidecar?.contentType || 'application/octet-stream',
+            updated: sidecar?.updated || stats.mtime.toISOString(),
+            generation: sidecar?.generation || this.generationOf(stats.mtimeMs),
+            storageClass: sidecar?.storageClass || DEFAULT_STORAGE_CLASS,
+            metadata: sidecar?.metadata || {}
+        };
+    }
+
+    async delete(blobPath: string, preconditions: BlobPreconditions = {}): Promise<void> {
+        const filePath = this.resolvePath(blobPath);
+        await this.assertExists(blobPath, filePath);
+        await this.checkPreconditions(blobPath, filePath, preconditions, 'delete');
+        await rm(filePath);
+        await rm(filePath + SIDECAR_SUFFIX, { force: true });
+    }
+
+    async list(prefix: string = ''): Promise<string[]> {
+        const paths: string[] = [];
+        await this.walk(this.rootDir, paths);
+        return paths.filter(blobPath => blobPath.startsWith(prefix)).sort();
+    }
+
+    async listPage(prefix: string, options: BlobListOptions = {}): Promise<BlobListPage> {
+        return pageOf(await this.list(prefix), options);
+    }
+
+    async getSignedUrl(blobPath: string): Promise<string> {
+        throw new GCSUtilsError('Signed URLs are not supported by the local blob store', {
+            operation: 'getSignedUrl',
+            path: blobPath
+        });
+    }
+
+    async setStorageClass(blobPath: string, storageClass: string): Promise<void> {
+        const filePath = this.resolvePath(blobPath);
+        await this.assertExists(blobPath, filePath);
+
+        // The storage class is only recorded: local files have no storage tiers
+        const sidecar = await this.readSidecar(filePath);
+        const options = { contentType: sidecar?.contentType, metadata: sidecar?.metadata };
+        await this.writeSidecar(filePath, options, this.nextGeneration(), storageClass);
+    }
+
+    /**
+     * Maps a blob path to a file path, rejecting paths that escape the root directory
+     * @param blobPath The blob path
+     * @returns The absolute file path
+     */
+    private resolvePath(blobPath: string): string {
+        const filePath = path.resolve(this.rootDir, blobPath);
+        if (!filePath.startsWith(this.rootDir + path.sep)) {
+            throw new GCSUtilsError(`Invalid blob path ${blobPath}`, { path: blobPath });
+        }
+        if (filePath.endsWith(SIDECAR_SUFFIX)) {
+            throw new GCSUtilsError(`Blob paths ending in ${SIDECAR_SUFFIX} are reserved for metadata sidecars`, {
+                path: blobPath
+            });
+        }
+        return filePath;
+    }
+
+    private async assertExists(blobPath: string, filePath: string): Promise<void> {
+        if (!(await this.isFile(filePath))) {
+            throw new NotFoundError(`Blob ${blobPath} does not exist`, { path: blobPath });
+        }
+    }
+
+    private isCreateOnly(preconditions: BlobPreconditions): boolean {
+        return preconditions.ifGenerationMatch !== undefined && String(preconditions.ifGenerationMatch) === '0';
+    }
+
+    private async checkPreconditions(
+        blobPath: string,
+        filePath: string,
+        preconditions: BlobPreconditions,
+        operation: string
+    ): Promise<void> {
+        if (preconditions.ifGenerationMatch === undefined) return;
+
+        let generation = '0';
+        if (await this.isFile(filePath)) {
+            const sidecar = await this.readSidecar(filePath);
+            generation = sidecar?.generation || this.generationOf((await stat(filePath)).mtimeMs);
+        }
+        if (generation !== String(preconditions.ifGenerationMatch)) {
+            if (this.isCreateOnly(preconditions)) {
+                throw new AlreadyExistsError(`Blob ${blobPath} already exists`, { operation, path: blobPath });
+            }
+            throw new ConflictError(
+                `Blob ${blobPath} is at generation ${generation}, expected ${preconditions.ifGenerationMatch}`,
+                { operation, path: blobPath }
+            );
+        }
+    }
+
+    private rethrowExists(error: NodeJS.ErrnoException, blobPath: string, operation: string): never {
+        if (error.code === 'EEXIST') {
+            throw new AlreadyExistsError(`Blob ${blobPath} already exists`, { operation, path: blobPath, cause: error });
+        }
+        throw error;
+    }
+
+    private nextGeneration(): string {
+        // Microsecond timestamps like GCS, kept strictly increasing
+        this.lastGeneration = Math.max(this.lastGeneration + 1, Date.now() * 1000);
+        return String(this.lastGeneration);
+    }
+
+    private generationOf(mtimeMs: number): string {
+        return String(Math.trunc(mtimeMs * 1000));
+    }
+
+    private async isFile(filePath: string): Promise<boolean> {
+        try {
+            return (await stat(filePath)).isFile();
+        } catch {
+            return false;
+        }
+    }
+
+    private async writeSidecar(
+        filePath: string,
+        options: BlobWriteOptions,
+        generation: string = this.nextGeneration(),
+        storageClass?: string
+    ): Promise<void> {
+        const sidecar: SidecarContent = {
+            contentType: options.contentType || 'application/octet-stream',
+            updated: new Date().toISOString(),
+            generation,
+            ...(storageClass && { storageClass }),
+            metadata: { ...options.metadata }
+        };
+        await writeFile(filePath + SIDECAR_SUFFIX, JSON.stringify(sidecar, null, 2));
+    }
+
+    private async readSidecar(filePath: string): Promise<SidecarContent | null> {
+        try {
+            return JSON.parse(await readFile(filePath + SIDECAR_SUFFIX, 'utf8')) as SidecarContent;
+        } catch {
+            return null;
+        }
+    }
+
+    private async walk(dir: string, paths: string[]): Promise<void> {
+        let entries;
+        try {
+            entries = await readdir(dir, { withFileTypes: true });
+        } catch {
+            return;
+        }
+
+        for (const entry of entries) {
+            const entryPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                await this.walk(entryPath, paths);
+            } else if (entry.isFile() && !entry.name.endsWith(SIDECAR_SUFFIX)) {
+                paths.push(path.relative(this.rootDir, entryPath).split(path.sep).join('/'));
+            }
+        }
+    }
+}
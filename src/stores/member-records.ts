@@ -0,0 +1,39 @@
+import { ResourceLabelUpdate, ResourceMemberQuery, ResourceMemberRecord } from '../types/index.js';
+
+/**
+ * Applies tag and custom property changes to a resource member record
+ * @param record The record to update in place
+ * @param update The changes
+ */
+export function applyLabelUpdate(record: ResourceMemberRecord, update: ResourceLabelUpdate): void {
+    const removed = new Set(update.removeTags || []);
+    const tags = (record.tags || []).filter(tag => !removed.has(tag));
+    for (const tag of update.addTags || []) {
+        if (!tags.includes(tag)) {
+            tags.push(tag);
+        }
+    }
+    record.tags = tags;
+
+    const customProperties = { ...record.customProperties, ...update.setProperties };
+    for (const name of update.removeProperties || []) {
+        delete customProperties[name];
+    }
+    record.customProperties = customProperties;
+}
+
+/**
+ * Checks whether a resource member record satisfies a query
+ * @param record The record
+ * @param query The query
+ * @returns Whether the record matches
+ */
+export function matchesMemberQuery(record: ResourceMemberRecord, query: ResourceMemberQuery): boolean {
+    return record.typeId === query.typeId &&
+        (query.roleId === undefined || record.roleId === query.roleId) &&
+        (query.executionId === undefined || record.executionId === query.executionId) &&
+        (query.pointer === undefined || record.pointer === query.pointer) &&
+        (query.tag === undefined || (record.tags || []).includes(query.tag)) &&
+        Object.entries(query.properties || {})
+            .every(([name, value]) => record.customProperties?.[name] === value);
+}
@@ -0,0 +1,163 @@
+import { Readable, Writable } from 'stream';
+import { AlreadyExistsError, ConflictError, GCSUtilsError, NotFoundError } from '../errors.js';
+import {
+    BlobListOptions,
+    BlobListPage,
+    BlobMetadata,
+    BlobPreconditions,
+    BlobStore,
+    BlobWriteOptions
+} from '../types/index.js';
+import { pageOf } from './blob-pages.js';
+
+/** Storage class of blobs that were never moved to another one */
+const DEFAULT_STORAGE_CLASS = 'STANDARD';
+
+interface MemoryBlob {
+    content: Buffer;
+    contentType: string;
+    updated: string;
+    generation: string;
+    storageClass?: string;
+    metadata: Record<string, string>;
+}
+
+/**
+ * In-memory blob store, intended for unit tests and offline development
+ */
+export class MemoryBlobStore implements BlobStore {
+    private blobs = new Map<string, MemoryBlob>();
+    private lastGeneration = 0;
+
+    async read(path: string): Promise<Buffer> {
+        return Buffer.from(this.getBlob(path).content);
+    }
+
+    createReadStream(path: string): Readable {
+        return Readable.from(this.readChunks(path));
+    }
+
+    async write(path: string, content: string | Buffer, options: BlobWriteOptions = {}): Promise<void> {
+        this.checkPreconditions(path, options, 'write');
+        this.blobs.set(path, {
+            content: Buffer.from(content),
+            contentType: options.contentType || 'application/octet-stream',
+            updated: new Date().toISOString(),
+            generation: this.nextGeneration(),
+            metadata: { ...options.metadata }
+        });
+    }
+
+    createWriteStream(path: string, options: BlobWriteOptions = {}): Writable {
+        const chunks: Buffer[] = [];
+        return new Writable({
+            write: (chunk: Buffer, _encoding, callback): void => {
+                chunks.push(Buffer.from(chunk));
+                callback();
+            },
+            final: (callback): void => {
+                this.write(path, Buffer.concat(chunks), options).then(() => callback(), callback);
+            }
+        });
+    }
+
+    async move(
+        sourcePath: string,
+        destinationPath: string,
+        preconditions: BlobPreconditions = {},
+        metadata?: Record<string, string>
+    ): Promise<void> {
+        const blob = this.getBlob(sourcePath);
+        this.checkPreconditions(destinationPath, preconditions, 'move');
+        this.blobs.delete(sourcePath);
+        this.blobs.set(destinationPath, {
+            ...blob,
+            metadata: metadata ? { ...metadata } : blob.metadata,
+            updated: new Date().toISOString(),
+            generation: this.nextGeneration()
+        });
+    }
+
+    async setMetadata(path: string, metadata: Record<string, string>, preconditions: BlobPreconditions = {}): Promise<void> {
+        const blob = this.getBlob(path);
+        this.checkPreconditions(path, preconditions, 'setMetadata');
+        blob.metadata = { ...metadata };
+    }
+
+    async exists(path: string): Promise<boolean> {
+        return this.blobs.has(path);
+    }
+
+    async getMetadata(path: string): Promise<BlobMetadata> {
+        const blob = this.getBlob(path);
+        return {
+            path,
+            size: blob.content.length,
+            contentType: blob.contentType,
+            updated: blob.updated,
+            generation: blob.generation,
+            storageClass: blob.storageClass || DEFAULT_STORAGE_CLASS,
+            metadata: { ...blob.metadata }
+        };
+    }
+
+    async delete(path: string, preconditions: BlobPreconditions = {}): Promise<void> {
+        this.getBlob(path);
+        this.checkPreconditions(path, preconditions, 'delete');
+        this.blobs.delete(path);
+    }
+
+    async list(prefix: string = ''): Promise<string[]> {
+        return [...this.blobs.keys()].filter(path => path.startsWith(prefix)).sort();
+    }
+
+    async listPage(prefix: string, options: BlobListOptions = {}): Promise<BlobListPage> {
+        return pageOf(await this.list(prefix), options);
+    }
+
+    async getSignedUrl(path: string): Promise<string> {
+        throw new GCSUtilsError('Signed URLs are not supported by the in-memory blob store', {
+            operation: 'getSignedUrl',
+            path
+        });
+    }
+
+    async setStorageClass(path: string, storageClass: string): Promise<void> {
+        const blob = this.getBlob(path);
+        // Like GCS, changing the storage class rewrites the blob
+        this.blobs.set(path, { ...blob, storageClass, updated: new Date().toISOString(), generation: this.nextGeneration() });
+    }
+
+    private async *readChunks(path: string): AsyncGenerator<Buffer> {
+        yield Buffer.from(this.getBlob(path).content);
+    }
+
+    private nextGeneration(): string {
+        // Microsecond timestamps like GCS, kept strictly increasing
+        this.lastGeneration = Math.max(this.lastGeneration + 1, Date.now() * 1000);
+        return String(this.lastGeneration);
+    }
+
+    private checkPreconditions(path: string, preconditions: BlobPreconditions, operation: string): void {
+        if (preconditions.ifGenerationMatch === undefined) return;
+
+        const generation = this.blobs.get(path)?.generation ?? '0';
+        if (generation !== String(preconditions.ifGenerationMatch)) {
+            if (String(preconditions.ifGenerationMatch) === '0') {
+                throw new AlreadyExistsError(`Blob ${path} already exists`, { operation, path });
+            }
+            throw new ConflictError(
+                `Blob ${path} is at generation ${generation}, expected ${preconditions.ifGenerationMatch}`,
+                { operation, path }
+            );
+        }
+    }
+
+    private getBlob(path: string): MemoryBlob {
+        const blob = this.blobs.get(path);
+        if (!blob) {
+            throw new NotFoundError(`Blob ${path} does not exist`, { path });
+        }
+        return blob;
+    }
+}
@@ -0,0 +1,205 @@
+import {
+    CAFSEntry,
+    CAFSEntryPage,
+    CAFSEntryQuery,
+    CAFSRef,
+    CAFSRefLogEntry,
+    CAFSRefUpdate,
+    CAFSReference,
+    LineageEdge,
+    LineageQuery,
+    MetadataStore,
+    ResourceLabelUpdate,
+    ResourceMemberQuery,
+    ResourceMemberRecord
+} from '../types/index.js';
+import {
+    DEFAULT_PAGE_SIZE,
+    addReference,
+    compareEntries,
+    compareToCursor,
+    decodeCursor,
+    encodeCursor,
+    matchesEntryQuery,
+    removeReference,
+    taggedResourceIds
+} from './cafs-entries.js';
+import { applyLabelUpdate, matchesMemberQuery } from './member-records.js';
+import { RefRecord, applyRefUpdate, toRef } from './refs.js';
+
+/**
+ * In-memory metadata store, intended for unit tests and offline development
+ */
+export class MemoryMetadataStore implements MetadataStore {
+    private members = new Map<string, ResourceMemberRecord>();
+    private entries = new Map<string, CAFSEntry>();
+    private lineage = new Map<string, LineageEdge>();
+    private refs = new Map<string, RefRecord>();
+    private refHistory = new Map<string, CAFSRefLogEntry[]>();
+
+    async putMember(record: ResourceMemberRecord): Promise<void> {
+        this.members.set(this.key(record.typeId, record.id), structuredClone(record));
+    }
+
+    async putMembers(records: ResourceMemberRecord[]): Promise<void> {
+        for (const record of records) {
+            await this.putMember(record);
+        }
+    }
+
+    async getMember(typeId: string, id: string): Promise<ResourceMemberRecord | null> {
+        const record = this.members.get(this.key(typeId, id));
+        return record ? structuredClone(record) : null;
+    }
+
+    async queryMembers(query: ResourceMemberQuery): Promise<ResourceMemberRecord[]> {
+        return [...this.members.values()]
+            .filter(record => matchesMemberQuery(record, query))
+            .map(record => structuredClone(record));
+    }
+
+    async updateMemberLabels(
+        typeId: string,
+        id: string,
+        update: ResourceLabelUpdate
+    ): Promise<ResourceMemberRecord | null> {
+        const record = this.members.get(this.key(typeId, id));
+        if (!record) {
+            return null;
+        }
+        applyLabelUpdate(record, update);
+        return structuredClone(record);
+    }
+
+    async deleteMember(typeId: string, id: string): Promise<void> {
+        this.members.delete(this.key(typeId, id));
+    }
+
+    async putCAFSEntry(typeId: string, entry: CAFSEntry): Promise<void> {
+        this.entries.set(this.key(typeId, entry.contentHash), structuredClone(entry));
+    }
+
+    async getCAFSEntry(typeId: string, contentHash: string): Promise<CAFSEntry | null> {
+        const entry = this.entries.get(this.key(typeId, contentHash));
+        return entry ? structuredClone(entry) : null;
+    }
+
+    async queryCAFSEntries(typeId: string): Promise<CAFSEntry[]> {
+        const prefix = this.key(typeId, '');
+        return [...this.entries.entries()]
+            .filter(([key]) => key.startsWith(prefix))
+            .map(([, entry]) => structuredClone(entry));
+    }
+
+    async queryCAFSEntryPage(query: CAFSEntryQuery): Promise<CAFSEntryPage> {
+        const field = query.orderBy ?? 'timestamp';
+        const sign = query.direction === 'desc' ? -1 : 1;
+        const pageSize = query.pageSize ?? DEFAULT_PAGE_SIZE;
+        const cursor = query.cursor !== undefined ? decodeCursor(query.cursor) : undefined;
+        const tagged = await taggedResourceIds(this, query);
+
+        const matches = (await this.queryCAFSEntries(query.typeId))
+            .filter(entry => matchesEntryQuery(entry, query, tagged))
+            .filter(entry => !cursor || sign * compareToCursor(entry, cursor, field) > 0)
+            .sort((a, b) => sign * compareEntries(a, b, field));
+
+        const entries = matches.slice(0, pageSize);
+        return {
+            entries,
+            nextCursor: matches.length > pageSize ? encodeCursor(entries[entries.length - 1], field) : undefined
+        };
+    }
+
+    async findCAFSEntries(contentHash: string): Promise<CAFSEntry[]> {
+        return [...this.entries.values()]
+            .filter(entry => entry.contentHash === contentHash)
+            .map(entry => structuredClone(entry));
+    }
+
+    async deleteCAFSEntry(typeId: string, contentHash: string): Promise<void> {
+        this.entries.delete(this.key(typeId, contentHash));
+    }
+
+    async deleteUnreferencedCAFSEntry(typeId: string, contentHash: string): Promise<boolean> {
+        const key = this.key(typeId, contentHash);
+        const entry = this.entries.get(key);
+        if (!entry || entry.referencedBy.length > 0 || entry.metadata.legalHold) {
+            return false;
+        }
+        this.entries.delete(key);
+        return true;
+    }
+
+    async touchCAFSEntry(typeId: string, contentHash: string, accessedAt: Date): Promise<void> {
+        const entry = this.entries.get(this.key(typeId, contentHash));
+        if (entry) {
+            entry.metadata.lastAccessedAt = new Date(accessedAt);
+        }
+    }
+
+    async setCAFSLegalHold(typeId: string, contentHash: string, held: boolean): Promise<CAFSEntry | null> {
+        const entry = this.entries.get(this.key(typeId, contentHash));
+        if (!entry) {
+            return null;
+        }
+        entry.metadata.legalHold = held;
+        return structuredClone(entry);
+    }
+
+    async addCAFSReference(typeId: string, initial: CAFSEntry, reference: CAFSReference): Promise<CAFSEntry> {
+        const key = this.key(typeId, initial.contentHash);
+        const entry = this.entries.get(key) || structuredClone({ ...initial, referencedBy: [], references: {} });
+        addReference(entry, reference);
+        this.entries.set(key, entry);
+        return structuredClone(entry);
+    }
+
+    async removeCAFSReference(typeId: string, contentHash: string, resourceId: string): Promise<CAFSEntry | null> {
+        const entry = this.entries.get(this.key(typeId, contentHash));
+        if (!entry) {
+            return null;
+        }
+        removeReference(entry, resourceId);
+        return structuredClone(entry);
+    }
+
+    async putLineageEdges(edges: LineageEdge[]): Promise<void> {
+        for (const edge of edges) {
+            this.lineage.set(`${edge.executionId}:${edge.direction}:${edge.typeId}/${edge.resourceId}`, { ...edge });
+        }
+    }
+
+    async queryLineageEdges(query: LineageQuery): Promise<LineageEdge[]> {
+        return [...this.lineage.values()]
+            .filter(edge => (Object.keys(query) as (keyof LineageQuery)[])
+                .every(field => query[field] === undefined || edge[field] === query[field]))
+            .map(edge => ({ ...edge }));
+    }
+
+    async getRef(typeId: string, name: string): Promise<CAFSRef | null> {
+        return toRef(this.refs.get(this.key(typeId, name)));
+    }
+
+    async listRefs(typeId: string): Promise<CAFSRef[]> {
+        return [...this.refs.values()]
+            .filter(record => record.typeId === typeId)
+            .map(record => toRef(record))
+            .filter((ref): ref is CAFSRef => ref !== null);
+    }
+
+    async updateRef(typeId: string, name: string, update: CAFSRefUpdate): Promise<CAFSRef | null> {
+        const key = this.key(typeId, name);
+        const { record, entry } = applyRefUpdate(typeId, name, this.refs.get(key) || null, update, new Date().toISOString());
+        this.refs.set(key, record);
+        this.refHistory.set(key, [entry, ...(this.refHistory.get(key) || [])]);
+        return toRef(record);
+    }
+
+    async queryRefHistory(typeId: string, name: string): Promise<CAFSRefLogEntry[]> {
+        return (this.refHistory.get(this.key(typeId, name)) || []).map(entry => ({ ...entry }));
+    }
+
+    private key(typeId: string, id: string): string {
+        return `${typeId}/${id}`;
+    }
+}
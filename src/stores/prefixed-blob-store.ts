@@ -0,0 +1,113 @@
+import { Readable, Writable } from 'stream';
+import { isRelativePath } from '../address.js';
+import { GCSUtilsError } from '../errors.js';
+import {
+    BlobListOptions,
+    BlobListPage,
+    BlobMetadata,
+    BlobPreconditions,
+    BlobSignedUrlOptions,
+    BlobStore,
+    BlobWriteOptions
+} from '../types/index.js';
+
+/**
+ * Blob store decorator confining every call of another blob store to a key prefix.
+ * Paths are given and returned relative to the prefix, so blobs outside it are out of reach:
+ * paths with empty, `.` or `..` segments are rejected, as stores may resolve them.
+ */
+export class PrefixedBlobStore implements BlobStore {
+    private inner: BlobStore;
+    private prefix: string;
+
+    /**
+     * @param inner The blob store to call
+     * @param prefix The key prefix, e.g. `tenant-a/`
+     * @throws GCSUtilsError if the prefix has empty, `.` or `..` segments
+     */
+    constructor(inner: BlobStore, prefix: string) {
+        if (prefix && !isRelativePath(prefix.replace(/\/$/, ''))) {
+            throw new GCSUtilsError(`Invalid key prefix ${prefix}`, { operation: 'configure' });
+        }
+        this.inner = inner;
+        this.prefix = prefix;
+    }
+
+    async read(path: string): Promise<Buffer> {
+        return await this.inner.read(this.resolve(path));
+    }
+
+    createReadStream(path: string): Readable {
+        return this.inner.createReadStream(this.resolve(path));
+    }
+
+    async write(path: string, content: string | Buffer, options?: BlobWriteOptions): Promise<void> {
+        await this.inner.write(this.resolve(path), content, options);
+    }
+
+    createWriteStream(path: string, options?: BlobWriteOptions): Writable {
+        return this.inner.createWriteStream(this.resolve(path), options);
+    }
+
+    async move(
+        sourcePath: string,
+        destinationPath: string,
+        preconditions?: BlobPreconditions,
+        metadata?: Record<string, string>
+    ): Promise<void> {
+        await this.inner.move(this.resolve(sourcePath), this.resolve(destinationPath), preconditions, metadata);
+    }
+
+    async setMetadata(path: string, metadata: Record<string, string>, preconditions?: BlobPreconditions): Promise<void> {
+        await this.inner.setMetadata(this.resolve(path), metadata, preconditions);
+    }
+
+    async exists(path: string): Promise<boolean> {
+        return await this.inner.exists(this.resolve(path));
+    }
+
+    async getMetadata(path: string): Promise<BlobMetadata> {
+        const metadata = await this.inner.getMetadata(this.resolve(path));
+        return { ...metadata, path: this.strip(metadata.path) };
+    }
+
+    async delete(path: string, preconditions?: BlobPreconditions): Promise<void> {
+        await this.inner.delete(this.resolve(path), preconditions);
+    }
+
+    async list(prefix: string = ''): Promise<string[]> {
+        return (await this.inner.list(this.resolve(prefix, true))).map(path => this.strip(path));
+    }
+
+    async listPage(prefix: string, options?: BlobListOptions): Promise<BlobListPage> {
+        const page = await this.inner.listPage(this.resolve(prefix, true), options);
+        return { ...page, paths: page.paths.map(path => this.strip(path)) };
+    }
+
+    async getSignedUrl(path: string, options: BlobSignedUrlOptions): Promise<string> {
+        return await this.inner.getSignedUrl(this.resolve(path), options);
+    }
+
+    async setStorageClass(path: string, storageClass: string): Promise<void> {
+        await this.inner.setStorageClass(this.resolve(path), storageClass);
+    }
+
+    /**
+     * Maps a path relative to the prefix to the path in the inner store
+     * @param path The relative path
+     * @param listing Whether the path is a listing prefix, which may be empty or end in `/`
+     * @returns The path in the inner store
+     * @throws GCSUtilsError if the path could leave the prefix
+     */
+    private resolve(path: string, listing: boolean = false): string {
+        const checked = listing ? path.replace(/\/$/, '') : path;
+        if (!(listing && checked === '') && !isRelativePath(checked)) {
+            throw new GCSUtilsError(`Invalid blob path ${path}`, { path });
+        }
+        return this.prefix + path;
+    }
+
+    private strip(path: string): string {
+        return path.startsWith(this.prefix) ? path.slice(this.prefix.length) : path;
+    }
+}
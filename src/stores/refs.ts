@@ -0,0 +1,71 @@
+import { ConflictError, NotFoundError } from '../errors.js';
+import { CAFSRef, CAFSRefLogEntry, CAFSRefUpdate } from '../types/index.js';
+
+/**
+ * Stored state of a named ref. Deleted refs are kept with a null hash so that their version
+ * keeps counting when they are created again.
+ */
+export interface RefRecord extends Omit<CAFSRef, 'contentHash'> {
+    contentHash: string | null;
+}
+
+/**
+ * Applies a compare-and-swap change to a named ref
+ * @param typeId The type of the ref
+ * @param name The name of the ref
+ * @param current The stored state of the ref, if any
+ * @param update The change
+ * @param timestamp When the change is made (ISO string)
+ * @returns The new state of the ref and the history entry recording the change
+ * @throws ConflictError if the ref does not point at the expected content
+ * @throws NotFoundError if a ref that does not exist is deleted
+ */
+export function applyRefUpdate(
+    typeId: string,
+    name: string,
+    current: RefRecord | null,
+    update: CAFSRefUpdate,
+    timestamp: string
+): { record: RefRecord; entry: CAFSRefLogEntry } {
+    const previousHash = current?.contentHash ?? null;
+    if (update.expectedHash !== undefined && update.expectedHash !== previousHash) {
+        throw new ConflictError(
+            `Ref ${typeId}/${name} points at ${previousHash ?? 'nothing'}, not ${update.expectedHash ?? 'nothing'}`,
+            { operation: 'updateRef' }
+        );
+    }
+    if (update.contentHash === null && previousHash === null) {
+        throw new NotFoundError(`Ref ${typeId}/${name} not found`, { operation: 'updateRef' });
+    }
+
+    const version = (current?.version ?? 0) + 1;
+    // Optional fields are left out rather than undefined, which Firestore rejects
+    const record: RefRecord = {
+        typeId,
+        name,
+        contentHash: update.contentHash,
+        version,
+        updatedAt: timestamp,
+        ...(update.updatedBy !== undefined && { updatedBy: update.updatedBy })
+    };
+    const entry: CAFSRefLogEntry = {
+        typeId,
+        name,
+        version,
+        contentHash: update.contentHash,
+        previousHash,
+        timestamp,
+        ...(update.updatedBy !== undefined && { updatedBy: update.updatedBy }),
+        ...(update.message !== undefined && { message: update.message })
+    };
+    return { record, entry };
+}
+
+/**
+ * Turns the stored state of a named ref into the ref, if it exists
+ * @param record The stored state
+ * @returns The ref, or null if it does not exist or was deleted
+ */
+export function toRef(record: RefRecord | null | undefined): CAFSRef | null {
+    return record && record.contentHash !== null ? { ...record, contentHash: record.contentHash } : null;
+}
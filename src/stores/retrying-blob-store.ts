@@ -0,0 +1,125 @@
+import { Readable, Writable } from 'stream';
+import { withRetry } from '../retry.js';
+import {
+    BlobListOptions,
+    BlobListPage,
+    BlobMetadata,
+    BlobPreconditions,
+    BlobSignedUrlOptions,
+    BlobStore,
+    BlobWriteOptions,
+    RetryPolicy
+} from '../types/index.js';
+
+/**
+ * Blob store decorator applying a retry policy to every call of another blob store.
+ * Streams are passed through as is; resumable uploads and downloads recover on their own.
+ */
+export class RetryingBlobStore implements BlobStore {
+    private inner: BlobStore;
+    private policy: RetryPolicy;
+
+    /**
+     * @param inner The blob store to call
+     * @param policy The retry policy
+     */
+    constructor(inner: BlobStore, policy: RetryPolicy = {}) {
+        this.inner = inner;
+        this.policy = policy;
+    }
+
+    async read(path: string): Promise<Buffer> {
+        return await withRetry(() => this.inner.read(path), this.policy, 'read', path);
+    }
+
+    createReadStream(path: string): Readable {
+        return this.inner.createReadStream(path);
+    }
+
+    async write(path: string, content: string | Buffer, options?: BlobWriteOptions): Promise<void> {
+        await withRetry(() => this.inner.write(path, content, options), this.policy, 'write', path);
+    }
+
+    createWriteStream(path: string, options?: BlobWriteOptions): Writable {
+        return this.inner.createWriteStream(path, options);
+    }
+
+    async move(
+        sourcePath: string,
+        destinationPath: string,
+        preconditions?: BlobPreconditions,
+        metadata?: Record<string, string>
+    ): Promise<void> {
+        await this.retryMutation(
+            'move',
+            sourcePath,
+            () => this.inner.move(sourcePath, destinationPath, preconditions, metadata),
+            async () => !(await this.inner.exists(sourcePath)) && await this.inner.exists(destinationPath)
+        );
+    }
+
+    async setMetadata(path: string, metadata: Record<string, string>, preconditions?: BlobPreconditions): Promise<void> {
+        await withRetry(() => this.inner.setMetadata(path, metadata, preconditions), this.policy, 'setMetadata', path);
+    }
+
+    async exists(path: string): Promise<boolean> {
+        return await withRetry(() => this.inner.exists(path), this.policy, 'exists', path);
+    }
+
+    async getMetadata(path: string): Promise<BlobMetadata> {
+        return await withRetry(() => this.inner.getMetadata(path), this.policy, 'getMetadata', path);
+    }
+
+    async delete(path: string, preconditions?: BlobPreconditions): Promise<void> {
+        await this.retryMutation(
+            'delete',
+            path,
+            () => this.inner.delete(path, preconditions),
+            async () => !(await this.inner.exists(path))
+        );
+    }
+
+    async list(prefix?: string): Promise<string[]> {
+        return await withRetry(() => this.inner.list(prefix), this.policy, 'list', prefix);
+    }
+
+    async listPage(prefix: string, options?: BlobListOptions): Promise<BlobListPage> {
+        return await withRetry(() => this.inner.listPage(prefix, options), this.policy, 'listPage', prefix);
+    }
+
+    async getSignedUrl(path: string, options: BlobSignedUrlOptions): Promise<string> {
+        return await withRetry(() => this.inner.getSignedUrl(path, options), this.policy, 'getSignedUrl', path);
+    }
+
+    async setStorageClass(path: string, storageClass: string): Promise<void> {
+        await withRetry(() => this.inner.setStorageClass(path, storageClass), this.policy, 'setStorageClass', path);
+    }
+
+    /**
+     * Retries a mutation that cannot simply be repeated once it took effect. An attempt that timed out
+     * keeps running and one whose response was lost may have succeeded, so a retried attempt that fails
+     * counts as a success if the mutation turns out to be done.
+     * @param operation Name of the operation
+     * @param path Storage path involved
+     * @param fn The mutation
+     * @param isDone Checks whether the mutation took effect
+     */
+    private async retryMutation(
+        operation: string,
+        path: string,
+        fn: () => Promise<void>,
+        isDone: () => Promise<boolean>
+    ): Promise<void> {
+        let attempts = 0;
+        await withRetry(async () => {
+            const retried = attempts++ > 0;
+            try {
+                await fn();
+            } catch (error) {
+                if (!retried || !(await isDone())) {
+                    throw error;
+                }
+            }
+        }, this.policy, operation, path);
+    }
+}
@@ -0,0 +1,139 @@
+import { withRetry } from '../retry.js';
+import {
+    CAFSEntry,
+    CAFSEntryPage,
+    CAFSEntryQuery,
+    CAFSRef,
+    CAFSRefLogEntry,
+    CAFSRefUpdate,
+    CAFSReference,
+    LineageEdge,
+    LineageQuery,
+    MetadataStore,
+    ResourceLabelUpdate,
+    ResourceMemberQuery,
+    ResourceMemberRecord,
+    RetryPolicy
+} from '../types/index.js';
+
+/**
+ * Metadata store decorator applying a retry policy to every call of another metadata store.
+ * Metadata store calls are idempotent, so repeating one whose outcome is unknown is safe;
+ * the one exception, updateRef, is not retried.
+ */
+export class RetryingMetadataStore implements MetadataStore {
+    private inner: MetadataStore;
+    private policy: RetryPolicy;
+
+    /**
+     * @param inner The metadata store to call
+     * @param policy The retry policy
+     */
+    constructor(inner: MetadataStore, policy: RetryPolicy = {}) {
+        this.inner = inner;
+        this.policy = policy;
+    }
+
+    async putMember(record: ResourceMemberRecord): Promise<void> {
+        await this.retry('putMember', () => this.inner.putMember(record));
+    }
+
+    async putMembers(records: ResourceMemberRecord[]): Promise<void> {
+        await this.retry('putMembers', () => this.inner.putMembers(records));
+    }
+
+    async getMember(typeId: string, id: string): Promise<ResourceMemberRecord | null> {
+        return await this.retry('getMember', () => this.inner.getMember(typeId, id));
+    }
+
+    async queryMembers(query: ResourceMemberQuery): Promise<ResourceMemberRecord[]> {
+        return await this.retry('queryMembers', () => this.inner.queryMembers(query));
+    }
+
+    async updateMemberLabels(
+        typeId: string,
+        id: string,
+        update: ResourceLabelUpdate
+    ): Promise<ResourceMemberRecord | null> {
+        return await this.retry('updateMemberLabels', () => this.inner.updateMemberLabels(typeId, id, update));
+    }
+
+    async deleteMember(typeId: string, id: string): Promise<void> {
+        await this.retry('deleteMember', () => this.inner.deleteMember(typeId, id));
+    }
+
+    async putCAFSEntry(typeId: string, entry: CAFSEntry): Promise<void> {
+        await this.retry('putCAFSEntry', () => this.inner.putCAFSEntry(typeId, entry));
+    }
+
+    async getCAFSEntry(typeId: string, contentHash: string): Promise<CAFSEntry | null> {
+        return await this.retry('getCAFSEntry', () => this.inner.getCAFSEntry(typeId, contentHash));
+    }
+
+    async queryCAFSEntries(typeId: string): Promise<CAFSEntry[]> {
+        return await this.retry('queryCAFSEntries', () => this.inner.queryCAFSEntries(typeId));
+    }
+
+    async queryCAFSEntryPage(query: CAFSEntryQuery): Promise<CAFSEntryPage> {
+        return await this.retry('queryCAFSEntryPage', () => this.inner.queryCAFSEntryPage(query));
+    }
+
+    async findCAFSEntries(contentHash: string): Promise<CAFSEntry[]> {
+        return await this.retry('findCAFSEntries', () => this.inner.findCAFSEntries(contentHash));
+    }
+
+    async deleteCAFSEntry(typeId: string, contentHash: string): Promise<void> {
+        await this.retry('deleteCAFSEntry', () => this.inner.deleteCAFSEntry(typeId, contentHash));
+    }
+
+    async deleteUnreferencedCAFSEntry(typeId: string, contentHash: string): Promise<boolean> {
+        return await this.retry('deleteUnreferencedCAFSEntry',
+            () => this.inner.deleteUnreferencedCAFSEntry(typeId, contentHash));
+    }
+
+    async touchCAFSEntry(typeId: string, contentHash: string, accessedAt: Date): Promise<void> {
+        await this.retry('touchCAFSEntry', () => this.inner.touchCAFSEntry(typeId, contentHash, accessedAt));
+    }
+
+    async setCAFSLegalHold(typeId: string, contentHash: string, held: boolean): Promise<CAFSEntry | null> {
+        return await this.retry('setCAFSLegalHold', () => this.inner.setCAFSLegalHold(typeId, contentHash, held));
+    }
+
+    async addCAFSReference(typeId: string, initial: CAFSEntry, reference: CAFSReference): Promise<CAFSEntry> {
+        return await this.retry('addCAFSReference', () => this.inner.addCAFSReference(typeId, initial, reference));
+    }
+
+    async removeCAFSReference(typeId: string, contentHash: string, resourceId: string): Promise<CAFSEntry | null> {
+        return await this.retry('removeCAFSReference',
+            () => this.inner.removeCAFSReference(typeId, contentHash, resourceId));
+    }
+
+    async getRef(typeId: string, name: string): Promise<CAFSRef | null> {
+        return await this.retry('getRef', () => this.inner.getRef(typeId, name));
+    }
+
+    async listRefs(typeId: string): Promise<CAFSRef[]> {
+        return await this.retry('listRefs', () => this.inner.listRefs(typeId));
+    }
+
+    async updateRef(typeId: string, name: string, update: CAFSRefUpdate): Promise<CAFSRef | null> {
+        // Not idempotent: repeating a change that did commit would record it twice or report a conflict
+        return await this.inner.updateRef(typeId, name, update);
+    }
+
+    async queryRefHistory(typeId: string, name: string): Promise<CAFSRefLogEntry[]> {
+        return await this.retry('queryRefHistory', () => this.inner.queryRefHistory(typeId, name));
+    }
+
+    async putLineageEdges(edges: LineageEdge[]): Promise<void> {
+        await this.retry('putLineageEdges', () => this.inner.putLineageEdges(edges));
+    }
+
+    async queryLineageEdges(query: LineageQuery): Promise<LineageEdge[]> {
+        return await this.retry('queryLineageEdges', () => this.inner.queryLineageEdges(query));
+    }
+
+    private async retry<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+        return await withRetry(fn, this.policy, operation);
+    }
+}
@@ -2,6 +2,9 @@
  * Core types and interfaces for the GCS Utils SDK
  */
 
+import type { Readable, Writable } from 'stream';
+import type { GCSUtilsError } from '../errors.js';
+
 /**
  * Interface for the JSON structure in storage files
  */
@@ -30,6 +33,18 @@ export interface ResourceId {
     createdAt: Date;
 }
 
+/**
+ * Encodes, decodes and validates the content of resources of a type
+ */
+export interface ResourceCodec<T> {
+    /** Serializes a value to the stored content */
+    encode(value: T): string | Buffer;
+    /** Parses stored content back into a value */
+    decode(content: Buffer): T;
+    /** Optional guard a value must satisfy (may throw to explain why it does not) */
+    validate?(value: unknown): value is T;
+}
+
 /**
  * Role identifier for resources within job steps
  */
@@ -74,6 +89,8 @@ export interface ResourceMetadata {
     tags: string[];
     /** Custom properties */
     customProperties: Record<string, any>;
+    /** Whether the content is under legal hold and must not be deleted */
+    legalHold?: boolean;
 }
 
 /**
@@ -88,6 +105,143 @@ export interface CAFSEntry {
     metadata: ResourceMetadata;
     /** List of resource IDs that reference this content */
     referencedBy: string[];
+    /** Role and execution of each referencing resource, keyed by resource ID */
+    references?: Record<string, { roleId: string; executionId: string }>;
+    /** Distinct roles of the referencing resources (kept for queries) */
+    roleIds?: string[];
+    /** Distinct executions of the referencing resources (kept for queries) */
+    executionIds?: string[];
+}
+
+/**
+ * A resource referencing stored content
+ */
+export interface CAFSReference {
+    /** ID of the resource */
+    resourceId: string;
+    /** Role of the resource within its execution */
+    roleId: string;
+    /** Execution that produced the resource */
+    executionId: string;
+}
+
+/**
+ * A named ref: a stable name within a type pointing at content that may change over time
+ */
+export interface CAFSRef {
+    /** Type of the content */
+    typeId: string;
+    /** Name of the ref */
+    name: string;
+    /** SHA-256 hash of the content the ref points at */
+    contentHash: string;
+    /** Number of changes made to the ref, including deletions */
+    version: number;
+    /** When the ref was last changed (ISO string) */
+    updatedAt: string;
+    /** Who last changed the ref */
+    updatedBy?: string;
+}
+
+/**
+ * A compare-and-swap change of a named ref
+ */
+export interface CAFSRefUpdate {
+    /** Content the ref points at afterwards, or null to delete the ref */
+    contentHash: string | null;
+    /** Content the ref must point at beforehand, or null if it must not exist (unchecked if omitted) */
+    expectedHash?: string | null;
+    /** Who makes the change */
+    updatedBy?: string;
+    /** Why the change is made */
+    message?: string;
+}
+
+/**
+ * A change recorded in the history of a named ref
+ */
+export interface CAFSRefLogEntry {
+    /** Type of the content */
+    typeId: string;
+    /** Name of the ref */
+    name: string;
+    /** Version of the ref after the change */
+    version: number;
+    /** Content the ref pointed at after the change, or null if it was deleted */
+    contentHash: string | null;
+    /** Content the ref pointed at before the change, or null if it did not exist */
+    previousHash: string | null;
+    /** When the change was made (ISO string) */
+    timestamp: string;
+    /** Who made the change */
+    updatedBy?: string;
+    /** Why the change was made */
+    message?: string;
+}
+
+/**
+ * Options for changing a named ref
+ */
+export interface RefUpdateOptions {
+    /** Content the ref must point at beforehand, or null if it must not exist (unchecked if omitted) */
+    expected?: string | null;
+    /** Who makes the change */
+    updatedBy?: string;
+    /** Why the change is made */
+    message?: string;
+}
+
+/**
+ * Field CAFS entries can be ordered by
+ * - timestamp: when the content was first stored
+ * - lastAccessedAt: when the content was last read
+ * - contentSize: size of the content in bytes
+ * - contentHash: the content hash
+ */
+export type CAFSEntryOrderField = 'timestamp' | 'lastAccessedAt' | 'contentSize' | 'contentHash';
+
+/**
+ * Paginated query over the CAFS entries of a type; all given filters must match
+ */
+export interface CAFSEntryQuery {
+    /** Type whose entries are listed */
+    typeId: string;
+    /** Only return content referenced by a resource with this role */
+    roleId?: string;
+    /** Only return content referenced by a resource produced by this execution */
+    executionId?: string;
+    /** Only return content referenced by a resource labelled with this tag */
+    tag?: string;
+    /** Only return content of at least this many bytes */
+    minSize?: number;
+    /** Only return content of at most this many bytes */
+    maxSize?: number;
+    /** Only return content first stored at or after this time */
+    createdAfter?: Date | string;
+    /** Only return content first stored before this time */
+    createdBefore?: Date | string;
+    /** Only return content last accessed at or after this time */
+    lastAccessedAfter?: Date | string;
+    /** Only return content last accessed before this time */
+    lastAccessedBefore?: Date | string;
+    /** Field to order by (default: 'timestamp') */
+    orderBy?: CAFSEntryOrderField;
+    /** Sort direction (default: 'asc') */
+    direction?: 'asc' | 'desc';
+    /** Maximum number of entries per page (default: 100) */
+    pageSize?: number;
+    /** Cursor returned with the previous page */
+    cursor?: string;
+}
+
+/**
+ * A page of CAFS entries
+ */
+export interface CAFSEntryPage {
+    /** Entries of this page */
+    entries: CAFSEntry[];
+    /** Cursor of the next page, absent on the last page */
+    nextCursor?: string;
 }
 
 /**
@@ -100,10 +254,208 @@ export interface GCSUtilsConfig {
     metadataCollection: string;
     /** Whether to enable content deduplication */
     enableDeduplication: boolean;
-    /** Maximum file size allowed (in bytes) */
+    /** Maximum size of content as stored, i.e. after compression (in bytes) */
     maxFileSize: number;
     /** Default content type for files */
     defaultContentType: string;
+    /** Encoding CAFS content is compressed with before upload (stored uncompressed if omitted) */
+    compression?: CompressionEncoding;
+    /** Retry policy of storage and metadata calls */
+    retry?: RetryPolicy;
+    /** Client-side encryption of stored content (content is stored as plaintext if omitted) */
+    encryption?: EncryptionConfig;
+    /** Read-through cache of retrieved content (content is not cached if omitted) */
+    cache?: ContentCacheConfig;
+    /** Project, credentials and emulators of the default Google Cloud backends */
+    cloud?: CloudConfig;
+}
+
+/**
+ * Project, credentials and emulators used by the default Google Cloud Storage and Firestore backends
+ */
+export interface CloudConfig {
+    /** Google Cloud project ID (default: the project of the credentials) */
+    projectId?: string;
+    /**
+     * Path of a service account key or authorized user file (default: `gcp-key.json` in the working
+     * directory if it exists, otherwise application default credentials)
+     */
+    credentialsFile?: string;
+    /** `host:port` of a Firestore emulator; no credentials are used with it */
+    firestoreEmulatorHost?: string;
+    /** URL or `host:port` of a Cloud Storage emulator */
+    storageEmulatorHost?: string;
+}
+
+/**
+ * Where configuration is loaded from, in addition to explicit options
+ */
+export interface ConfigSources {
+    /** Environment variables (default: `process.env`) */
+    env?: Record<string, string | undefined>;
+    /** Path of a JSON config file (default: `GCS_UTILS_CONFIG`, no file if unset) */
+    configFile?: string;
+}
+
+/**
+ * Read-through cache of retrieved content, keyed by storage path
+ */
+export interface ContentCacheConfig {
+    /** Memory budget of the in-memory LRU in bytes (default: 64 MiB) */
+    maxMemoryBytes?: number;
+    /** Directory of the on-disk cache, if any; encrypted content is never cached on disk */
+    directory?: string;
+    /** Disk budget of the on-disk cache in bytes (default: 1 GiB) */
+    maxDiskBytes?: number;
+}
+
+/**
+ * Statistics of a content cache since it was created
+ */
+export interface ContentCacheStats {
+    /** Reads served from the cache */
+    hits: number;
+    /** Reads served from memory */
+    memoryHits: number;
+    /** Reads served from the disk cache */
+    diskHits: number;
+    /** Reads the cache could not serve */
+    misses: number;
+    /** Share of reads served from the cache (0 before the first read) */
+    hitRate: number;
+    /** Content evicted from memory or disk to stay within budget */
+    evictions: number;
+    /** Content not cached, or removed from disk, because it did not match its hash */
+    verificationFailures: number;
+    /** Number of contents held in memory */
+    memoryEntries: number;
+    /** Bytes held in memory */
+    memoryBytes: number;
+    /** Bytes held on disk */
+    diskBytes: number;
+}
+
+/**
+ * Encoding content can be compressed with; zstd requires a Node.js runtime whose zlib supports it
+ */
+export type CompressionEncoding = 'gzip' | 'zstd';
+
+/**
+ * Options for storing content in CAFS
+ */
+export interface StoreOptions {
+    /** MIME type of the content (default: the configured defaultContentType) */
+    contentType?: string;
+    /** Compression of this content, overriding the configured compression */
+    compression?: CompressionEncoding | 'none';
+}
+
+/**
+ * Options for signing a URL
+ */
+export interface SignedUrlOptions {
+    /** How long the URL is valid in milliseconds (default: 15 minutes, at most 7 days) */
+    expiresInMs?: number;
+}
+
+/**
+ * Options for signing a URL that downloads content
+ */
+export interface SignedDownloadOptions extends SignedUrlOptions {
+    /** Whether to update the last accessed timestamp (default: true) */
+    updateAccessTime?: boolean;
+    /** Content-Disposition of the response, e.g. `attachment; filename="output.json"` */
+    responseDisposition?: string;
+}
+
+/**
+ * Options for signing a URL that uploads content
+ */
+export interface SignedUploadOptions extends SignedUrlOptions {
+    /** MIME type of the content (default: the configured defaultContentType) */
+    contentType?: string;
+}
+
+/**
+ * A signed URL downloading stored content
+ */
+export interface SignedDownload {
+    /** The signed URL */
+    url: string;
+    /** Storage path of the content */
+    storagePath: string;
+    /** When the URL expires */
+    expiresAt: Date;
+    /** Encoding the downloaded bytes are compressed with, if compressed */
+    encoding?: string;
+}
+
+/**
+ * A signed URL uploading content to its CAFS path
+ */
+export interface SignedUpload {
+    /** Whether the content must be uploaded; false if it is already stored and will be deduplicated */
+    uploadRequired: boolean;
+    /** Storage path the content is uploaded to */
+    storagePath: string;
+    /** The signed URL to PUT the content to, if an upload is required */
+    url?: string;
+    /** When the URL expires, if an upload is required */
+    expiresAt?: Date;
+    /** Headers the upload request must be made with, if an upload is required */
+    headers?: Record<string, string>;
+}
+
+/**
+ * Client-side envelope encryption of CAFS content
+ */
+export interface EncryptionConfig {
+    /** Wraps the per-object data keys content is encrypted with */
+    keyProvider: KeyProvider;
+    /**
+     * Key of the HMAC-SHA256 content is addressed by. Without it, addresses are plaintext
+     * SHA-256 hashes, which lets anyone with bucket access confirm a guess of the content.
+     * It must never change, since content stored under one key is not found under another.
+     */
+    addressKey?: Buffer;
+}
+
+/**
+ * A data key encrypted with a key encryption key of a key provider
+ */
+export interface WrappedKey {
+    /** ID of the key encryption key, so content outlives key rotation */
+    keyId: string;
+    /** The encrypted data key */
+    wrappedKey: Buffer;
+}
+
+/**
+ * Wraps and unwraps data keys, e.g. with a KMS or a local key file
+ */
+export interface KeyProvider {
+    /** Encrypts a data key with the current key encryption key */
+    wrapKey(dataKey: Buffer): Promise<WrappedKey>;
+    /** Decrypts a data key wrapped by this provider */
+    unwrapKey(wrapped: WrappedKey): Promise<Buffer>;
+}
+
+/**
+ * Retry policy applied to storage and metadata calls
+ */
+export interface RetryPolicy {
+    /** Maximum number of attempts, including the first (default: 4) */
+    maxAttempts?: number;
+    /** Delay before the first retry in milliseconds (default: 100) */
+    initialDelayMs?: number;
+    /** Upper bound of the delay between attempts in milliseconds (default: 5000) */
+    maxDelayMs?: number;
+    /** Factor the delay grows by after each attempt (default: 2) */
+    multiplier?: number;
+    /** Time limit of each attempt in milliseconds, 0 for none (default: 60000) */
+    timeoutMs?: number;
+    /** Decides whether a failed attempt is retried (default: isRetryableError) */
+    isRetryable?: (error: unknown) => boolean;
 }
 
 /**
@@ -130,6 +482,16 @@ export interface WriteOptions {
     tags?: string[];
 }
 
+/**
+ * Options for deleting content from CAFS
+ */
+export interface DeleteOptions {
+    /** ID of the resource whose reference to the content is removed */
+    resourceId?: string;
+    /** Whether to delete the content regardless of remaining references */
+    forceDelete?: boolean;
+}
+
 /**
  * Result of a CAFS operation
  */
@@ -140,10 +502,351 @@ export interface CAFSOperationResult {
     contentHash: string;
     /** Whether content was deduplicated (already existed) */
     deduplicated: boolean;
+    /** ID of the existing resource whose stored content was reused, if deduplicated */
+    existingResourceId?: string;
+    /** Size of the content in bytes */
+    contentSize?: number;
     /** Path where content is stored */
     storagePath: string;
     /** Any error message if operation failed */
     error?: string;
+    /** The error, if a batch item failed (single-item operations throw it instead) */
+    cause?: GCSUtilsError;
+}
+
+/**
+ * Options for a garbage collection (fsck) run
+ */
+export interface GCOptions {
+    /** Only report findings without changing anything (default: true) */
+    dryRun?: boolean;
+    /** Items younger than this are reported but never acted on (default: 24 hours) */
+    gracePeriodMs?: number;
+    /** Whether to download blobs and verify their content hash (default: false) */
+    verifyHashes?: boolean;
+    /** Whether to delete blobs whose content does not match their hash (default: false) */
+    deleteCorrupt?: boolean;
+}
+
+/**
+ * Kind of problem found by garbage collection
+ * - orphan-blob: stored content that no CAFS entry or resource points at, or an abandoned streamed upload
+ * - dangling-pointer: resource whose pointer names a resource with no stored content
+ * - zero-refcount: CAFS entry no resource references any more
+ * - hash-mismatch: stored content that does not hash to its address or fails decryption
+ */
+export type GCFindingKind = 'orphan-blob' | 'dangling-pointer' | 'zero-refcount' | 'hash-mismatch';
+
+/**
+ * A single problem found by garbage collection
+ */
+export interface GCFinding {
+    /** Kind of problem */
+    kind: GCFindingKind;
+    /** Storage path involved, if any */
+    path?: string;
+    /** Content hash involved, if any */
+    contentHash?: string;
+    /** Resource ID involved, if any */
+    resourceId?: string;
+    /** Human-readable description */
+    detail: string;
+    /** Whether the item is younger than the grace period */
+    withinGracePeriod: boolean;
+    /** Action taken for the item */
+    action: 'none' | 'deleted';
+}
+
+/**
+ * Report of a garbage collection run
+ */
+export interface GCReport {
+    /** Type (storage folder) that was scanned */
+    typeId: string;
+    /** Whether this was a dry run */
+    dryRun: boolean;
+    /** Number of blobs scanned */
+    scannedBlobs: number;
+    /** Number of resource member records scanned */
+    scannedMembers: number;
+    /** Number of CAFS entries scanned */
+    scannedEntries: number;
+    /** Problems found */
+    findings: GCFinding[];
+    /** Bytes of storage freed by deleted blobs */
+    reclaimedBytes: number;
+}
+
+/**
+ * What a retention rule does with the resources it matches
+ * - keep: retain the resources; no later rule applies to them
+ * - delete: expire resources whose content has been idle for `afterDays`; the content
+ *   itself is deleted once no resource references it any more
+ * - tier: move content idle for `afterDays` to `storageClass`
+ */
+export type RetentionRuleAction = 'keep' | 'delete' | 'tier';
+
+/**
+ * A declarative retention rule. A rule matches a resource if all of its given filters match;
+ * each resource is governed by the first rule that matches it.
+ */
+export interface RetentionRule {
+    /** Name of the rule, reported with its decisions */
+    name: string;
+    /** Only match resources of this type */
+    typeId?: string;
+    /** Only match resources with this tag */
+    tag?: string;
+    /** Only match resources with this role */
+    roleId?: string;
+    /** Only match resources produced by this execution */
+    executionId?: string;
+    /** What to do with matching resources */
+    action: RetentionRuleAction;
+    /** Days since the content was last accessed before the action applies (default: 0) */
+    afterDays?: number;
+    /** Storage class content is moved to by 'tier' rules, e.g. 'NEARLINE', 'COLDLINE' or 'ARCHIVE' */
+    storageClass?: string;
+}
+
+/**
+ * An ordered list of retention rules
+ */
+export interface RetentionPolicy {
+    /** The rules, in order of precedence */
+    rules: RetentionRule[];
+}
+
+/**
+ * Options for applying a retention policy
+ */
+export interface RetentionOptions {
+    /** Only report decisions without changing anything (default: true) */
+    dryRun?: boolean;
+    /** Time idle periods are measured up to (default: now) */
+    now?: Date;
+}
+
+/**
+ * Kind of retention decision
+ * - expire-resource: a resource is removed along with its reference to its content
+ * - delete-content: content is deleted because all resources referencing it expire
+ * - tier: content is moved to another storage class
+ * - held: resources would expire, but their content is under legal hold
+ */
+export type RetentionDecisionKind = 'expire-resource' | 'delete-content' | 'tier' | 'held';
+
+/**
+ * A single decision of a retention run
+ */
+export interface RetentionDecision {
+    /** Kind of decision */
+    kind: RetentionDecisionKind;
+    /** Name of the rule that made the decision */
+    rule: string;
+    /** Content hash involved */
+    contentHash: string;
+    /** Storage path involved, if any */
+    path?: string;
+    /** Resource ID involved, if any */
+    resourceId?: string;
+    /** Storage class the content is moved to, for tier decisions */
+    storageClass?: string;
+    /** Bytes of storage affected */
+    bytes?: number;
+    /** Human-readable description */
+    detail: string;
+    /** Action taken */
+    action: 'none' | 'applied' | 'failed';
+    /** Why the action failed, if it did */
+    error?: string;
+}
+
+/**
+ * Report of a retention run
+ */
+export interface RetentionReport {
+    /** Type whose content was evaluated */
+    typeId: string;
+    /** Whether this was a dry run */
+    dryRun: boolean;
+    /** Number of CAFS entries evaluated */
+    scannedEntries: number;
+    /** Decisions made */
+    decisions: RetentionDecision[];
+    /** Bytes of storage freed by deleted content */
+    reclaimedBytes: number;
+    /** Bytes of storage moved to other storage classes */
+    tieredBytes: number;
+}
+
+/**
+ * Options for batch operations
+ */
+export interface BatchOptions {
+    /** Maximum number of items processed concurrently (default: 8) */
+    concurrency?: number;
+}
+
+/**
+ * A single item of a batch store
+ */
+export interface StoreManyItem {
+    /** The resource the content belongs to */
+    meta: StoreContentMeta;
+    /** The content to store */
+    content: string | Buffer | Uint8Array;
+    /** Optional store options of this item */
+    options?: StoreOptions;
+}
+
+/**
+ * A single item of a batch retrieve
+ */
+export interface RetrieveManyItem {
+    /** The folder (type) of the content, or '' to look a bare hash up across types */
+    folder: string;
+    /** The content hash or a `{typeId}/{hash}` storage path */
+    address: string;
+}
+
+/**
+ * Result of retrieving a single item of a batch
+ */
+export interface CAFSRetrieveResult {
+    /** Whether the content was retrieved */
+    success: boolean;
+    /** The requested address */
+    address: string;
+    /** The content bytes, if retrieved */
+    content?: Buffer;
+    /** Any error message if retrieval failed */
+    error?: string;
+    /** The error, if retrieval failed */
+    cause?: GCSUtilsError;
+}
+
+/**
+ * Per-item results of a batch operation, in input order
+ */
+export interface CAFSBatchResult<T> {
+    /** Result of each item, in input order */
+    results: T[];
+    /** Number of items that succeeded */
+    succeeded: number;
+    /** Number of items that failed */
+    failed: number;
+}
+
+/**
+ * Format of a snapshot archive: a directory tree or a single tar file
+ */
+export type ArchiveFormat = 'directory' | 'tar';
+
+/**
+ * Options for exporting a snapshot
+ */
+export interface SnapshotExportOptions extends BatchOptions {
+    /** Whether to include the resources the executions consumed (default: true) */
+    includeInputs?: boolean;
+    /** Format of the archive (default: tar if the target ends in `.tar`, a directory otherwise) */
+    format?: ArchiveFormat;
+}
+
+/**
+ * A resource recorded in a snapshot manifest
+ */
+export interface SnapshotResource {
+    /** Unique identifier for the resource */
+    id: string;
+    /** Type of the resource */
+    typeId: string;
+    /** Role of the resource within its execution */
+    roleId: string;
+    /** Execution that produced the resource */
+    executionId: string;
+    /** When the resource was stored in the exporting bucket (ISO string) */
+    timestamp: string;
+    /** Tags labelling the resource */
+    tags: string[];
+    /** Custom properties of the resource */
+    customProperties: Record<string, PropertyValue>;
+    /** Address of the content in the exporting bucket, also naming its file in the archive */
+    contentHash: string;
+    /** Plain SHA-256 hash of the content, verified on import */
+    sha256: string;
+    /** MIME type of the content */
+    contentType: string;
+    /** Size of the content in bytes */
+    contentSize: number;
+}
+
+/**
+ * Manifest of a snapshot: the exported resources and the lineage between them
+ */
+export interface SnapshotManifest {
+    /** Identifies snapshot manifests */
+    format: 'cafs-snapshot';
+    /** Version of the manifest format */
+    version: number;
+    /** When the snapshot was exported (ISO string) */
+    createdAt: string;
+    /** The exported executions */
+    executionIds: string[];
+    /** The exported resources; content shared by several resources is archived once */
+    resources: SnapshotResource[];
+    /** Resources the exported executions consumed, if inputs were included */
+    inputs: LineageEdge[];
+}
+
+/**
+ * Result of importing a snapshot
+ */
+export interface SnapshotImportReport extends CAFSBatchResult<CAFSOperationResult> {
+    /** The imported manifest; results are in the order of its resources */
+    manifest: SnapshotManifest;
+}
+
+/**
+ * A resource consumed by an execution
+ */
+export interface LineageInput {
+    /** Type of the resource */
+    typeId: string;
+    /** ID of the resource */
+    resourceId: string;
+    /** Role of the resource within the consuming execution */
+    roleId: string;
+    /** SHA-256 hash of the resource content (looked up from its producing execution if omitted) */
+    contentHash?: string;
+}
+
+/**
+ * Node of a lineage graph: an execution or a resource
+ */
+export interface LineageNode {
+    /** Unique node ID (`execution:{executionId}` or `resource:{typeId}/{resourceId}`) */
+    id: string;
+    /** Kind of node */
+    kind: 'execution' | 'resource';
+    /** Execution ID, for execution nodes */
+    executionId?: string;
+    /** Type of the resource, for resource nodes */
+    typeId?: string;
+    /** ID of the resource, for resource nodes */
+    resourceId?: string;
+    /** Content hash of the resource, for resource nodes */
+    contentHash?: string;
+}
+
+/**
+ * Lineage graph; edges run from inputs to executions and from executions to outputs
+ */
+export interface LineageGraph {
+    /** Executions and resources in the graph */
+    nodes: LineageNode[];
+    /** Directed edges between node IDs, labelled with the resource role */
+    edges: { from: string; to: string; roleId: string }[];
 }
 
 /**
@@ -177,3 +880,422 @@ export interface Job {
     /** When the job was created */
     createdAt: Date;
 }
+
+/**
+ * Metadata describing a blob held by a storage backend
+ */
+export interface BlobMetadata {
+    /** Path of the blob within the store */
+    path: string;
+    /** Size of the blob in bytes */
+    size: number;
+    /** MIME type of the blob */
+    contentType: string;
+    /** When the blob was last written (ISO string) */
+    updated: string;
+    /** Generation of the blob content; changes whenever the blob is rewritten */
+    generation: string;
+    /** Storage class of the blob, e.g. 'STANDARD' or 'COLDLINE' */
+    storageClass?: string;
+    /** Custom key/value metadata stored alongside the blob */
+    metadata: Record<string, string>;
+}
+
+/**
+ * Preconditions of a blob mutation; the mutation fails with a ConflictError when they do not hold
+ */
+export interface BlobPreconditions {
+    /** Only proceed if the blob is at this generation (0: only if the blob does not exist) */
+    ifGenerationMatch?: number | string;
+}
+
+/**
+ * Options for writing a blob to a storage backend
+ */
+export interface BlobWriteOptions extends BlobPreconditions {
+    /** MIME type of the content */
+    contentType?: string;
+    /** Custom key/value metadata to store alongside the blob */
+    metadata?: Record<string, string>;
+}
+
+/**
+ * Storage backend abstraction that GCSUtils and CAFS are built on
+ */
+export interface BlobStore {
+    /** Reads the full content of a blob */
+    read(path: string): Promise<Buffer>;
+    /** Opens a stream over the content of a blob */
+    createReadStream(path: string): Readable;
+    /** Writes a blob, replacing any existing content at the path */
+    write(path: string, content: string | Buffer, options?: BlobWriteOptions): Promise<void>;
+    /** Opens a stream that writes a blob once it finishes, replacing any existing content at the path */
+    createWriteStream(path: string, options?: BlobWriteOptions): Writable;
+    /**
+     * Moves a blob, keeping its content type and metadata unless replacement custom metadata is given,
+     * which is then set in the same step (preconditions apply to the destination)
+     */
+    move(
+        sourcePath: string,
+        destinationPath: string,
+        preconditions?: BlobPreconditions,
+        metadata?: Record<string, string>
+    ): Promise<void>;
+    /** Replaces the custom metadata of a blob */
+    setMetadata(path: string, metadata: Record<string, string>, preconditions?: BlobPreconditions): Promise<void>;
+    /** Checks whether a blob exists */
+    exists(path: string): Promise<boolean>;
+    /** Gets the metadata of a blob */
+    getMetadata(path: string): Promise<BlobMetadata>;
+    /** Deletes a blob */
+    delete(path: string, preconditions?: BlobPreconditions): Promise<void>;
+    /** Lists blob paths starting with the given prefix, in lexicographic order */
+    list(prefix?: string): Promise<string[]>;
+    /** Lists one page of blob paths starting with the given prefix, in lexicographic order */
+    listPage(prefix: string, options?: BlobListOptions): Promise<BlobListPage>;
+    /** Creates a V4 signed URL granting temporary access to a blob (not supported by every store) */
+    getSignedUrl(path: string, options: BlobSignedUrlOptions): Promise<string>;
+    /** Moves a blob to another storage class, keeping its content and metadata */
+    setStorageClass(path: string, storageClass: string): Promise<void>;
+}
+
+/**
+ * Options for signing a URL to a blob
+ */
+export interface BlobSignedUrlOptions {
+    /** Whether the URL reads or writes the blob */
+    action: 'read' | 'write';
+    /** When the URL expires */
+    expires: Date;
+    /** Content type a write must be made with */
+    contentType?: string;
+    /** Headers a request must be made with, e.g. `x-goog-if-generation-match` */
+    extensionHeaders?: Record<string, string>;
+    /** Content-Disposition of the response to a read */
+    responseDisposition?: string;
+}
+
+/**
+ * Options for listing a page of blobs
+ */
+export interface BlobListOptions {
+    /** Maximum number of paths per page (default: 1000) */
+    pageSize?: number;
+    /** Token returned with the previous page */
+    pageToken?: string;
+}
+
+/**
+ * A page of blob paths
+ */
+export interface BlobListPage {
+    /** Paths of this page */
+    paths: string[];
+    /** Token of the next page, absent on the last page */
+    nextPageToken?: string;
+}
+
+/**
+ * Identity of the resource content is stored for
+ */
+export interface StoreContentMeta {
+    /** Unique identifier for the resource */
+    id: string;
+    /** Type of the resource (also the storage folder) */
+    typeId: string;
+    /** Role of the resource within its execution */
+    roleId: string;
+    /** Execution that produced the resource */
+    executionId: string;
+    /** Tags to label the resource with */
+    tags?: string[];
+    /** Custom properties of the resource */
+    customProperties?: Record<string, PropertyValue>;
+    /** When the resource was produced (ISO string), if not now, e.g. for imported resources */
+    timestamp?: string;
+}
+
+/**
+ * Value of a custom resource property
+ */
+export type PropertyValue = string | number | boolean;
+
+/**
+ * Custom metadata stored on the blob holding a resource's content
+ */
+export interface RawContentMeta {
+    /** ID of the resource that realized the content */
+    id: string;
+    /** Type of the resource */
+    typeId: string;
+    /** Role of the resource within its execution */
+    roleId: string;
+    /** Execution that produced the resource */
+    executionId: string;
+    /** Kind of blob ('realized' for stored content, 'upload' for in-flight uploads) */
+    kind: string;
+    /** Storage path of the blob */
+    path: string;
+    /** When the blob was written (ISO string) */
+    timestamp: string;
+    /** Algorithm the content is encrypted with, if encrypted */
+    encryption?: string;
+    /** Encoding the content is compressed with, if compressed */
+    encoding?: string;
+}
+
+/**
+ * Record linking a resource (a member of a type) to the stored content it points at
+ */
+export interface ResourceMemberRecord {
+    /** Unique identifier for the resource */
+    id: string;
+    /** Type the resource is a member of */
+    typeId: string;
+    /** Role of the resource within its execution */
+    roleId: string;
+    /** Execution that produced the resource */
+    executionId: string;
+    /** When the resource was stored (ISO string) */
+    timestamp: string;
+    /** ID of the resource whose stored blob holds this resource's content */
+    pointer: string;
+    /** Tags labelling the resource */
+    tags?: string[];
+    /** Custom properties of the resource */
+    customProperties?: Record<string, PropertyValue>;
+}
+
+/**
+ * Changes to the tags and custom properties of a resource
+ */
+export interface ResourceLabelUpdate {
+    /** Tags to add */
+    addTags?: string[];
+    /** Tags to remove */
+    removeTags?: string[];
+    /** Custom properties to set, replacing existing values */
+    setProperties?: Record<string, PropertyValue>;
+    /** Names of custom properties to remove */
+    removeProperties?: string[];
+}
+
+/**
+ * Query over the resource member records of a type
+ */
+export interface ResourceMemberQuery {
+    /** Type whose members are queried */
+    typeId: string;
+    /** Only return members with this role */
+    roleId?: string;
+    /** Only return members produced by this execution */
+    executionId?: string;
+    /** Only return members pointing at this resource ID */
+    pointer?: string;
+    /** Only return members labelled with this tag */
+    tag?: string;
+    /** Only return members whose custom properties have all of these values */
+    properties?: Record<string, PropertyValue>;
+}
+
+/**
+ * Edge between an execution and a resource it consumed (input) or produced (output)
+ */
+export interface LineageEdge {
+    /** The execution */
+    executionId: string;
+    /** Whether the resource was consumed or produced by the execution */
+    direction: 'input' | 'output';
+    /** Type of the resource */
+    typeId: string;
+    /** ID of the resource */
+    resourceId: string;
+    /** Role of the resource within the execution */
+    roleId: string;
+    /** SHA-256 hash of the resource content, if known */
+    contentHash: string;
+    /** When the edge was recorded (ISO string) */
+    timestamp: string;
+}
+
+/**
+ * Query over lineage edges; all given fields must match
+ */
+export interface LineageQuery {
+    /** Only return edges of this execution */
+    executionId?: string;
+    /** Only return input or output edges */
+    direction?: 'input' | 'output';
+    /** Only return edges of resources of this type */
+    typeId?: string;
+    /** Only return edges of this resource */
+    resourceId?: string;
+    /** Only return edges of resources with this content hash */
+    contentHash?: string;
+}
+
+/**
+ * Metadata/index backend holding resource member records and CAFS entries
+ */
+export interface MetadataStore {
+    /** Creates or replaces a resource member record */
+    putMember(record: ResourceMemberRecord): Promise<void>;
+    /** Creates or replaces many resource member records in as few round trips as possible */
+    putMembers(records: ResourceMemberRecord[]): Promise<void>;
+    /** Gets a resource member record, or null if not found */
+    getMember(typeId: string, id: string): Promise<ResourceMemberRecord | null>;
+    /** Lists the resource member records matching a query */
+    queryMembers(query: ResourceMemberQuery): Promise<ResourceMemberRecord[]>;
+    /**
+     * Atomically changes the tags and custom properties of a resource member record.
+     * Returns the updated record, or null if the record does not exist.
+     */
+    updateMemberLabels(typeId: string, id: string, update: ResourceLabelUpdate): Promise<ResourceMemberRecord | null>;
+    /** Deletes a resource member record */
+    deleteMember(typeId: string, id: string): Promise<void>;
+    /** Creates or replaces the CAFS entry of a content hash within a type */
+    putCAFSEntry(typeId: string, entry: CAFSEntry): Promise<void>;
+    /** Gets the CAFS entry of a content hash within a type, or null if not found */
+    getCAFSEntry(typeId: string, contentHash: string): Promise<CAFSEntry | null>;
+    /** Lists all CAFS entries of a type */
+    queryCAFSEntries(typeId: string): Promise<CAFSEntry[]>;
+    /** Lists one page of the CAFS entries of a type matching a query */
+    queryCAFSEntryPage(query: CAFSEntryQuery): Promise<CAFSEntryPage>;
+    /** Finds the CAFS entries of a content hash across all types */
+    findCAFSEntries(contentHash: string): Promise<CAFSEntry[]>;
+    /** Deletes the CAFS entry of a content hash within a type */
+    deleteCAFSEntry(typeId: string, contentHash: string): Promise<void>;
+    /**
+     * Atomically deletes the CAFS entry of a content hash within a type if no resource references it
+     * and it is not under legal hold. Returns whether the entry was deleted.
+     */
+    deleteUnreferencedCAFSEntry(typeId: string, contentHash: string): Promise<boolean>;
+    /** Atomically sets the last access time of a CAFS entry, if it exists */
+    touchCAFSEntry(typeId: string, contentHash: string, accessedAt: Date): Promise<void>;
+    /**
+     * Atomically places or releases the legal hold of a CAFS entry.
+     * Returns the updated entry, or null if the entry does not exist.
+     */
+    setCAFSLegalHold(typeId: string, contentHash: string, held: boolean): Promise<CAFSEntry | null>;
+    /**
+     * Atomically adds a resource reference to a CAFS entry, creating the entry from
+     * `initial` if it does not exist yet. Returns the updated entry.
+     */
+    addCAFSReference(typeId: string, initial: CAFSEntry, reference: CAFSReference): Promise<CAFSEntry>;
+    /**
+     * Atomically removes a resource reference from a CAFS entry.
+     * Returns the updated entry, or null if the entry does not exist.
+     */
+    removeCAFSReference(typeId: string, contentHash: string, resourceId: string): Promise<CAFSEntry | null>;
+    /** Gets a named ref, or null if it does not exist */
+    getRef(typeId: string, name: string): Promise<CAFSRef | null>;
+    /** Lists the named refs of a type */
+    listRefs(typeId: string): Promise<CAFSRef[]>;
+    /**
+     * Atomically changes a named ref if it points at the expected content, and records the change in its
+     * history. Throws a ConflictError if it does not. Returns the updated ref, or null if it was deleted.
+     */
+    updateRef(typeId: string, name: string, update: CAFSRefUpdate): Promise<CAFSRef | null>;
+    /** Lists the changes made to a named ref, most recent first */
+    queryRefHistory(typeId: string, name: string): Promise<CAFSRefLogEntry[]>;
+    /** Creates or replaces lineage edges */
+    putLineageEdges(edges: LineageEdge[]): Promise<void>;
+    /** Lists the lineage edges matching a query */
+    queryLineageEdges(query: LineageQuery): Promise<LineageEdge[]>;
+}
+
+/**
+ * Backends injected into GCSUtils and CAFS (defaults to Google Cloud services)
+ */
+export interface StorageBackends {
+    /** Blob storage backend */
+    blobStore?: BlobStore;
+    /** Metadata/index backend */
+    metadataStore?: MetadataStore;
+}
+
+/**
+ * Where a route keeps its content and metadata
+ */
+export interface RouteTarget {
+    /** Bucket holding the content */
+    bucketName?: string;
+    /** Firestore collection holding the metadata */
+    metadataCollection?: string;
+    /** Prefix of every storage path, e.g. `tenant-a/` */
+    keyPrefix?: string;
+}
+
+/**
+ * Routes of a tenant: its default target, per-type targets and configuration
+ */
+export interface TenantRouteConfig extends RouteTarget {
+    /** Targets of specific types, overriding the tenant's target field by field */
+    types?: Record<string, RouteTarget>;
+    /** CAFS configuration of the tenant (e.g. its encryption), over the shared defaults */
+    config?: Partial<GCSUtilsConfig>;
+}
+
+/**
+ * Routing of CAFS content to buckets, metadata collections and key prefixes by tenant and type
+ */
+export interface CAFSRoutingConfig {
+    /** CAFS configuration shared by every route; its bucket is the default bucket of tenants */
+    defaults?: Partial<GCSUtilsConfig>;
+    /** Buckets of specific types, for tenants that do not choose their own bucket */
+    types?: Record<string, { bucketName: string }>;
+    /** Routes of each tenant, by tenant ID */
+    tenants: Record<string, TenantRouteConfig>;
+}
+
+/**
+ * The target a tenant's type is routed to
+ */
+export interface ResolvedRoute {
+    /** The tenant */
+    tenantId: string;
+    /** Bucket holding the content */
+    bucketName: string;
+    /** Firestore collection holding the metadata */
+    metadataCollection: string;
+    /** Prefix of every storage path (empty for none) */
+    keyPrefix: string;
+}
+
+/**
+ * Creates the backends of a route's bucket and metadata collection; the router confines the blob
+ * store to the route's key prefix. Backends that are not returned default to GCS and Firestore.
+ */
+export type RouteBackendFactory = (route: ResolvedRoute) => StorageBackends;
+
+/**
+ * Storage used by a tenant for one type
+ */
+export interface TypeUsage {
+    /** The type */
+    typeId: string;
+    /** Bucket holding the content */
+    bucketName: string;
+    /** Number of distinct stored contents */
+    entries: number;
+    /** Total size of the distinct contents in bytes */
+    contentBytes: number;
+    /** Number of resource references to the contents */
+    references: number;
+}
+
+/**
+ * Storage used by a tenant
+ */
+export interface TenantUsage {
+    /** The tenant */
+    tenantId: string;
+    /** Number of distinct stored contents */
+    entries: number;
+    /** Total size of the distinct contents in bytes */
+    contentBytes: number;
+    /** Number of resource references to the contents */
+    references: number;
+    /** Usage of each type with stored content */
+    types: TypeUsage[];
+}